@@ -0,0 +1,53 @@
+import { fromSignedMinorUnits } from '../schemas/entries';
+import type { ActualClientFactory } from './clientFactory';
+
+export interface AccountItem {
+  id: string;
+  name: string;
+  offBudget: boolean;
+  closed: boolean;
+  /** Current balance as a signed decimal; negative for overdrawn or credit accounts. */
+  balance: number;
+  /** Balance including only entries dated on or before the requested `asOf` date. */
+  balanceAsOf?: number;
+}
+
+export interface ListAccountsInput {
+  budgetId: string;
+  asOf?: string;
+}
+
+export class AccountService {
+  constructor(
+    private readonly actualClientFactory: ActualClientFactory,
+    private readonly budgetService: {
+      assertBudgetAccessible(budgetId: string): Promise<void>;
+    }
+  ) {}
+
+  /** Lists accounts in Actual's sidebar order, open ones first, so clients can offer the names entries accept. */
+  async listAccounts(input: ListAccountsInput): Promise<AccountItem[]> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+
+      const accounts = await session.getAccounts();
+      const items: AccountItem[] = [];
+      for (const account of accounts) {
+        const balance = await session.getAccountBalance(account.id);
+        const balanceAsOf = input.asOf ? await session.getAccountBalance(account.id, input.asOf) : undefined;
+        items.push({
+          id: account.id,
+          name: account.name,
+          offBudget: account.offBudget,
+          closed: account.closed,
+          balance: fromSignedMinorUnits(balance),
+          ...(balanceAsOf !== undefined ? { balanceAsOf: fromSignedMinorUnits(balanceAsOf) } : {})
+        });
+      }
+
+      return items.sort((a, b) => Number(a.closed) - Number(b.closed));
+    });
+  }
+}
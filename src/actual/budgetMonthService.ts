@@ -0,0 +1,269 @@
+import type { Logger } from 'pino';
+import { NotFoundError, ValidationError } from '../errors';
+import {
+  fromActualSignedAmount,
+  fromMinorUnits,
+  fromSignedMinorUnits,
+  toMinorUnits,
+  type SignedFlow
+} from '../schemas/entries';
+import {
+  syncAfterWrite,
+  type ActualBudgetMonth,
+  type ActualBudgetMonthCategory,
+  type ActualBudgetMonthGroup,
+  type ActualBudgetSession,
+  type ActualClientFactory
+} from './clientFactory';
+import { IdempotencyStore } from './idempotency';
+import type { BudgetLockManager } from './locks';
+
+export interface BudgetMonthActivity {
+  amount: number;
+  flow: SignedFlow;
+}
+
+export interface BudgetMonthCategoryItem {
+  id: string;
+  name: string;
+  isIncome: boolean;
+  hidden: boolean;
+  budgeted: number;
+  activity: BudgetMonthActivity;
+  /** What is left to spend; negative, with `overspent` set, when more was spent than budgeted. */
+  balance: number;
+  overspent: boolean;
+  carryover: boolean;
+}
+
+export type BudgetMonthGroupItem = Omit<BudgetMonthCategoryItem, 'carryover'> & {
+  categories: BudgetMonthCategoryItem[];
+};
+
+export interface BudgetMonthView {
+  month: string;
+  /** Unassigned money; negative, with `overbudgeted` set, when more was budgeted than is available. */
+  toBudget?: number;
+  overbudgeted?: boolean;
+  totalBudgeted: number;
+  totalIncome: number;
+  totalSpent: number;
+  groups: BudgetMonthGroupItem[];
+}
+
+export interface GetBudgetMonthInput {
+  budgetId: string;
+  month: string;
+}
+
+export interface SetBudgetAmountInput extends GetBudgetMonthInput {
+  categoryId: string;
+  budgeted: number;
+  idempotencyKey?: string;
+}
+
+export interface BulkBudgetInput extends GetBudgetMonthInput {
+  idempotencyKey?: string;
+}
+
+// Actual's "3 month average" looks back over the three months before the target month.
+const AVERAGE_MONTHS = 3;
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year ?? 0, (monthIndex ?? 1) - 1 + delta, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+function budgetedCategories(month: ActualBudgetMonth): ActualBudgetMonthCategory[] {
+  return month.groups.flatMap((group) => group.categories).filter((category) => !category.isIncome);
+}
+
+// Zero activity has no sign, so it takes the flow its category normally sees.
+function toActivity(amount: number, isIncome: boolean): BudgetMonthActivity {
+  return amount === 0 ? { amount: 0, flow: isIncome ? 'income' : 'expense' } : fromActualSignedAmount(amount);
+}
+
+function toGroupItem(group: ActualBudgetMonthGroup): BudgetMonthGroupItem {
+  return {
+    id: group.id,
+    name: group.name,
+    isIncome: group.isIncome,
+    hidden: group.hidden,
+    budgeted: fromSignedMinorUnits(group.budgeted),
+    activity: toActivity(group.activity, group.isIncome),
+    balance: fromSignedMinorUnits(group.balance),
+    overspent: group.balance < 0,
+    categories: group.categories.map(toCategoryItem)
+  };
+}
+
+function toCategoryItem(category: ActualBudgetMonthCategory): BudgetMonthCategoryItem {
+  return {
+    id: category.id,
+    name: category.name,
+    isIncome: category.isIncome,
+    hidden: category.hidden,
+    budgeted: fromSignedMinorUnits(category.budgeted),
+    activity: toActivity(category.activity, category.isIncome),
+    balance: fromSignedMinorUnits(category.balance),
+    overspent: category.balance < 0,
+    carryover: category.carryover
+  };
+}
+
+function toMonthView(month: ActualBudgetMonth): BudgetMonthView {
+  return {
+    month: month.month,
+    ...(month.toBudget !== undefined
+      ? { toBudget: fromSignedMinorUnits(month.toBudget), overbudgeted: month.toBudget < 0 }
+      : {}),
+    totalBudgeted: fromMinorUnits(month.totalBudgeted),
+    totalIncome: fromMinorUnits(month.totalIncome),
+    totalSpent: fromMinorUnits(month.totalSpent),
+    groups: month.groups.map(toGroupItem)
+  };
+}
+
+export class BudgetMonthService {
+  private readonly idempotency: IdempotencyStore<BudgetMonthView>;
+
+  constructor(
+    private readonly actualClientFactory: ActualClientFactory,
+    private readonly budgetService: {
+      assertBudgetAccessible(budgetId: string): Promise<void>;
+    },
+    private readonly lockManager: BudgetLockManager,
+    private readonly lockTimeoutMs: number,
+    private readonly logger: Logger,
+    idempotencyTtlMs: number = 24 * 60 * 60 * 1000,
+    idempotencyMaxRecords: number = 10_000
+  ) {
+    this.idempotency = new IdempotencyStore(idempotencyTtlMs, idempotencyMaxRecords);
+  }
+
+  async getBudgetMonth(input: GetBudgetMonthInput): Promise<BudgetMonthView> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+      return toMonthView(await this.loadMonth(session, input.month));
+    });
+  }
+
+  /** Sets one category's budgeted amount and returns the updated month. */
+  async setBudgetAmount(input: SetBudgetAmountInput): Promise<BudgetMonthView> {
+    const fingerprint = JSON.stringify({
+      action: 'set',
+      month: input.month,
+      categoryId: input.categoryId,
+      budgeted: input.budgeted
+    });
+
+    return this.writeMonth(input, fingerprint, async (session, month) => {
+      const category = month.groups
+        .flatMap((group) => group.categories)
+        .find((item) => item.id === input.categoryId);
+      if (!category) {
+        throw new NotFoundError(`Category not found: ${input.categoryId}`);
+      }
+      // Envelope budgets fund spending from income, so only tracking budgets budget income categories.
+      if (category.isIncome && month.toBudget !== undefined) {
+        throw new ValidationError(`Income category cannot be budgeted: ${category.name}`, { categoryId: category.id });
+      }
+
+      await session.setBudgetAmount(input.month, category.id, toMinorUnits(input.budgeted));
+      return 1;
+    });
+  }
+
+  /** Copies every expense category's budgeted amount from the month before. */
+  async copyPreviousMonth(input: BulkBudgetInput): Promise<BudgetMonthView> {
+    const fingerprint = JSON.stringify({ action: 'copyPreviousMonth', month: input.month });
+
+    return this.writeMonth(input, fingerprint, async (session, month) => {
+      const previous = await this.loadMonth(session, shiftMonth(input.month, -1));
+      const previousBudgeted = new Map(budgetedCategories(previous).map((item) => [item.id, item.budgeted]));
+
+      const categories = budgetedCategories(month);
+      for (const category of categories) {
+        await session.setBudgetAmount(input.month, category.id, previousBudgeted.get(category.id) ?? 0);
+      }
+      return categories.length;
+    });
+  }
+
+  /**
+   * Budgets every expense category at its average spending over the previous three months. Like
+   * Actual, months without data count as zero; net refunds budget zero rather than a negative amount.
+   */
+  async applyAverage(input: BulkBudgetInput): Promise<BudgetMonthView> {
+    const fingerprint = JSON.stringify({ action: 'applyAverage', month: input.month });
+
+    return this.writeMonth(input, fingerprint, async (session, month) => {
+      const spentById = new Map<string, number>();
+      for (let offset = 1; offset <= AVERAGE_MONTHS; offset += 1) {
+        const previous = await session.getBudgetMonth(shiftMonth(input.month, -offset));
+        for (const category of previous ? budgetedCategories(previous) : []) {
+          spentById.set(category.id, (spentById.get(category.id) ?? 0) - category.activity);
+        }
+      }
+
+      const categories = budgetedCategories(month);
+      for (const category of categories) {
+        const average = Math.round((spentById.get(category.id) ?? 0) / AVERAGE_MONTHS);
+        await session.setBudgetAmount(input.month, category.id, Math.max(0, average));
+      }
+      return categories.length;
+    });
+  }
+
+  private async loadMonth(session: ActualBudgetSession, month: string): Promise<ActualBudgetMonth> {
+    const loaded = await session.getBudgetMonth(month);
+    if (!loaded) {
+      throw new NotFoundError(`Budget month not found: ${month}`);
+    }
+    return loaded;
+  }
+
+  /**
+   * Runs a budget write for one month under the budget lock with entry-style idempotency, then
+   * re-reads the month so the response reflects Actual's recalculated balances.
+   */
+  private async writeMonth(
+    input: BulkBudgetInput,
+    fingerprint: string,
+    write: (session: ActualBudgetSession, month: ActualBudgetMonth) => Promise<number>
+  ): Promise<BudgetMonthView> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.lockManager.withBudgetLock(input.budgetId, this.lockTimeoutMs, async () => {
+      const now = Date.now();
+      if (input.idempotencyKey) {
+        const existing = this.idempotency.get(input.budgetId, input.idempotencyKey, fingerprint, now);
+        if (existing) {
+          return existing;
+        }
+      }
+
+      return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+        await session.sync();
+
+        const written = await write(session, await this.loadMonth(session, input.month));
+
+        await syncAfterWrite(
+          session,
+          this.logger,
+          { budgetId: input.budgetId, month: input.month, categories: written },
+          'Post-write sync failed; budget amounts were set locally'
+        );
+
+        const response = toMonthView(await this.loadMonth(session, input.month));
+        if (input.idempotencyKey) {
+          this.idempotency.put(input.budgetId, input.idempotencyKey, fingerprint, response, now);
+        }
+        return response;
+      });
+    });
+  }
+}
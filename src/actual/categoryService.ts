@@ -0,0 +1,46 @@
+import type { ActualClientFactory } from './clientFactory';
+
+export interface CategoryItem {
+  id: string;
+  name: string;
+  isIncome: boolean;
+  hidden: boolean;
+}
+
+export interface CategoryGroupItem extends CategoryItem {
+  categories: CategoryItem[];
+}
+
+export class CategoryService {
+  constructor(
+    private readonly actualClientFactory: ActualClientFactory,
+    private readonly budgetService: {
+      assertBudgetAccessible(budgetId: string): Promise<void>;
+    }
+  ) {}
+
+  /** Lists category groups in Actual's order with their categories nested, hidden ones included. */
+  async listCategories(budgetId: string): Promise<CategoryGroupItem[]> {
+    await this.budgetService.assertBudgetAccessible(budgetId);
+
+    return this.actualClientFactory.withBudget(budgetId, async (session) => {
+      await session.sync();
+
+      const [groups, categories] = await Promise.all([session.getCategoryGroups(), session.getCategories()]);
+      return groups.map((group) => ({
+        id: group.id,
+        name: group.name,
+        isIncome: group.isIncome,
+        hidden: group.hidden,
+        categories: categories
+          .filter((category) => category.groupId === group.id)
+          .map((category) => ({
+            id: category.id,
+            name: category.name,
+            isIncome: category.isIncome,
+            hidden: category.hidden
+          }))
+      }));
+    });
+  }
+}
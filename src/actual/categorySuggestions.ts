@@ -0,0 +1,108 @@
+import type { ActualTransaction } from './clientFactory';
+
+export interface CategorySuggestion {
+  categoryId: string;
+  count: number;
+  /** Share of the payee's weighted history that used this category, from 0 to 1. */
+  score: number;
+}
+
+export interface HistorySuggestions {
+  categories: CategorySuggestion[];
+  accountId?: string;
+}
+
+export interface SuggestionOptions {
+  /** Absolute amount in minor units; past entries closer to it weigh more. */
+  amount?: number;
+  /** Restricts history to entries with the same sign. */
+  flow?: 'income' | 'expense';
+  asOf: string;
+}
+
+interface HistoryRow {
+  transaction: ActualTransaction;
+  children: ActualTransaction[];
+}
+
+export const SUGGESTION_HISTORY_DAYS = 365;
+const RECENCY_HALF_LIFE_DAYS = 90;
+const MAX_CATEGORY_SUGGESTIONS = 5;
+const MIN_CONFIDENT_COUNT = 2;
+const MIN_CONFIDENT_SCORE = 0.6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function historyStartDate(asOf: string): string {
+  return new Date(Date.parse(asOf) - SUGGESTION_HISTORY_DAYS * DAY_MS).toISOString().slice(0, 10);
+}
+
+function entryWeight(transaction: ActualTransaction, options: SuggestionOptions): number {
+  const ageDays = Math.max(0, (Date.parse(options.asOf) - Date.parse(transaction.date)) / DAY_MS);
+  const recency = 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+  if (options.amount === undefined) {
+    return recency;
+  }
+
+  const amount = Math.abs(transaction.amount);
+  const largest = Math.max(amount, options.amount);
+  const closeness = largest === 0 ? 1 : 1 / (1 + Math.abs(amount - options.amount) / largest);
+  return recency * closeness;
+}
+
+function addWeight(totals: Map<string, { count: number; weight: number }>, key: string, weight: number): void {
+  const current = totals.get(key) ?? { count: 0, weight: 0 };
+  totals.set(key, { count: current.count + 1, weight: current.weight + weight });
+}
+
+/**
+ * Ranks the categories (and picks the usual account) a payee's past entries used. Entries are
+ * weighted by recency and, when an amount is given, by how close their amount is; split entries
+ * contribute each line's category.
+ */
+export function rankCategorySuggestions(
+  history: HistoryRow[],
+  payeeIds: ReadonlySet<string>,
+  options: SuggestionOptions
+): HistorySuggestions {
+  const categoryTotals = new Map<string, { count: number; weight: number }>();
+  const accountTotals = new Map<string, { count: number; weight: number }>();
+
+  for (const { transaction, children } of history) {
+    if (!transaction.payeeId || !payeeIds.has(transaction.payeeId) || transaction.transferId) {
+      continue;
+    }
+    if (options.flow && (transaction.amount < 0) !== (options.flow === 'expense')) {
+      continue;
+    }
+
+    const weight = entryWeight(transaction, options);
+    addWeight(accountTotals, transaction.accountId, weight);
+    const lines = children.length > 0 ? children : [transaction];
+    for (const line of lines) {
+      if (line.categoryId) {
+        addWeight(categoryTotals, line.categoryId, weight / lines.length);
+      }
+    }
+  }
+
+  const totalWeight = [...categoryTotals.values()].reduce((sum, total) => sum + total.weight, 0);
+  const categories = [...categoryTotals.entries()]
+    .map(([categoryId, total]) => ({
+      categoryId,
+      count: total.count,
+      score: Math.round((total.weight / totalWeight) * 1000) / 1000
+    }))
+    .sort((a, b) => b.score - a.score || b.count - a.count || a.categoryId.localeCompare(b.categoryId))
+    .slice(0, MAX_CATEGORY_SUGGESTIONS);
+  const account = [...accountTotals.entries()].sort((a, b) => b[1].weight - a[1].weight)[0];
+
+  return {
+    categories,
+    ...(account ? { accountId: account[0] } : {})
+  };
+}
+
+/** A suggestion is applied automatically only when it dominates a history of more than one entry. */
+export function isConfidentSuggestion(suggestion: CategorySuggestion | undefined): boolean {
+  return suggestion !== undefined && suggestion.count >= MIN_CONFIDENT_COUNT && suggestion.score >= MIN_CONFIDENT_SCORE;
+}
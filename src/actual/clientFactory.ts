@@ -2,6 +2,7 @@ import * as actualApi from '@actual-app/api';
 import type { Logger } from 'pino';
 import type { AppConfig } from '../config';
 import { UpstreamError } from '../errors';
+import type { Recurrence } from './recurrence';
 
 export interface BudgetSummary {
   id: string;
@@ -13,6 +14,26 @@ export interface NamedEntity {
   name: string;
 }
 
+export interface ActualAccount extends NamedEntity {
+  offBudget: boolean;
+  closed: boolean;
+}
+
+export interface ActualCategory extends NamedEntity {
+  groupId?: string;
+  isIncome: boolean;
+  hidden: boolean;
+}
+
+export interface ActualCategoryGroup extends NamedEntity {
+  isIncome: boolean;
+  hidden: boolean;
+}
+
+export interface ActualPayee extends NamedEntity {
+  transferAccountId?: string;
+}
+
 export interface ActualTransaction {
   id: string;
   date: string;
@@ -21,25 +42,115 @@ export interface ActualTransaction {
   categoryId?: string;
   payeeId?: string;
   notes?: string;
+  parentId?: string;
+  isParent?: boolean;
+  transferId?: string;
+  importedId?: string;
+  scheduleId?: string;
+  cleared?: boolean;
+  reconciled?: boolean;
+  /** Split lines of a parent, present only on transactions loaded one at a time. */
+  subtransactions?: ActualTransaction[];
+}
+
+export interface ActualSubtransactionCreate {
+  amount: number;
+  categoryId: string;
+  notes?: string;
 }
 
 export interface ActualTransactionCreate {
   accountId: string;
-  categoryId: string;
+  categoryId?: string;
   payeeId?: string;
   date: string;
   amount: number;
   notes?: string;
+  importedId?: string;
+  scheduleId?: string;
+  cleared?: boolean;
+  subtransactions?: ActualSubtransactionCreate[];
+}
+
+export type ActualTransactionUpdate = Partial<Omit<ActualTransactionCreate, 'importedId' | 'scheduleId'>>;
+
+export interface ActualSchedule {
+  id: string;
+  name?: string;
+  accountId?: string;
+  payeeId?: string;
+  /** Signed minor units; absent when the schedule matches an amount range. */
+  amount?: number;
+  /** A recurrence, or a single date for one-off schedules. */
+  date: Recurrence | string;
+  /** Day patterns (e.g. "last Friday") that `expandRecurrence` does not support. */
+  hasPatterns: boolean;
+  nextDate?: string;
+  completed: boolean;
+  postsTransaction: boolean;
+}
+
+export interface ActualScheduleCreate {
+  name?: string;
+  accountId: string;
+  payeeId: string;
+  amount: number;
+  recurrence: Recurrence;
+}
+
+export interface ActualBudgetMonthCategory extends NamedEntity {
+  isIncome: boolean;
+  hidden: boolean;
+  /** Signed minor units, like every amount of a budget month. */
+  budgeted: number;
+  /** Spending (negative) for expense categories, money received (positive) for income categories. */
+  activity: number;
+  balance: number;
+  /** Whether a negative balance rolls over into next month instead of reducing "to budget". */
+  carryover: boolean;
+}
+
+export interface ActualBudgetMonthGroup extends NamedEntity {
+  isIncome: boolean;
+  hidden: boolean;
+  budgeted: number;
+  activity: number;
+  balance: number;
+  categories: ActualBudgetMonthCategory[];
+}
+
+export interface ActualBudgetMonth {
+  month: string;
+  /** Absent for tracking budgets, which have no "to budget" pool. */
+  toBudget?: number;
+  totalBudgeted: number;
+  totalIncome: number;
+  totalSpent: number;
+  groups: ActualBudgetMonthGroup[];
 }
 
 export interface ActualBudgetSession {
   sync(): Promise<void>;
-  getAccounts(): Promise<NamedEntity[]>;
-  getCategories(): Promise<NamedEntity[]>;
-  getPayees(): Promise<NamedEntity[]>;
+  getAccounts(): Promise<ActualAccount[]>;
+  /** Balance in minor units, including entries dated on or before `asOf` (default: all entries). */
+  getAccountBalance(accountId: string, asOf?: string): Promise<number>;
+  getCategories(): Promise<ActualCategory[]>;
+  getCategoryGroups(): Promise<ActualCategoryGroup[]>;
+  /** Budgeted, activity and balance per category for `month` (`YYYY-MM`); null when the budget has no such month. */
+  getBudgetMonth(month: string): Promise<ActualBudgetMonth | null>;
+  /** Sets a category's budgeted amount (minor units) for `month`. */
+  setBudgetAmount(month: string, categoryId: string, amount: number): Promise<void>;
+  getPayees(): Promise<ActualPayee[]>;
   createPayee(name: string): Promise<NamedEntity>;
+  mergePayees(targetId: string, mergeIds: string[]): Promise<void>;
   listTransactions(params: { from: string; to: string }): Promise<ActualTransaction[]>;
   createTransaction(input: ActualTransactionCreate): Promise<{ id: string }>;
+  getTransaction(id: string): Promise<ActualTransaction | null>;
+  findTransactionByImportedId(accountId: string, importedId: string): Promise<ActualTransaction | null>;
+  updateTransaction(id: string, input: ActualTransactionUpdate): Promise<void>;
+  deleteTransaction(id: string): Promise<void>;
+  getSchedules(): Promise<ActualSchedule[]>;
+  createSchedule(input: ActualScheduleCreate): Promise<{ id: string }>;
   close(): Promise<void>;
 }
 
@@ -50,8 +161,38 @@ export interface ActualClientFactory {
   shutdown(): Promise<void>;
 }
 
+/**
+ * Pushes a finished write to the Actual server. The write already landed in the local budget, so a
+ * failed sync is logged with `context` and `message` instead of failing the request.
+ */
+export async function syncAfterWrite(
+  session: ActualBudgetSession,
+  logger: Logger,
+  context: Record<string, unknown>,
+  message: string
+): Promise<void> {
+  try {
+    await session.sync();
+  } catch (error) {
+    logger.warn(
+      {
+        ...context,
+        errorName: error instanceof Error ? error.name : typeof error,
+        errorMessage: error instanceof Error ? error.message : String(error)
+      },
+      message
+    );
+  }
+}
+
 type UnknownRecord = Record<string, unknown>;
 
+interface ActualQueryLike {
+  filter(expression: UnknownRecord): ActualQueryLike;
+  select(fields: string | string[]): ActualQueryLike;
+  options(options: UnknownRecord): ActualQueryLike;
+}
+
 type ActualApiLike = UnknownRecord & {
   init?: (...args: unknown[]) => Promise<unknown>;
   shutdown?: () => Promise<unknown>;
@@ -65,14 +206,27 @@ type ActualApiLike = UnknownRecord & {
   openBudget?: (...args: unknown[]) => Promise<unknown>;
   loadBudget?: (...args: unknown[]) => Promise<unknown>;
   getAccounts?: () => Promise<unknown>;
+  getAccountBalance?: (...args: unknown[]) => Promise<unknown>;
   getCategories?: () => Promise<unknown>;
+  getCategoryGroups?: () => Promise<unknown>;
+  getBudgetMonths?: () => Promise<unknown>;
+  getBudgetMonth?: (...args: unknown[]) => Promise<unknown>;
+  setBudgetAmount?: (...args: unknown[]) => Promise<unknown>;
   getPayees?: () => Promise<unknown>;
   createPayee?: (...args: unknown[]) => Promise<unknown>;
   addPayee?: (...args: unknown[]) => Promise<unknown>;
+  mergePayees?: (...args: unknown[]) => Promise<unknown>;
   getTransactions?: (...args: unknown[]) => Promise<unknown>;
   addTransaction?: (...args: unknown[]) => Promise<unknown>;
   addTransactions?: (...args: unknown[]) => Promise<unknown>;
   createTransaction?: (...args: unknown[]) => Promise<unknown>;
+  updateTransaction?: (...args: unknown[]) => Promise<unknown>;
+  deleteTransaction?: (...args: unknown[]) => Promise<unknown>;
+  getSchedules?: () => Promise<unknown>;
+  createSchedule?: (...args: unknown[]) => Promise<unknown>;
+  q?: (table: string) => ActualQueryLike;
+  aqlQuery?: (query: ActualQueryLike) => Promise<unknown>;
+  runQuery?: (query: ActualQueryLike) => Promise<unknown>;
 };
 
 function sanitizeErrorForLog(error: unknown): Record<string, string> {
@@ -116,6 +270,127 @@ function normalizeEntity(item: unknown): NamedEntity | null {
   return { id, name };
 }
 
+function normalizeAccount(item: unknown): ActualAccount | null {
+  const entity = normalizeEntity(item);
+  if (!entity) {
+    return null;
+  }
+
+  const record = item as UnknownRecord;
+  const offBudget = record.offbudget ?? record.offBudget;
+  return {
+    ...entity,
+    offBudget: offBudget === true || offBudget === 1,
+    closed: record.closed === true || record.closed === 1
+  };
+}
+
+function normalizeCategory(item: unknown): ActualCategory | null {
+  const entity = normalizeEntity(item);
+  if (!entity) {
+    return null;
+  }
+
+  const record = item as UnknownRecord;
+  const groupId = toStringValue(record.group_id) ?? toStringValue(record.groupId) ?? toStringValue(record.cat_group);
+  return {
+    ...entity,
+    ...(groupId ? { groupId } : {}),
+    isIncome: record.is_income === true || record.is_income === 1,
+    hidden: record.hidden === true || record.hidden === 1
+  };
+}
+
+function normalizeCategoryGroup(item: unknown): ActualCategoryGroup | null {
+  const entity = normalizeEntity(item);
+  if (!entity) {
+    return null;
+  }
+
+  const record = item as UnknownRecord;
+  return {
+    ...entity,
+    isIncome: record.is_income === true || record.is_income === 1,
+    hidden: record.hidden === true || record.hidden === 1
+  };
+}
+
+function toMinorAmount(value: unknown): number {
+  const amount = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+function normalizeBudgetMonthCategory(item: unknown): ActualBudgetMonthCategory | null {
+  const category = normalizeCategory(item);
+  if (!category) {
+    return null;
+  }
+
+  const record = item as UnknownRecord;
+  return {
+    id: category.id,
+    name: category.name,
+    isIncome: category.isIncome,
+    hidden: category.hidden,
+    budgeted: toMinorAmount(record.budgeted),
+    // Envelope budgets report income categories as `received`; spending categories as `spent`.
+    activity: toMinorAmount(record.spent ?? record.received),
+    balance: toMinorAmount(record.balance),
+    carryover: record.carryover === true || record.carryover === 1
+  };
+}
+
+function normalizeBudgetMonthGroup(item: unknown): ActualBudgetMonthGroup | null {
+  const group = normalizeCategoryGroup(item);
+  if (!group) {
+    return null;
+  }
+
+  const record = item as UnknownRecord;
+  return {
+    ...group,
+    budgeted: toMinorAmount(record.budgeted),
+    activity: toMinorAmount(record.spent ?? record.received),
+    balance: toMinorAmount(record.balance),
+    categories: asArray(record.categories)
+      .map(normalizeBudgetMonthCategory)
+      .filter((category): category is ActualBudgetMonthCategory => category !== null)
+  };
+}
+
+function normalizeBudgetMonth(month: string, item: unknown): ActualBudgetMonth {
+  const record = item && typeof item === 'object' ? (item as UnknownRecord) : {};
+  const hasToBudget = record.toBudget !== undefined && record.toBudget !== null;
+  return {
+    month,
+    ...(hasToBudget ? { toBudget: toMinorAmount(record.toBudget) } : {}),
+    totalBudgeted: toMinorAmount(record.totalBudgeted),
+    totalIncome: toMinorAmount(record.totalIncome),
+    totalSpent: toMinorAmount(record.totalSpent),
+    groups: asArray(record.categoryGroups)
+      .map(normalizeBudgetMonthGroup)
+      .filter((group): group is ActualBudgetMonthGroup => group !== null)
+  };
+}
+
+function normalizePayee(item: unknown): ActualPayee | null {
+  if (!item || typeof item !== 'object') {
+    return null;
+  }
+
+  const record = item as UnknownRecord;
+  const transferAccountId = toStringValue(record.transfer_acct) ?? toStringValue(record.transferAccountId);
+  const id = toStringValue(record.id) ?? toStringValue(record.uuid);
+  // Transfer payees are stored without a name in Actual; they are identified by their account.
+  const name = toStringValue(record.name) ?? (transferAccountId ? '' : undefined);
+
+  if (!id || name === undefined) {
+    return null;
+  }
+
+  return transferAccountId ? { id, name, transferAccountId } : { id, name };
+}
+
 function normalizeBudget(item: unknown): BudgetSummary | null {
   if (!item || typeof item !== 'object') {
     return null;
@@ -145,6 +420,14 @@ function normalizeTransaction(item: unknown, fallbackAccountId: string): ActualT
   const categoryId = toStringValue(record.category) ?? toStringValue(record.categoryId);
   const payeeId = toStringValue(record.payee) ?? toStringValue(record.payeeId);
   const notes = toStringValue(record.notes) ?? toStringValue(record.note);
+  const parentId = toStringValue(record.parent_id) ?? toStringValue(record.parentId);
+  const transferId = toStringValue(record.transfer_id) ?? toStringValue(record.transferId);
+  const importedId = toStringValue(record.imported_id) ?? toStringValue(record.importedId);
+  const scheduleId = toStringValue(record.schedule) ?? toStringValue(record.scheduleId);
+  const isParent = record.is_parent === true || asArray(record.subtransactions).length > 0;
+  // Actual stores booleans as 0/1 in some query results.
+  const cleared = record.cleared === true || record.cleared === 1;
+  const reconciled = record.reconciled === true || record.reconciled === 1;
 
   const amountRaw = record.amount;
   const amount = typeof amountRaw === 'number' ? amountRaw : Number(amountRaw);
@@ -160,10 +443,111 @@ function normalizeTransaction(item: unknown, fallbackAccountId: string): ActualT
     accountId,
     categoryId,
     payeeId,
-    notes
+    notes,
+    ...(parentId ? { parentId } : {}),
+    ...(isParent ? { isParent } : {}),
+    ...(transferId ? { transferId } : {}),
+    ...(importedId ? { importedId } : {}),
+    ...(scheduleId ? { scheduleId } : {}),
+    cleared,
+    reconciled
+  };
+}
+
+const RECURRENCE_FREQUENCIES = new Set(['daily', 'weekly', 'monthly', 'yearly']);
+
+function normalizeRecurrence(value: unknown): Recurrence | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const record = value as UnknownRecord;
+  const start = toStringValue(record.start);
+  const frequency = toStringValue(record.frequency);
+  if (!start || !frequency || !RECURRENCE_FREQUENCIES.has(frequency)) {
+    return null;
+  }
+
+  const endMode = record.endMode === 'after_n_occurrences' || record.endMode === 'on_date' ? record.endMode : 'never';
+  const endOccurrences = typeof record.endOccurrences === 'number' ? record.endOccurrences : undefined;
+  const endDate = toStringValue(record.endDate);
+  return {
+    frequency: frequency as Recurrence['frequency'],
+    interval: typeof record.interval === 'number' && record.interval > 0 ? record.interval : 1,
+    start: start.slice(0, 10),
+    endMode,
+    ...(endOccurrences !== undefined ? { endOccurrences } : {}),
+    ...(endDate ? { endDate: endDate.slice(0, 10) } : {}),
+    skipWeekend: record.skipWeekend === true,
+    weekendSolveMode: record.weekendSolveMode === 'before' ? 'before' : 'after'
+  };
+}
+
+function normalizeSchedule(item: unknown): ActualSchedule | null {
+  if (!item || typeof item !== 'object') {
+    return null;
+  }
+
+  const record = item as UnknownRecord;
+  const id = toStringValue(record.id);
+  const rawDate = record.date ?? record._date;
+  const date = typeof rawDate === 'string' ? rawDate.slice(0, 10) : normalizeRecurrence(rawDate);
+  if (!id || !date) {
+    return null;
+  }
+
+  const rawAmount = record.amount ?? record._amount;
+  const accountId = toStringValue(record.account) ?? toStringValue(record._account);
+  const payeeId = toStringValue(record.payee) ?? toStringValue(record._payee);
+  const name = toStringValue(record.name);
+  const nextDate = toStringValue(record.next_date);
+  const patterns = rawDate && typeof rawDate === 'object' ? asArray((rawDate as UnknownRecord).patterns) : [];
+  return {
+    id,
+    ...(name ? { name } : {}),
+    ...(accountId ? { accountId } : {}),
+    ...(payeeId ? { payeeId } : {}),
+    ...(typeof rawAmount === 'number' ? { amount: rawAmount } : {}),
+    date,
+    hasPatterns: patterns.length > 0,
+    ...(nextDate ? { nextDate } : {}),
+    completed: record.completed === true || record.completed === 1,
+    postsTransaction: record.posts_transaction === true || record.posts_transaction === 1
   };
 }
 
+function normalizeTransactionList(items: unknown[], fallbackAccountId: string): ActualTransaction[] {
+  const byId = new Map<string, ActualTransaction>();
+
+  for (const item of items) {
+    const parent = normalizeTransaction(item, fallbackAccountId);
+    if (!parent) {
+      continue;
+    }
+    byId.set(parent.id, parent);
+
+    // Grouped results nest split lines under the parent instead of listing them separately.
+    for (const child of asArray((item as UnknownRecord).subtransactions)) {
+      const normalizedChild = normalizeTransaction(child, parent.accountId);
+      if (normalizedChild) {
+        byId.set(normalizedChild.id, { ...normalizedChild, parentId: normalizedChild.parentId ?? parent.id });
+      }
+    }
+  }
+
+  return [...byId.values()];
+}
+
+function withSubtransactions(transactions: ActualTransaction[], id: string): ActualTransaction | null {
+  const transaction = transactions.find((item) => item.id === id);
+  if (!transaction) {
+    return null;
+  }
+
+  const subtransactions = transactions.filter((item) => item.parentId === id);
+  return subtransactions.length > 0 ? { ...transaction, subtransactions } : transaction;
+}
+
 class ApiBudgetSession implements ActualBudgetSession {
   constructor(
     private readonly api: ActualApiLike,
@@ -182,31 +566,97 @@ class ApiBudgetSession implements ActualBudgetSession {
     }
   }
 
-  async getAccounts(): Promise<NamedEntity[]> {
+  async getAccounts(): Promise<ActualAccount[]> {
     if (typeof this.api.getAccounts !== 'function') {
       throw new UpstreamError('Actual API does not expose getAccounts');
     }
 
     const result = await this.api.getAccounts();
-    return asArray(result).map(normalizeEntity).filter((item): item is NamedEntity => item !== null);
+    return asArray(result).map(normalizeAccount).filter((item): item is ActualAccount => item !== null);
+  }
+
+  async getAccountBalance(accountId: string, asOf?: string): Promise<number> {
+    if (typeof this.api.getAccountBalance !== 'function') {
+      throw new UpstreamError('Actual API does not expose getAccountBalance');
+    }
+
+    let result: unknown;
+    try {
+      // Actual reads the cutoff's local calendar day, so local noon keeps `asOf` from shifting a day.
+      result = asOf
+        ? await this.api.getAccountBalance(accountId, new Date(`${asOf}T12:00:00`))
+        : await this.api.getAccountBalance(accountId);
+    } catch (error) {
+      throw new UpstreamError('Failed to load account balance', error);
+    }
+
+    const balance = typeof result === 'number' ? result : Number(result);
+    if (Number.isNaN(balance)) {
+      throw new UpstreamError('Actual API returned a non-numeric account balance');
+    }
+    return balance;
   }
 
-  async getCategories(): Promise<NamedEntity[]> {
+  async getCategories(): Promise<ActualCategory[]> {
     if (typeof this.api.getCategories !== 'function') {
       throw new UpstreamError('Actual API does not expose getCategories');
     }
 
     const result = await this.api.getCategories();
-    return asArray(result).map(normalizeEntity).filter((item): item is NamedEntity => item !== null);
+    return asArray(result).map(normalizeCategory).filter((item): item is ActualCategory => item !== null);
+  }
+
+  async getCategoryGroups(): Promise<ActualCategoryGroup[]> {
+    if (typeof this.api.getCategoryGroups !== 'function') {
+      throw new UpstreamError('Actual API does not expose getCategoryGroups');
+    }
+
+    const result = await this.api.getCategoryGroups();
+    return asArray(result)
+      .map(normalizeCategoryGroup)
+      .filter((item): item is ActualCategoryGroup => item !== null);
+  }
+
+  async getBudgetMonth(month: string): Promise<ActualBudgetMonth | null> {
+    if (typeof this.api.getBudgetMonth !== 'function') {
+      throw new UpstreamError('Actual API does not expose getBudgetMonth');
+    }
+
+    let result: unknown;
+    try {
+      // Actual throws for months outside the budget's range, so check the range before asking.
+      if (typeof this.api.getBudgetMonths === 'function') {
+        const months = asArray(await this.api.getBudgetMonths());
+        if (!months.includes(month)) {
+          return null;
+        }
+      }
+      result = await this.api.getBudgetMonth(month);
+    } catch (error) {
+      throw new UpstreamError('Failed to load budget month', error);
+    }
+    return normalizeBudgetMonth(month, result);
+  }
+
+  async setBudgetAmount(month: string, categoryId: string, amount: number): Promise<void> {
+    if (typeof this.api.setBudgetAmount !== 'function') {
+      throw new UpstreamError('Actual API does not expose setBudgetAmount');
+    }
+
+    try {
+      await this.api.setBudgetAmount(month, categoryId, amount);
+    } catch (error) {
+      throw new UpstreamError('Failed to set budget amount', error);
+    }
   }
 
-  async getPayees(): Promise<NamedEntity[]> {
+  async getPayees(): Promise<ActualPayee[]> {
     if (typeof this.api.getPayees !== 'function') {
       throw new UpstreamError('Actual API does not expose getPayees');
     }
 
     const result = await this.api.getPayees();
-    return asArray(result).map(normalizeEntity).filter((item): item is NamedEntity => item !== null);
+    return asArray(result).map(normalizePayee).filter((item): item is ActualPayee => item !== null);
   }
 
   async createPayee(name: string): Promise<NamedEntity> {
@@ -233,6 +683,18 @@ class ApiBudgetSession implements ActualBudgetSession {
     throw new UpstreamError('Actual API did not return payee data for created payee');
   }
 
+  async mergePayees(targetId: string, mergeIds: string[]): Promise<void> {
+    if (typeof this.api.mergePayees !== 'function') {
+      throw new UpstreamError('Actual API does not expose mergePayees');
+    }
+
+    try {
+      await this.api.mergePayees(targetId, mergeIds);
+    } catch (error) {
+      throw new UpstreamError('Failed to merge payees', error);
+    }
+  }
+
   async listTransactions(params: { from: string; to: string }): Promise<ActualTransaction[]> {
     if (typeof this.api.getTransactions !== 'function') {
       throw new UpstreamError('Actual API does not expose getTransactions');
@@ -244,10 +706,7 @@ class ApiBudgetSession implements ActualBudgetSession {
     for (const account of accounts) {
       try {
         const maybe = await this.api.getTransactions(account.id, params.from, params.to);
-        const items = asArray(maybe)
-          .map((item) => normalizeTransaction(item, account.id))
-          .filter((item): item is ActualTransaction => item !== null);
-        all.push(...items);
+        all.push(...normalizeTransactionList(asArray(maybe), account.id));
       } catch (error) {
         this.logger.debug(
           {
@@ -257,10 +716,7 @@ class ApiBudgetSession implements ActualBudgetSession {
           'Primary getTransactions signature failed, trying object signature'
         );
         const maybe = await this.api.getTransactions({ accountId: account.id, from: params.from, to: params.to });
-        const items = asArray(maybe)
-          .map((item) => normalizeTransaction(item, account.id))
-          .filter((item): item is ActualTransaction => item !== null);
-        all.push(...items);
+        all.push(...normalizeTransactionList(asArray(maybe), account.id));
       }
     }
 
@@ -273,7 +729,19 @@ class ApiBudgetSession implements ActualBudgetSession {
       amount: input.amount,
       payee: input.payeeId,
       category: input.categoryId,
-      notes: input.notes
+      notes: input.notes,
+      ...(input.importedId ? { imported_id: input.importedId } : {}),
+      ...(input.scheduleId ? { schedule: input.scheduleId } : {}),
+      ...(input.cleared !== undefined ? { cleared: input.cleared } : {}),
+      ...(input.subtransactions
+        ? {
+            subtransactions: input.subtransactions.map((line) => ({
+              amount: line.amount,
+              category: line.categoryId,
+              notes: line.notes
+            }))
+          }
+        : {})
     };
 
     try {
@@ -286,7 +754,7 @@ class ApiBudgetSession implements ActualBudgetSession {
       }
 
       if (typeof this.api.addTransactions === 'function') {
-        const created = await this.api.addTransactions(input.accountId, [payload]);
+        const created = await this.api.addTransactions(input.accountId, [payload], { runTransfers: true });
         const first = asArray(created)[0];
         const normalized = normalizeTransaction(first, input.accountId);
         if (normalized) {
@@ -308,6 +776,132 @@ class ApiBudgetSession implements ActualBudgetSession {
     throw new UpstreamError('Actual API did not return transaction data for created transaction');
   }
 
+  private async queryTransactions(filter: UnknownRecord, failureMessage: string): Promise<unknown[]> {
+    if (typeof this.api.q !== 'function') {
+      throw new UpstreamError('Actual API does not expose a transaction query builder');
+    }
+
+    const runQuery = this.api.aqlQuery ?? this.api.runQuery;
+    if (typeof runQuery !== 'function') {
+      throw new UpstreamError('Actual API does not expose aqlQuery');
+    }
+
+    let result: unknown;
+    try {
+      // The default inline split mode hides split parents; 'all' returns parents and their lines.
+      result = await runQuery(this.api.q('transactions').filter(filter).options({ splits: 'all' }).select('*'));
+    } catch (error) {
+      throw new UpstreamError(failureMessage, error);
+    }
+
+    return result && typeof result === 'object' ? asArray((result as UnknownRecord).data) : [];
+  }
+
+  async getTransaction(id: string): Promise<ActualTransaction | null> {
+    const rows = await this.queryTransactions({ $or: [{ id }, { parent_id: id }] }, 'Failed to load transaction');
+    return withSubtransactions(normalizeTransactionList(rows, ''), id);
+  }
+
+  async findTransactionByImportedId(accountId: string, importedId: string): Promise<ActualTransaction | null> {
+    const rows = await this.queryTransactions(
+      { account: accountId, imported_id: importedId },
+      'Failed to look up imported transaction'
+    );
+    const first = normalizeTransactionList(rows, accountId).find((transaction) => !transaction.parentId);
+    if (!first) {
+      return null;
+    }
+    return first.isParent ? this.getTransaction(first.id) : first;
+  }
+
+  async updateTransaction(id: string, input: ActualTransactionUpdate): Promise<void> {
+    if (typeof this.api.updateTransaction !== 'function') {
+      throw new UpstreamError('Actual API does not expose updateTransaction');
+    }
+
+    const fields: UnknownRecord = {};
+    if (input.accountId !== undefined) {
+      fields.account = input.accountId;
+    }
+    if (input.categoryId !== undefined) {
+      fields.category = input.categoryId;
+    }
+    if (input.payeeId !== undefined) {
+      fields.payee = input.payeeId;
+    }
+    if (input.date !== undefined) {
+      fields.date = input.date;
+    }
+    if (input.amount !== undefined) {
+      fields.amount = input.amount;
+    }
+    if (input.notes !== undefined) {
+      fields.notes = input.notes;
+    }
+    if (input.cleared !== undefined) {
+      fields.cleared = input.cleared;
+    }
+
+    try {
+      await this.api.updateTransaction(id, fields);
+    } catch (error) {
+      throw new UpstreamError('Failed to update transaction', error);
+    }
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    if (typeof this.api.deleteTransaction !== 'function') {
+      throw new UpstreamError('Actual API does not expose deleteTransaction');
+    }
+
+    try {
+      await this.api.deleteTransaction(id);
+    } catch (error) {
+      throw new UpstreamError('Failed to delete transaction', error);
+    }
+  }
+
+  async getSchedules(): Promise<ActualSchedule[]> {
+    if (typeof this.api.getSchedules !== 'function') {
+      throw new UpstreamError('Actual API does not expose getSchedules');
+    }
+
+    let result: unknown;
+    try {
+      result = await this.api.getSchedules();
+    } catch (error) {
+      throw new UpstreamError('Failed to load schedules', error);
+    }
+    return asArray(result).map(normalizeSchedule).filter((item): item is ActualSchedule => item !== null);
+  }
+
+  async createSchedule(input: ActualScheduleCreate): Promise<{ id: string }> {
+    if (typeof this.api.createSchedule !== 'function') {
+      throw new UpstreamError('Actual API does not expose createSchedule');
+    }
+
+    let created: unknown;
+    try {
+      created = await this.api.createSchedule({
+        ...(input.name ? { name: input.name } : {}),
+        posts_transaction: false,
+        account: input.accountId,
+        payee: input.payeeId,
+        amount: input.amount,
+        amountOp: 'is',
+        date: input.recurrence
+      });
+    } catch (error) {
+      throw new UpstreamError('Failed to create schedule', error);
+    }
+
+    const id = toStringValue(created) ?? normalizeSchedule(created)?.id;
+    if (!id) {
+      throw new UpstreamError('Actual API did not return an id for created schedule');
+    }
+    return { id };
+  }
+
   async close(): Promise<void> {
     if (typeof this.api.closeBudget !== 'function') {
       return;
@@ -364,9 +958,10 @@ export class DefaultActualClientFactory implements ActualClientFactory {
       throw new UpstreamError('Actual API init function is not available');
     }
 
+    const init = this.api.init;
     this.initPromise = (async () => {
       try {
-        await this.api.init({
+        await init({
           dataDir: '/tmp/entryserver-actual-data',
           serverURL: this.config.actualServerUrl,
           password: this.config.actualPassword
@@ -1,14 +1,64 @@
 import type { Logger } from 'pino';
-import { ConflictError, NotFoundError } from '../errors';
+import { AppError, ConflictError, NotFoundError, StaleReferenceError, ValidationError } from '../errors';
 import {
   fromActualSignedAmount,
   toActualSignedAmount,
+  fromMinorUnits,
+  fromSignedMinorUnits,
+  toMinorUnits,
+  type BatchEntryItemBody,
   type CreateEntryBody,
+  type EntrySort,
+  type EntrySummaryGroupBy,
   type Flow,
-  type ListFlow
+  type ListFlow,
+  type SetEntriesClearedBody,
+  type SortOrder,
+  type SuggestEntryQuery,
+  type UpdateEntryBody
 } from '../schemas/entries';
-import type { ActualClientFactory, NamedEntity } from './clientFactory';
+import {
+  syncAfterWrite,
+  type ActualAccount,
+  type ActualBudgetSession,
+  type ActualCategory,
+  type ActualClientFactory,
+  type ActualPayee,
+  type ActualTransaction,
+  type NamedEntity
+} from './clientFactory';
+import { IdempotencyStore } from './idempotency';
 import type { BudgetLockManager } from './locks';
+import {
+  historyStartDate,
+  isConfidentSuggestion,
+  rankCategorySuggestions,
+  type HistorySuggestions,
+  type SuggestionOptions
+} from './categorySuggestions';
+import { matchByName, suggestNames, type NameAliases, type NameSuggestion } from './nameResolver';
+import { canonicalPayeeName, DEFAULT_PAYEE_RULES, type PayeeRules } from './payeeRules';
+import {
+  assertSingleMatch,
+  hasReference,
+  idsByName,
+  payeeIdsByName,
+  requireName,
+  resolveAccount,
+  resolveCategory,
+  resolveEntity,
+  resolveOpenAccount,
+  resolvePayee,
+  resolveTransferPayee
+} from './references';
+
+export interface EntrySplitItem {
+  id?: string;
+  amount: number;
+  category: string;
+  categoryId?: string;
+  notes?: string;
+}
 
 export interface EntryResponseItem {
   id: string;
@@ -17,18 +67,70 @@ export interface EntryResponseItem {
   flow: Flow;
   date: string;
   payee: string;
+  payeeId?: string;
   category: string;
+  categoryId?: string;
   account: string;
+  accountId?: string;
+  fromAccount?: string;
+  fromAccountId?: string;
+  toAccount?: string;
+  toAccountId?: string;
   notes?: string;
+  importedId?: string;
+  cleared?: boolean;
+  reconciled?: boolean;
+  categorySuggested?: boolean;
+  /** Set on create when `importedId` matched an existing transaction and nothing was written. */
+  duplicate?: boolean;
+  splits?: EntrySplitItem[];
+  /** Signed balance of the filtered account right after this entry, in register order. */
+  runningBalance?: number;
 }
 
-export interface ListEntriesInput {
+export interface EntryFilters {
+  account?: string[];
+  category?: string[];
+  payee?: string[];
+  minAmount?: number;
+  maxAmount?: number;
+  search?: string[];
+  cleared?: boolean;
+}
+
+export interface ListEntriesInput extends EntryFilters {
   budgetId: string;
   from: string;
   to: string;
   flow: ListFlow;
+  sort?: EntrySort;
+  order?: SortOrder;
+  cursor?: string;
   limit: number;
   offset: number;
+  /** Adds `summary` over the full filtered set; implied by `groupBy`. */
+  summary?: boolean;
+  groupBy?: EntrySummaryGroupBy;
+  /** Adds `runningBalance` to each item; requires an `account` filter naming exactly one account. */
+  includeRunningBalance?: boolean;
+}
+
+export interface EntryTotals {
+  count: number;
+  income: number;
+  expense: number;
+  net: number;
+}
+
+export interface EntrySummaryGroup extends EntryTotals {
+  /** Category, payee or account name, `YYYY-MM-DD` day or `YYYY-MM` month. */
+  key: string;
+  id?: string;
+}
+
+export interface EntryListSummary extends EntryTotals {
+  groupBy?: EntrySummaryGroupBy;
+  groups?: EntrySummaryGroup[];
 }
 
 export interface ListEntriesResult {
@@ -36,30 +138,590 @@ export interface ListEntriesResult {
   limit: number;
   offset: number;
   total: number;
+  nextCursor: string | null;
+  summary?: EntryListSummary;
+}
+
+export interface ExportEntriesInput {
+  budgetId: string;
+  from: string;
+  to: string;
+  flow: ListFlow;
+  order?: 'date' | 'account';
 }
 
 export interface CreateEntryInput extends CreateEntryBody {
   budgetId: string;
   idempotencyKey?: string;
+  /** Links the created transaction to the Actual schedule occurrence it posts. */
+  scheduleId?: string;
 }
 
-interface IdempotencyRecord {
-  fingerprint: string;
-  response: EntryResponseItem;
-  createdAt: number;
+export interface CreateEntryOptions {
+  /**
+   * Runs inside the write lock and session, after the idempotency replay check and before anything
+   * is written, so callers can make their own preconditions atomic with the write. Throw to abort.
+   */
+  beforeWrite?: (session: ActualBudgetSession) => Promise<void>;
+  /**
+   * Names that must still match an account or category, checked against the same budget state the
+   * entry is written to. Any miss fails the write with a StaleReferenceError carrying `message`.
+   */
+  staleReferenceCheck?: { names: Partial<Record<StaleReferenceField, string>>; message: string };
+}
+
+export interface CreateEntriesBatchInput {
+  budgetId: string;
+  items: BatchEntryItemBody[];
+}
+
+export interface BatchItemError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+export type BatchEntryResult =
+  | { index: number; status: 'created' | 'duplicate'; entry: EntryResponseItem }
+  | { index: number; status: 'failed'; error: BatchItemError };
+
+export interface CreateEntriesBatchResult {
+  items: BatchEntryResult[];
+  created: number;
+  duplicates: number;
+  failed: number;
+}
+
+export interface EntryRefInput {
+  budgetId: string;
+  entryId: string;
+}
+
+export interface UpdateEntryInput extends UpdateEntryBody, EntryRefInput {}
+
+export interface SetEntriesClearedInput extends SetEntriesClearedBody {
+  budgetId: string;
+}
+
+export type SetEntryClearedResult =
+  | { id: string; status: 'updated'; entry: EntryResponseItem }
+  | { id: string; status: 'failed'; error: BatchItemError };
+
+export interface SetEntriesClearedResult {
+  items: SetEntryClearedResult[];
+  updated: number;
+  failed: number;
+}
+
+export interface SuggestEntryInput extends SuggestEntryQuery {
+  budgetId: string;
+}
+
+export interface EntrySuggestion {
+  payee: string;
+  payeeId?: string;
+  categories: Array<{ category: string; categoryId: string; count: number; score: number }>;
+  account?: string;
+  accountId?: string;
+  confident: boolean;
+}
+
+export interface ResolveEntryInput extends CreateEntryInput {
+  /** Free text that becomes the category when it names one and is appended to the notes otherwise. */
+  categoryHint?: string;
+}
+
+export interface ResolvedEntryInput {
+  input: CreateEntryInput;
+  categorySuggested: boolean;
+}
+
+export type StaleReferenceField = 'account' | 'category' | 'fromAccount' | 'toAccount';
+
+export interface FindStaleReferencesInput extends Partial<Record<StaleReferenceField, string>> {
+  budgetId: string;
+}
+
+export interface StaleReference {
+  field: StaleReferenceField;
+  name: string;
+  suggestions: NameSuggestion[];
+}
+
+function toBatchItemError(error: unknown): BatchItemError {
+  if (error instanceof AppError) {
+    const includeDetails = error.statusCode >= 400 && error.statusCode < 500 && error.details !== undefined;
+    return {
+      code: error.code,
+      message: error.message,
+      ...(includeDetails ? { details: error.details } : {})
+    };
+  }
+
+  return {
+    code: 'internal_error',
+    message: 'Unexpected internal error'
+  };
 }
 
 function mapById(items: NamedEntity[]): Map<string, string> {
   return new Map(items.map((item) => [item.id, item.name]));
 }
 
-function findByName(items: NamedEntity[], name: string): NamedEntity | undefined {
-  return items.find((item) => item.name === name);
+/**
+ * Income categories take income entries and expense categories expense entries. Callers booking a
+ * deliberate crossover, such as a refund into an expense category, set `allowCategoryMismatch`.
+ */
+function assertCategoryMatchesFlow(category: ActualCategory, flow: Flow, field: string): void {
+  if (flow === 'transfer' || category.isIncome === (flow === 'income')) {
+    return;
+  }
+
+  const kind = category.isIncome ? 'income' : 'expense';
+  throw new ValidationError(
+    `Category ${category.name} is an ${kind} category and cannot take ${flow} entries; ` +
+      'set allowCategoryMismatch to override',
+    { field, categoryId: category.id }
+  );
+}
+
+function assertSplitTotal(amount: number, splits: Array<{ amount: number }>): void {
+  const splitTotal = splits.reduce((sum, split) => sum + toMinorUnits(split.amount), 0);
+  if (splitTotal !== toMinorUnits(amount)) {
+    throw new ValidationError('Split amounts must add up to amount', {
+      amount,
+      splitTotal: splitTotal / 100
+    });
+  }
+}
+
+function loadSuggestionHistory(
+  session: ActualBudgetSession,
+  reference: BudgetReferenceData,
+  asOf: string
+): Promise<EntryRow[]> {
+  reference.history ??= session
+    .listTransactions({ from: historyStartDate(asOf), to: asOf })
+    .then(groupSplitTransactions);
+  return reference.history;
+}
+
+interface BudgetReferenceData {
+  accounts: ActualAccount[];
+  categories: ActualCategory[];
+  payees: ActualPayee[];
+  /** Payee history for category suggestions, loaded on first use and shared across a batch. */
+  history?: Promise<EntryRow[]>;
+}
+
+interface EntityNameLookup {
+  accountById: Map<string, string>;
+  categoryById: Map<string, string>;
+  payeeById: Map<string, string>;
+  transferAccountIdByPayeeId: Map<string, string>;
+}
+
+function buildLookup(reference: BudgetReferenceData): EntityNameLookup {
+  const transferAccountIdByPayeeId = new Map<string, string>();
+  for (const payee of reference.payees) {
+    if (payee.transferAccountId) {
+      transferAccountIdByPayeeId.set(payee.id, payee.transferAccountId);
+    }
+  }
+
+  return {
+    accountById: mapById(reference.accounts),
+    categoryById: mapById(reference.categories),
+    payeeById: mapById(reference.payees),
+    transferAccountIdByPayeeId
+  };
+}
+
+const SPLIT_CATEGORY_LABEL = 'Split';
+
+/**
+ * Split lines are read in the parent's flow: positive in that direction, negative for a line that runs
+ * against it (a refund inside an expense), so the lines still add up to the parent amount.
+ */
+function splitLineAmount(amount: number, parentAmount: number): number {
+  return fromSignedMinorUnits(parentAmount < 0 ? -amount : amount);
+}
+
+// Actual marks new transactions as cleared unless told otherwise.
+const NEW_TRANSACTION_CLEARED = true;
+const TRANSFER_CATEGORY_LABEL = 'Transfer';
+
+function transferCounterpartAccountId(transaction: ActualTransaction, lookup: EntityNameLookup): string | undefined {
+  return transaction.payeeId ? lookup.transferAccountIdByPayeeId.get(transaction.payeeId) : undefined;
+}
+
+function entryFlow(transaction: ActualTransaction, lookup: EntityNameLookup): Flow {
+  if (transferCounterpartAccountId(transaction, lookup)) {
+    return 'transfer';
+  }
+  return fromActualSignedAmount(transaction.amount).flow;
+}
+
+function categoryName(transaction: ActualTransaction, lookup: EntityNameLookup): string {
+  return transaction.categoryId ? lookup.categoryById.get(transaction.categoryId) ?? 'Unknown' : 'Unknown';
+}
+
+function toEntryResponseItem(
+  budgetId: string,
+  transaction: ActualTransaction,
+  lookup: EntityNameLookup,
+  children: ActualTransaction[] = transaction.subtransactions ?? []
+): EntryResponseItem {
+  const amountAndFlow = fromActualSignedAmount(transaction.amount);
+  const counterpartAccountId = transferCounterpartAccountId(transaction, lookup);
+  if (counterpartAccountId) {
+    const outgoing = transaction.amount < 0;
+    const fromAccountId = outgoing ? transaction.accountId : counterpartAccountId;
+    const toAccountId = outgoing ? counterpartAccountId : transaction.accountId;
+    const fromAccount = lookup.accountById.get(fromAccountId) ?? 'Unknown';
+    const toAccount = lookup.accountById.get(toAccountId) ?? 'Unknown';
+    return {
+      id: transaction.id,
+      budgetId,
+      amount: amountAndFlow.amount,
+      flow: 'transfer',
+      date: transaction.date,
+      payee: toAccount,
+      ...(transaction.payeeId ? { payeeId: transaction.payeeId } : {}),
+      category: transaction.categoryId ? categoryName(transaction, lookup) : TRANSFER_CATEGORY_LABEL,
+      ...(transaction.categoryId ? { categoryId: transaction.categoryId } : {}),
+      account: fromAccount,
+      accountId: fromAccountId,
+      fromAccount,
+      fromAccountId,
+      toAccount,
+      toAccountId,
+      notes: transaction.notes,
+      cleared: transaction.cleared === true,
+      reconciled: transaction.reconciled === true
+    };
+  }
+
+  const isSplit = transaction.isParent === true || children.length > 0;
+  return {
+    id: transaction.id,
+    budgetId,
+    amount: amountAndFlow.amount,
+    flow: amountAndFlow.flow,
+    date: transaction.date,
+    payee: transaction.payeeId ? lookup.payeeById.get(transaction.payeeId) ?? 'Unknown' : 'Unknown',
+    ...(transaction.payeeId ? { payeeId: transaction.payeeId } : {}),
+    category: isSplit ? SPLIT_CATEGORY_LABEL : categoryName(transaction, lookup),
+    ...(!isSplit && transaction.categoryId ? { categoryId: transaction.categoryId } : {}),
+    account: lookup.accountById.get(transaction.accountId) ?? 'Unknown',
+    accountId: transaction.accountId,
+    notes: transaction.notes,
+    ...(transaction.importedId ? { importedId: transaction.importedId } : {}),
+    cleared: transaction.cleared === true,
+    reconciled: transaction.reconciled === true,
+    ...(children.length > 0
+      ? {
+          splits: children.map((child) => ({
+            id: child.id,
+            amount: splitLineAmount(child.amount, transaction.amount),
+            category: categoryName(child, lookup),
+            ...(child.categoryId ? { categoryId: child.categoryId } : {}),
+            notes: child.notes
+          }))
+        }
+      : {})
+  };
+}
+
+/**
+ * Both sides of a linked transfer are returned by Actual. Only the outgoing side is kept so a
+ * transfer is listed once; the incoming side remains when its counterpart is outside the result.
+ */
+function collapseTransfers<T extends { transaction: ActualTransaction }>(rows: T[], lookup: EntityNameLookup): T[] {
+  const presentIds = new Set(rows.map((row) => row.transaction.id));
+  return rows.filter(({ transaction }) => {
+    if (!transferCounterpartAccountId(transaction, lookup) || transaction.amount < 0) {
+      return true;
+    }
+    return !transaction.transferId || !presentIds.has(transaction.transferId);
+  });
+}
+
+interface EntryRow {
+  transaction: ActualTransaction;
+  children: ActualTransaction[];
+}
+
+/**
+ * Builds the list filter predicate; each filter matches any of its values. Unknown account and
+ * category names are rejected, while a payee name that matches nothing simply matches no entries.
+ * Transfers match an account filter on either side and are searched by their counterpart account.
+ */
+function buildEntryFilter(
+  filters: EntryFilters,
+  reference: BudgetReferenceData,
+  lookup: EntityNameLookup,
+  aliases: NameAliases
+): (row: EntryRow) => boolean {
+  const accountIds = filters.account
+    ? new Set(filters.account.flatMap((name) => idsByName(reference.accounts, name, aliases.account, 'Account')))
+    : undefined;
+  const categoryIds = filters.category
+    ? new Set(filters.category.flatMap((name) => idsByName(reference.categories, name, aliases.category, 'Category')))
+    : undefined;
+  const payeeNames = filters.payee ? new Set(filters.payee) : undefined;
+  const searchTerms = filters.search?.map((term) => term.toLowerCase());
+  const minAmount = filters.minAmount !== undefined ? toMinorUnits(filters.minAmount) : undefined;
+  const maxAmount = filters.maxAmount !== undefined ? toMinorUnits(filters.maxAmount) : undefined;
+
+  return ({ transaction, children }) => {
+    if (filters.cleared !== undefined && (transaction.cleared === true) !== filters.cleared) {
+      return false;
+    }
+
+    const amount = Math.abs(transaction.amount);
+    if ((minAmount !== undefined && amount < minAmount) || (maxAmount !== undefined && amount > maxAmount)) {
+      return false;
+    }
+
+    const counterpartAccountId = transferCounterpartAccountId(transaction, lookup);
+    if (
+      accountIds &&
+      !accountIds.has(transaction.accountId) &&
+      !(counterpartAccountId && accountIds.has(counterpartAccountId))
+    ) {
+      return false;
+    }
+
+    if (
+      categoryIds &&
+      ![transaction, ...children].some((line) => line.categoryId !== undefined && categoryIds.has(line.categoryId))
+    ) {
+      return false;
+    }
+
+    const payeeName = counterpartAccountId
+      ? lookup.accountById.get(counterpartAccountId)
+      : transaction.payeeId
+        ? lookup.payeeById.get(transaction.payeeId)
+        : undefined;
+    if (payeeNames && !(payeeName && payeeNames.has(payeeName))) {
+      return false;
+    }
+
+    if (searchTerms) {
+      const haystack = [payeeName, transaction.notes, ...children.map((child) => child.notes)]
+        .filter((value): value is string => Boolean(value))
+        .join('\n')
+        .toLowerCase();
+      if (!searchTerms.some((term) => haystack.includes(term))) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+}
+
+interface SortKey {
+  value: string | number;
+  id: string;
+}
+
+function entrySortKey(row: EntryRow, sort: EntrySort, lookup: EntityNameLookup): SortKey {
+  const { transaction } = row;
+  if (sort === 'amount') {
+    return { value: Math.abs(transaction.amount), id: transaction.id };
+  }
+  if (sort === 'payee') {
+    const counterpartAccountId = transferCounterpartAccountId(transaction, lookup);
+    const payee = counterpartAccountId
+      ? lookup.accountById.get(counterpartAccountId)
+      : transaction.payeeId
+        ? lookup.payeeById.get(transaction.payeeId)
+        : undefined;
+    return { value: (payee ?? '').toLowerCase(), id: transaction.id };
+  }
+  return { value: transaction.date, id: transaction.id };
+}
+
+/** Orders by the sort value, then by id so every key is unique and cursors never skip or repeat rows. */
+function compareSortKeys(a: SortKey, b: SortKey): number {
+  if (a.value !== b.value) {
+    return typeof a.value === 'number' && typeof b.value === 'number'
+      ? a.value - b.value
+      : String(a.value).localeCompare(String(b.value));
+  }
+  return a.id.localeCompare(b.id);
+}
+
+interface CursorPayload extends SortKey {
+  sort: EntrySort;
+  order: SortOrder;
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: EntrySort, order: SortOrder): SortKey {
+  let payload: Partial<CursorPayload> | undefined;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<CursorPayload>;
+  } catch {
+    payload = undefined;
+  }
+
+  const value = payload?.value;
+  if (!payload || typeof payload.id !== 'string' || (typeof value !== 'string' && typeof value !== 'number')) {
+    throw new ValidationError('Invalid cursor');
+  }
+  if (payload.sort !== sort || payload.order !== order) {
+    throw new ValidationError('Cursor was issued for a different sort; restart paging without cursor');
+  }
+
+  return { value, id: payload.id };
+}
+
+interface SummaryLine {
+  /** Signed minor units; zero for transfers, which only add to counts. */
+  amount: number;
+  category: string;
+  categoryId?: string;
+}
+
+function summaryGroupKey(
+  item: EntryResponseItem,
+  line: SummaryLine,
+  groupBy: EntrySummaryGroupBy
+): { key: string; id?: string } {
+  switch (groupBy) {
+    case 'category':
+      return { key: line.category, ...(line.categoryId ? { id: line.categoryId } : {}) };
+    case 'payee':
+      return { key: item.payee, ...(item.payeeId ? { id: item.payeeId } : {}) };
+    case 'account':
+      return { key: item.account, ...(item.accountId ? { id: item.accountId } : {}) };
+    case 'day':
+      return { key: item.date };
+    case 'month':
+      return { key: item.date.slice(0, 7) };
+  }
+}
+
+/**
+ * Totals a filtered entry set. Split lines count as income or expense by their own sign and, when
+ * grouping by category, toward their own category; an entry counts once in every group it touches.
+ * Transfers only add to counts. Groups are ordered by key, so days and months come out chronological.
+ */
+function summarizeEntries(
+  entries: Array<{ row: EntryRow; item: EntryResponseItem }>,
+  lookup: EntityNameLookup,
+  groupBy?: EntrySummaryGroupBy
+): EntryListSummary {
+  interface Tally {
+    key: string;
+    id?: string;
+    count: number;
+    income: number;
+    expense: number;
+  }
+  const overall: Tally = { key: '', count: 0, income: 0, expense: 0 };
+  const groups = new Map<string, Tally>();
+  const addAmount = (tally: Tally, amount: number): void => {
+    if (amount > 0) {
+      tally.income += amount;
+    } else {
+      tally.expense -= amount;
+    }
+  };
+
+  for (const { row, item } of entries) {
+    overall.count += 1;
+    const lines: SummaryLine[] =
+      item.flow !== 'transfer' && row.children.length > 0
+        ? row.children.map((child) => ({
+            amount: child.amount,
+            category: categoryName(child, lookup),
+            ...(child.categoryId ? { categoryId: child.categoryId } : {})
+          }))
+        : [
+            {
+              amount: item.flow === 'transfer' ? 0 : row.transaction.amount,
+              category: item.category,
+              ...(item.categoryId ? { categoryId: item.categoryId } : {})
+            }
+          ];
+
+    const counted = new Set<string>();
+    for (const line of lines) {
+      addAmount(overall, line.amount);
+      if (!groupBy) {
+        continue;
+      }
+
+      const { key, id } = summaryGroupKey(item, line, groupBy);
+      const groupKey = id ?? `key:${key}`;
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = { key, ...(id ? { id } : {}), count: 0, income: 0, expense: 0 };
+        groups.set(groupKey, group);
+      }
+      if (!counted.has(groupKey)) {
+        counted.add(groupKey);
+        group.count += 1;
+      }
+      addAmount(group, line.amount);
+    }
+  }
+
+  const toTotals = (tally: Tally): EntryTotals => ({
+    count: tally.count,
+    income: fromMinorUnits(tally.income),
+    expense: fromMinorUnits(tally.expense),
+    net: fromSignedMinorUnits(tally.income - tally.expense)
+  });
+
+  return {
+    ...toTotals(overall),
+    ...(groupBy
+      ? {
+          groupBy,
+          groups: [...groups.values()]
+            .sort((a, b) => a.key.localeCompare(b.key))
+            .map((group) => ({ key: group.key, ...(group.id ? { id: group.id } : {}), ...toTotals(group) }))
+        }
+      : {})
+  };
+}
+
+/**
+ * Nests split lines under their parent transaction. Children whose parent is not part of
+ * the result set are kept as standalone rows so they are never silently dropped.
+ */
+function groupSplitTransactions(transactions: ActualTransaction[]): EntryRow[] {
+  const presentIds = new Set(transactions.map((transaction) => transaction.id));
+  const childrenByParentId = new Map<string, ActualTransaction[]>();
+
+  for (const transaction of transactions) {
+    if (transaction.parentId && presentIds.has(transaction.parentId)) {
+      const siblings = childrenByParentId.get(transaction.parentId) ?? [];
+      siblings.push(transaction);
+      childrenByParentId.set(transaction.parentId, siblings);
+    }
+  }
+
+  return transactions
+    .filter((transaction) => !transaction.parentId || !presentIds.has(transaction.parentId))
+    .map((transaction) => ({
+      transaction,
+      children: childrenByParentId.get(transaction.id) ?? []
+    }));
 }
 
 export class EntryService {
-  private readonly idempotencyRecords = new Map<string, Map<string, IdempotencyRecord>>();
-  private idempotencyRecordCount = 0;
+  private readonly idempotency: IdempotencyStore<EntryResponseItem>;
+  private readonly writeListeners: Array<(budgetId: string) => void> = [];
 
   constructor(
     private readonly actualClientFactory: ActualClientFactory,
@@ -69,9 +731,22 @@ export class EntryService {
     private readonly lockManager: BudgetLockManager,
     private readonly lockTimeoutMs: number,
     private readonly logger: Logger,
-    private readonly idempotencyTtlMs: number = 24 * 60 * 60 * 1000,
-    private readonly idempotencyMaxRecords: number = 10_000
-  ) {}
+    idempotencyTtlMs: number = 24 * 60 * 60 * 1000,
+    idempotencyMaxRecords: number = 10_000,
+    private readonly nameAliases: NameAliases = { account: new Map(), category: new Map() },
+    private readonly payeeRules: ReadonlyMap<string, PayeeRules> = new Map()
+  ) {
+    this.idempotency = new IdempotencyStore(idempotencyTtlMs, idempotencyMaxRecords);
+  }
+
+  /** Registers a callback run after every write that reached Actual, e.g. to drop cached reports. */
+  onWrite(listener: (budgetId: string) => void): void {
+    this.writeListeners.push(listener);
+  }
+
+  private payeeRulesFor(budgetId: string): PayeeRules {
+    return this.payeeRules.get(budgetId) ?? DEFAULT_PAYEE_RULES;
+  }
 
   private fingerprintCreateInput(input: CreateEntryInput): string {
     return JSON.stringify({
@@ -79,270 +754,993 @@ export class EntryService {
       flow: input.flow,
       date: input.date,
       payee: input.payee,
+      payeeId: input.payeeId,
+      createPayee: input.createPayee,
       category: input.category,
+      categoryId: input.categoryId,
       account: input.account,
-      notes: input.notes ?? ''
+      accountId: input.accountId,
+      fromAccount: input.fromAccount,
+      fromAccountId: input.fromAccountId,
+      toAccount: input.toAccount,
+      toAccountId: input.toAccountId,
+      notes: input.notes ?? '',
+      splits: input.splits ?? [],
+      importedId: input.importedId,
+      scheduleId: input.scheduleId,
+      cleared: input.cleared,
+      allowCategoryMismatch: input.allowCategoryMismatch
     });
   }
 
-  private deleteRecord(budgetId: string, key: string): void {
-    const budgetRecords = this.idempotencyRecords.get(budgetId);
-    if (!budgetRecords) {
-      return;
+  private async syncAfterWrite(
+    session: ActualBudgetSession,
+    context: { budgetId: string } & Record<string, unknown>,
+    message: string
+  ): Promise<void> {
+    for (const listener of this.writeListeners) {
+      listener(context.budgetId);
     }
 
-    if (budgetRecords.delete(key)) {
-      this.idempotencyRecordCount = Math.max(0, this.idempotencyRecordCount - 1);
-    }
+    await syncAfterWrite(session, this.logger, context, message);
+  }
 
-    if (budgetRecords.size === 0) {
-      this.idempotencyRecords.delete(budgetId);
+  private async loadTransactionOrThrow(session: ActualBudgetSession, entryId: string): Promise<ActualTransaction> {
+    const transaction = await session.getTransaction(entryId);
+    if (!transaction) {
+      throw new NotFoundError(`Entry not found: ${entryId}`);
     }
+    return transaction;
   }
 
-  private pruneExpiredIdempotencyRecords(now: number): void {
-    for (const [budgetId, budgetRecords] of this.idempotencyRecords.entries()) {
-      for (const [key, record] of budgetRecords.entries()) {
-        if (now - record.createdAt > this.idempotencyTtlMs) {
-          this.deleteRecord(budgetId, key);
+  /** Loads the entries of a date range as grouped, transfer-collapsed rows, filtered and sorted by date and id. */
+  private async loadEntryRows(
+    session: ActualBudgetSession,
+    input: { from: string; to: string; flow: ListFlow } & EntryFilters
+  ): Promise<{
+    rows: EntryRow[];
+    lookup: EntityNameLookup;
+    reference: BudgetReferenceData;
+    transactions: ActualTransaction[];
+  }> {
+    const [accounts, categories, payees, transactions] = await Promise.all([
+      session.getAccounts(),
+      session.getCategories(),
+      session.getPayees(),
+      session.listTransactions({ from: input.from, to: input.to })
+    ]);
+
+    const reference: BudgetReferenceData = { accounts, categories, payees };
+    const lookup = buildLookup(reference);
+    const matchesFilters = buildEntryFilter(input, reference, lookup, this.nameAliases);
+
+    const rows = collapseTransfers(groupSplitTransactions(transactions), lookup)
+      .filter((row) => {
+        const { transaction } = row;
+        if (transaction.date < input.from || transaction.date > input.to) {
+          return false;
         }
-      }
+
+        if (input.flow !== 'all' && entryFlow(transaction, lookup) !== input.flow) {
+          return false;
+        }
+
+        return matchesFilters(row);
+      })
+      .sort(({ transaction: a }, { transaction: b }) => {
+        if (a.date === b.date) {
+          return a.id.localeCompare(b.id);
+        }
+        return a.date.localeCompare(b.date);
+      });
+
+    return { rows, lookup, reference, transactions };
+  }
+
+  /**
+   * Balance of the filtered account after each of its transactions in the range, keyed by transaction
+   * id. Starts from the balance on the day before `from` and walks every transaction of the account in
+   * date then id order, whatever other filters the list applies, so each balance matches the register.
+   */
+  private async loadRunningBalances(
+    session: ActualBudgetSession,
+    input: ListEntriesInput,
+    reference: BudgetReferenceData,
+    transactions: ActualTransaction[]
+  ): Promise<{ accountId: string; balances: Map<string, number> }> {
+    const [accountName, ...others] = input.account ?? [];
+    if (accountName === undefined || others.length > 0) {
+      throw new ValidationError('includeRunningBalance requires exactly one account filter', {
+        field: 'includeRunningBalance'
+      });
+    }
+    const [accountId, ...duplicates] = idsByName(reference.accounts, accountName, this.nameAliases.account, 'Account');
+    if (accountId === undefined || duplicates.length > 0) {
+      throw new ValidationError(`Account filter matches more than one account: ${accountName}`, {
+        field: 'account',
+        matches: [accountId, ...duplicates]
+      });
     }
+
+    const dayBefore = new Date(Date.parse(`${input.from}T00:00:00.000Z`) - 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+    let balance = await session.getAccountBalance(accountId, dayBefore);
+
+    const presentIds = new Set(transactions.map((transaction) => transaction.id));
+    const register = transactions
+      .filter(
+        (transaction) =>
+          transaction.accountId === accountId &&
+          transaction.date >= input.from &&
+          transaction.date <= input.to &&
+          !(transaction.parentId && presentIds.has(transaction.parentId))
+      )
+      .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+
+    const balances = new Map<string, number>();
+    for (const transaction of register) {
+      balance += transaction.amount;
+      balances.set(transaction.id, balance);
+    }
+    return { accountId, balances };
   }
 
-  private evictOldestIdempotencyRecord(): boolean {
-    let oldestBudgetId: string | null = null;
-    let oldestKey: string | null = null;
-    let oldestCreatedAt = Number.POSITIVE_INFINITY;
+  async listEntries(input: ListEntriesInput): Promise<ListEntriesResult> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
 
-    for (const [budgetId, budgetRecords] of this.idempotencyRecords.entries()) {
-      for (const [key, record] of budgetRecords.entries()) {
-        if (record.createdAt < oldestCreatedAt) {
-          oldestCreatedAt = record.createdAt;
-          oldestBudgetId = budgetId;
-          oldestKey = key;
-        }
+    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+
+      const { rows, lookup, reference, transactions } = await this.loadEntryRows(session, input);
+      const running = input.includeRunningBalance
+        ? await this.loadRunningBalances(session, input, reference, transactions)
+        : undefined;
+
+      const sort = input.sort ?? 'date';
+      const order = input.order ?? 'asc';
+      const direction = order === 'desc' ? -1 : 1;
+      const sorted = rows
+        .map((row) => ({ row, key: entrySortKey(row, sort, lookup) }))
+        .sort((a, b) => direction * compareSortKeys(a.key, b.key));
+
+      let start = input.offset;
+      if (input.cursor) {
+        const after = decodeCursor(input.cursor, sort, order);
+        const index = sorted.findIndex(({ key }) => direction * compareSortKeys(key, after) > 0);
+        start = index < 0 ? sorted.length : index;
       }
+
+      const paginated = sorted.slice(start, start + input.limit);
+      const last = paginated[paginated.length - 1];
+      const nextCursor =
+        last && start + paginated.length < sorted.length
+          ? encodeCursor({ ...last.key, sort, order })
+          : null;
+
+      const items = paginated.map(({ row }) => {
+        const item = toEntryResponseItem(input.budgetId, row.transaction, lookup, row.children);
+        if (!running) {
+          return item;
+        }
+        // Incoming transfers are listed from their outgoing side, so look up the filtered account's half.
+        const { transaction } = row;
+        const ownId = transaction.accountId === running.accountId ? transaction.id : transaction.transferId;
+        const balance = ownId ? running.balances.get(ownId) : undefined;
+        return balance !== undefined ? { ...item, runningBalance: fromSignedMinorUnits(balance) } : item;
+      });
+      const summary =
+        input.summary || input.groupBy
+          ? summarizeEntries(
+              rows.map((row) => ({
+                row,
+                item: toEntryResponseItem(input.budgetId, row.transaction, lookup, row.children)
+              })),
+              lookup,
+              input.groupBy
+            )
+          : undefined;
+
+      return {
+        items,
+        limit: input.limit,
+        offset: input.offset,
+        total: rows.length,
+        nextCursor,
+        ...(summary ? { summary } : {})
+      };
+    });
+  }
+
+  /**
+   * Loads every entry of the range and returns them lazily. The budget session is released before the
+   * caller starts consuming, so a slow download never holds it; response items are only built while
+   * iterating, which keeps a long export from materializing every serialized entry at once.
+   */
+  async exportEntries(input: ExportEntriesInput): Promise<Iterable<EntryResponseItem>> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    const { rows, lookup } = await this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+      return this.loadEntryRows(session, input);
+    });
+
+    if (input.order === 'account') {
+      // Stable sort keeps the date/id order within each account.
+      rows.sort(({ transaction: a }, { transaction: b }) => a.accountId.localeCompare(b.accountId));
     }
 
-    if (!oldestBudgetId || !oldestKey) {
-      return false;
+    const budgetId = input.budgetId;
+    return (function* entries(): Generator<EntryResponseItem> {
+      for (const { transaction, children } of rows) {
+        yield toEntryResponseItem(budgetId, transaction, lookup, children);
+      }
+    })();
+  }
+
+  /**
+   * Returns the entry already imported under `importedId` into the target account, so
+   * re-importing a statement reports the existing row instead of writing a duplicate.
+   */
+  private async findImportedEntry(
+    session: ActualBudgetSession,
+    input: CreateEntryInput,
+    reference: BudgetReferenceData
+  ): Promise<EntryResponseItem | null> {
+    if (!input.importedId || input.flow === 'transfer') {
+      return null;
     }
 
-    this.deleteRecord(oldestBudgetId, oldestKey);
-    return true;
+    const account = resolveAccount(reference.accounts, { name: input.account, id: input.accountId }, this.nameAliases);
+    const existing = await session.findTransactionByImportedId(account.id, input.importedId);
+    return existing ? toEntryResponseItem(input.budgetId, existing, buildLookup(reference)) : null;
   }
 
-  private getStoredIdempotentResponse(
-    budgetId: string,
-    idempotencyKey: string,
-    fingerprint: string,
-    now: number
-  ): EntryResponseItem | null {
-    this.pruneExpiredIdempotencyRecords(now);
+  private async rankSuggestions(
+    session: ActualBudgetSession,
+    reference: BudgetReferenceData,
+    payeeIds: ReadonlySet<string>,
+    options: Omit<SuggestionOptions, 'asOf'>
+  ): Promise<HistorySuggestions> {
+    if (payeeIds.size === 0) {
+      return { categories: [] };
+    }
 
-    const budgetRecords = this.idempotencyRecords.get(budgetId);
-    const existing = budgetRecords?.get(idempotencyKey);
-    if (!existing) {
-      return null;
+    const asOf = new Date().toISOString().slice(0, 10);
+    const history = await loadSuggestionHistory(session, reference, asOf);
+    return rankCategorySuggestions(history, payeeIds, { ...options, asOf });
+  }
+
+  /** Picks the category for an entry sent without one, provided the payee's history makes it a confident call. */
+  private async suggestCategory(
+    session: ActualBudgetSession,
+    input: CreateEntryInput,
+    reference: BudgetReferenceData
+  ): Promise<ActualCategory> {
+    const payeeIds =
+      input.payeeId !== undefined
+        ? new Set([input.payeeId])
+        : payeeIdsByName(reference.payees, requireName(input.payee, 'payee'), this.payeeRulesFor(input.budgetId));
+    const { categories } = await this.rankSuggestions(session, reference, payeeIds, {
+      amount: toMinorUnits(input.amount),
+      flow: input.flow === 'income' ? 'income' : 'expense'
+    });
+    const top = categories[0];
+    const category = top && reference.categories.find((item) => item.id === top.categoryId);
+    if (!category || !isConfidentSuggestion(top)) {
+      const categoryById = mapById(reference.categories);
+      throw new ValidationError('category or categoryId is required; no confident suggestion for this payee', {
+        suggestions: categories.flatMap((suggestion) => {
+          const name = categoryById.get(suggestion.categoryId);
+          return name ? [{ id: suggestion.categoryId, name, score: suggestion.score }] : [];
+        })
+      });
     }
+    return category;
+  }
 
-    if (existing.fingerprint !== fingerprint) {
-      throw new ConflictError('Idempotency-Key was already used with a different request payload');
+  private async writeEntry(
+    session: ActualBudgetSession,
+    input: CreateEntryInput,
+    reference: BudgetReferenceData
+  ): Promise<EntryResponseItem> {
+    if (input.flow === 'transfer') {
+      return this.writeTransfer(session, input, reference);
     }
 
-    return existing.response;
-  }
-
-  private storeIdempotentResponse(
-    budgetId: string,
-    idempotencyKey: string,
-    fingerprint: string,
-    response: EntryResponseItem,
-    now: number
-  ): void {
-    const budgetRecords = this.idempotencyRecords.get(budgetId) ?? new Map<string, IdempotencyRecord>();
-    const isNewRecord = !budgetRecords.has(idempotencyKey);
-
-    if (isNewRecord) {
-      this.pruneExpiredIdempotencyRecords(now);
-      while (this.idempotencyRecordCount >= this.idempotencyMaxRecords) {
-        const evicted = this.evictOldestIdempotencyRecord();
-        if (!evicted) {
-          break;
-        }
+    const account = resolveOpenAccount(
+      reference.accounts,
+      { name: input.account, id: input.accountId },
+      this.nameAliases
+    );
+    const categoryRef = { name: input.category, id: input.categoryId };
+    const categorySuggested = !input.splits && !hasReference(categoryRef);
+    const category = input.splits
+      ? undefined
+      : categorySuggested
+        ? await this.suggestCategory(session, input, reference)
+        : resolveCategory(reference.categories, categoryRef, this.nameAliases);
+    const splitLines = (input.splits ?? []).map((split) => ({
+      ...split,
+      category: resolveCategory(
+        reference.categories,
+        { name: split.category, id: split.categoryId },
+        this.nameAliases
+      )
+    }));
+    if (!input.allowCategoryMismatch) {
+      if (category && !categorySuggested) {
+        assertCategoryMatchesFlow(category, input.flow, 'category');
       }
+      splitLines.forEach((line, index) => assertCategoryMatchesFlow(line.category, input.flow, `splits.${index}`));
     }
+    const payee = await resolvePayee(
+      session,
+      reference.payees,
+      { name: input.payee, id: input.payeeId },
+      this.payeeRulesFor(input.budgetId),
+      input.createPayee
+    );
+    if (!reference.payees.includes(payee)) {
+      reference.payees.push(payee);
+    }
+
+    const actualAmount = toActualSignedAmount(input.amount, input.flow);
 
-    budgetRecords.set(idempotencyKey, {
-      fingerprint,
-      response,
-      createdAt: now
+    this.logger.debug(
+      {
+        budgetId: input.budgetId,
+        accountId: account.id,
+        categoryId: category?.id,
+        splitCount: splitLines.length,
+        payeeId: payee.id,
+        amount: actualAmount
+      },
+      'Creating entry in Actual'
+    );
+
+    const created = await session.createTransaction({
+      accountId: account.id,
+      categoryId: category?.id,
+      payeeId: payee.id,
+      date: input.date,
+      amount: actualAmount,
+      notes: input.notes,
+      importedId: input.importedId,
+      scheduleId: input.scheduleId,
+      cleared: input.cleared,
+      ...(splitLines.length > 0
+        ? {
+            subtransactions: splitLines.map((line) => ({
+              amount: toActualSignedAmount(line.amount, input.flow),
+              categoryId: line.category.id,
+              notes: line.notes
+            }))
+          }
+        : {})
     });
-    this.idempotencyRecords.set(budgetId, budgetRecords);
-    if (isNewRecord) {
-      this.idempotencyRecordCount += 1;
+
+    return {
+      id: created.id,
+      budgetId: input.budgetId,
+      amount: input.amount,
+      flow: input.flow,
+      date: input.date,
+      payee: payee.name,
+      payeeId: payee.id,
+      category: category ? category.name : SPLIT_CATEGORY_LABEL,
+      ...(category ? { categoryId: category.id } : {}),
+      account: account.name,
+      accountId: account.id,
+      notes: input.notes,
+      ...(input.importedId ? { importedId: input.importedId } : {}),
+      cleared: input.cleared ?? NEW_TRANSACTION_CLEARED,
+      reconciled: false,
+      ...(categorySuggested ? { categorySuggested: true } : {}),
+      ...(splitLines.length > 0
+        ? {
+            splits: splitLines.map((line) => ({
+              amount: line.amount,
+              category: line.category.name,
+              categoryId: line.category.id,
+              notes: line.notes
+            }))
+          }
+        : {})
+    };
+  }
+
+  private async writeTransfer(
+    session: ActualBudgetSession,
+    input: CreateEntryInput,
+    reference: BudgetReferenceData
+  ): Promise<EntryResponseItem> {
+    const fromAccount = resolveOpenAccount(
+      reference.accounts,
+      { name: input.fromAccount, id: input.fromAccountId },
+      this.nameAliases,
+      'fromAccount'
+    );
+    const toAccount = resolveOpenAccount(
+      reference.accounts,
+      { name: input.toAccount, id: input.toAccountId },
+      this.nameAliases,
+      'toAccount'
+    );
+    if (fromAccount.id === toAccount.id) {
+      throw new ValidationError('toAccount must differ from fromAccount');
     }
+
+    const categoryRef = { name: input.category, id: input.categoryId };
+    const category = hasReference(categoryRef)
+      ? resolveCategory(reference.categories, categoryRef, this.nameAliases)
+      : undefined;
+    const transferPayee = resolveTransferPayee(reference.payees, toAccount);
+    const actualAmount = toActualSignedAmount(input.amount, input.flow);
+
+    this.logger.debug(
+      {
+        budgetId: input.budgetId,
+        fromAccountId: fromAccount.id,
+        toAccountId: toAccount.id,
+        categoryId: category?.id,
+        payeeId: transferPayee.id,
+        amount: actualAmount
+      },
+      'Creating transfer in Actual'
+    );
+
+    const created = await session.createTransaction({
+      accountId: fromAccount.id,
+      categoryId: category?.id,
+      payeeId: transferPayee.id,
+      date: input.date,
+      amount: actualAmount,
+      notes: input.notes,
+      scheduleId: input.scheduleId,
+      cleared: input.cleared
+    });
+
+    return {
+      id: created.id,
+      budgetId: input.budgetId,
+      amount: input.amount,
+      flow: 'transfer',
+      date: input.date,
+      payee: toAccount.name,
+      payeeId: transferPayee.id,
+      category: category ? category.name : TRANSFER_CATEGORY_LABEL,
+      ...(category ? { categoryId: category.id } : {}),
+      account: fromAccount.name,
+      accountId: fromAccount.id,
+      fromAccount: fromAccount.name,
+      fromAccountId: fromAccount.id,
+      toAccount: toAccount.name,
+      toAccountId: toAccount.id,
+      notes: input.notes,
+      cleared: input.cleared ?? NEW_TRANSACTION_CLEARED,
+      reconciled: false
+    };
   }
 
-  async listEntries(input: ListEntriesInput): Promise<ListEntriesResult> {
+  async createEntry(input: CreateEntryInput, options: CreateEntryOptions = {}): Promise<EntryResponseItem> {
     await this.budgetService.assertBudgetAccessible(input.budgetId);
+    if (input.splits) {
+      assertSplitTotal(input.amount, input.splits);
+    }
 
-    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
-      await session.sync();
+    return this.lockManager.withBudgetLock(input.budgetId, this.lockTimeoutMs, async () => {
+      const now = Date.now();
+      const fingerprint = input.idempotencyKey ? this.fingerprintCreateInput(input) : undefined;
+      if (input.idempotencyKey && fingerprint) {
+        const existing = this.idempotency.get(input.budgetId, input.idempotencyKey, fingerprint, now);
+        if (existing) {
+          return existing;
+        }
+      }
 
-      const [accounts, categories, payees, transactions] = await Promise.all([
-        session.getAccounts(),
-        session.getCategories(),
-        session.getPayees(),
-        session.listTransactions({ from: input.from, to: input.to })
-      ]);
+      return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+        await session.sync();
+        await options.beforeWrite?.(session);
 
-      const accountById = mapById(accounts);
-      const categoryById = mapById(categories);
-      const payeeById = mapById(payees);
+        const [accounts, categories, payees] = await Promise.all([
+          session.getAccounts(),
+          session.getCategories(),
+          session.getPayees()
+        ]);
 
-      const filtered = transactions
-        .filter((transaction) => {
-          if (transaction.date < input.from || transaction.date > input.to) {
-            return false;
+        const reference: BudgetReferenceData = { accounts, categories, payees };
+        if (options.staleReferenceCheck) {
+          const stale = this.staleReferencesIn(reference, options.staleReferenceCheck.names);
+          if (stale.length > 0) {
+            throw new StaleReferenceError(options.staleReferenceCheck.message, { stale });
           }
+        }
 
-          if (input.flow === 'all') {
-            return true;
-          }
+        const imported = await this.findImportedEntry(session, input, reference);
+        if (imported) {
+          return { ...imported, duplicate: true };
+        }
 
-          if (input.flow === 'expense') {
-            return transaction.amount < 0;
-          }
+        const response = await this.writeEntry(session, input, reference);
 
-          return transaction.amount >= 0;
-        })
-        .sort((a, b) => {
-          if (a.date === b.date) {
-            return a.id.localeCompare(b.id);
+        await this.syncAfterWrite(
+          session,
+          {
+            budgetId: input.budgetId,
+            transactionId: response.id,
+            idempotencyKey: input.idempotencyKey
+          },
+          'Post-write sync failed; returning created transaction id'
+        );
+
+        if (input.idempotencyKey && fingerprint) {
+          this.idempotency.put(input.budgetId, input.idempotencyKey, fingerprint, response, now);
+        }
+
+        return response;
+      });
+    });
+  }
+
+  async createEntriesBatch(input: CreateEntriesBatchInput): Promise<CreateEntriesBatchResult> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.lockManager.withBudgetLock(input.budgetId, this.lockTimeoutMs, async () => {
+      const now = Date.now();
+
+      return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+        await session.sync();
+
+        const [accounts, categories, payees] = await Promise.all([
+          session.getAccounts(),
+          session.getCategories(),
+          session.getPayees()
+        ]);
+        // Shared across items so a payee created for one item is reused by the next.
+        const reference: BudgetReferenceData = { accounts, categories, payees };
+
+        const results: BatchEntryResult[] = [];
+        let written = 0;
+        for (const [index, item] of input.items.entries()) {
+          const entryInput: CreateEntryInput = { ...item, budgetId: input.budgetId };
+          try {
+            if (entryInput.splits) {
+              assertSplitTotal(entryInput.amount, entryInput.splits);
+            }
+
+            const fingerprint = entryInput.idempotencyKey ? this.fingerprintCreateInput(entryInput) : undefined;
+            const existing =
+              entryInput.idempotencyKey && fingerprint
+                ? this.idempotency.get(input.budgetId, entryInput.idempotencyKey, fingerprint, now)
+                : null;
+            if (existing) {
+              // A replay wrote nothing now, so it is reported like an already imported row.
+              results.push({ index, status: 'duplicate', entry: existing });
+              continue;
+            }
+
+            const imported = await this.findImportedEntry(session, entryInput, reference);
+            if (imported) {
+              results.push({ index, status: 'duplicate', entry: imported });
+              continue;
+            }
+
+            const entry = await this.writeEntry(session, entryInput, reference);
+            written += 1;
+            if (entryInput.idempotencyKey && fingerprint) {
+              this.idempotency.put(input.budgetId, entryInput.idempotencyKey, fingerprint, entry, now);
+            }
+            results.push({ index, status: 'created', entry });
+          } catch (error) {
+            const itemError = toBatchItemError(error);
+            this.logger.warn(
+              {
+                budgetId: input.budgetId,
+                index,
+                idempotencyKey: entryInput.idempotencyKey,
+                errorCode: itemError.code,
+                errorMessage: itemError.message
+              },
+              'Batch entry failed'
+            );
+            results.push({ index, status: 'failed', error: itemError });
           }
-          return a.date.localeCompare(b.date);
-        });
+        }
 
-      const total = filtered.length;
-      const paginated = filtered.slice(input.offset, input.offset + input.limit);
+        if (written > 0) {
+          await this.syncAfterWrite(
+            session,
+            {
+              budgetId: input.budgetId,
+              written
+            },
+            'Post-write sync failed; returning batch results'
+          );
+        }
 
-      const items: EntryResponseItem[] = paginated.map((transaction) => {
-        const amountAndFlow = fromActualSignedAmount(transaction.amount);
+        const created = results.filter((result) => result.status === 'created').length;
+        const duplicates = results.filter((result) => result.status === 'duplicate').length;
         return {
-          id: transaction.id,
-          budgetId: input.budgetId,
-          amount: amountAndFlow.amount,
-          flow: amountAndFlow.flow,
-          date: transaction.date,
-          payee: transaction.payeeId ? payeeById.get(transaction.payeeId) ?? 'Unknown' : 'Unknown',
-          category: transaction.categoryId ? categoryById.get(transaction.categoryId) ?? 'Unknown' : 'Unknown',
-          account: accountById.get(transaction.accountId) ?? 'Unknown',
-          notes: transaction.notes
+          items: results,
+          created,
+          duplicates,
+          failed: results.length - created - duplicates
         };
       });
+    });
+  }
+
+  async suggestEntry(input: SuggestEntryInput): Promise<EntrySuggestion> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+
+      const [accounts, categories, payees] = await Promise.all([
+        session.getAccounts(),
+        session.getCategories(),
+        session.getPayees()
+      ]);
+      const reference: BudgetReferenceData = { accounts, categories, payees };
+      const lookup = buildLookup(reference);
+      const payeeIds = payeeIdsByName(payees, input.payee, this.payeeRulesFor(input.budgetId));
+      const ranked = await this.rankSuggestions(session, reference, payeeIds, {
+        amount: input.amount !== undefined ? toMinorUnits(input.amount) : undefined,
+        flow: input.flow
+      });
+      const suggestions = ranked.categories.flatMap((suggestion) => {
+        const category = lookup.categoryById.get(suggestion.categoryId);
+        return category ? [{ category, ...suggestion }] : [];
+      });
+      // A closed usual account is left out; the client has to pick an open one.
+      const usualAccount = accounts.find((item) => item.id === ranked.accountId && !item.closed);
+      const account = usualAccount ? lookup.accountById.get(usualAccount.id) : undefined;
+      const payeeId = payeeIds.size === 1 ? [...payeeIds][0] : undefined;
 
       return {
-        items,
-        limit: input.limit,
-        offset: input.offset,
-        total
+        payee: (payeeId && lookup.payeeById.get(payeeId)) || input.payee,
+        ...(payeeId ? { payeeId } : {}),
+        categories: suggestions,
+        ...(account && ranked.accountId ? { account, accountId: ranked.accountId } : {}),
+        confident: isConfidentSuggestion(suggestions[0])
       };
     });
   }
 
-  async createEntry(input: CreateEntryInput): Promise<EntryResponseItem> {
+  /**
+   * Resolves a loosely specified entry to canonical names without writing anything: names go through
+   * the forgiving resolver and payee rules, and a missing account or category is taken from the
+   * payee's history. Payees that do not exist yet are kept by name and created on write.
+   */
+  async resolveEntryInput(input: ResolveEntryInput): Promise<ResolvedEntryInput> {
     await this.budgetService.assertBudgetAccessible(input.budgetId);
 
-    return this.lockManager.withBudgetLock(input.budgetId, this.lockTimeoutMs, async () => {
-      const now = Date.now();
-      const fingerprint = input.idempotencyKey ? this.fingerprintCreateInput(input) : undefined;
-      if (input.idempotencyKey && fingerprint) {
-        const existing = this.getStoredIdempotentResponse(input.budgetId, input.idempotencyKey, fingerprint, now);
-        if (existing) {
-          return existing;
+    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+
+      const [accounts, categories, payees] = await Promise.all([
+        session.getAccounts(),
+        session.getCategories(),
+        session.getPayees()
+      ]);
+      const reference: BudgetReferenceData = { accounts, categories, payees };
+      const { categoryHint, payeeId, accountId, categoryId, fromAccountId, toAccountId, ...entry } = input;
+
+      if (entry.flow === 'transfer') {
+        const fromAccount = resolveOpenAccount(
+          accounts,
+          { name: entry.fromAccount, id: fromAccountId },
+          this.nameAliases,
+          'fromAccount'
+        );
+        const toAccount = resolveOpenAccount(
+          accounts,
+          { name: entry.toAccount, id: toAccountId },
+          this.nameAliases,
+          'toAccount'
+        );
+        return {
+          input: { ...entry, fromAccount: fromAccount.name, toAccount: toAccount.name },
+          categorySuggested: false
+        };
+      }
+
+      const payeeName =
+        payeeId !== undefined
+          ? resolveEntity(payees, { id: payeeId }, 'Payee', 'payee').name
+          : canonicalPayeeName(this.payeeRulesFor(input.budgetId), requireName(entry.payee, 'payee'));
+      const payee = assertSingleMatch(matchByName(payees, payeeName, new Map()), payeeName, 'payee');
+      const accountRef = { name: entry.account, id: accountId };
+      const categoryRef = { name: entry.category, id: categoryId };
+      let account = hasReference(accountRef)
+        ? resolveOpenAccount(accounts, accountRef, this.nameAliases)
+        : undefined;
+      let category = hasReference(categoryRef)
+        ? resolveCategory(categories, categoryRef, this.nameAliases)
+        : undefined;
+      let notes = entry.notes;
+      if (!category && !entry.splits && categoryHint) {
+        const matches = matchByName(categories, categoryHint, this.nameAliases.category);
+        if (matches.length === 1) {
+          category = matches[0];
+        } else {
+          notes = [notes, categoryHint].filter((part) => part).join(' ');
+        }
+      }
+
+      let categorySuggested = false;
+      if (!account || (!category && !entry.splits)) {
+        const ranked = await this.rankSuggestions(session, reference, new Set(payee ? [payee.id] : []), {
+          amount: toMinorUnits(entry.amount),
+          flow: entry.flow
+        });
+        account ??= accounts.find((item) => item.id === ranked.accountId && !item.closed);
+        const top = ranked.categories[0];
+        if (!category && !entry.splits && isConfidentSuggestion(top)) {
+          category = categories.find((item) => item.id === top?.categoryId);
+          categorySuggested = category !== undefined;
         }
       }
+      if (!account) {
+        throw new ValidationError('account or accountId is required; no usual account for this payee');
+      }
+
+      return {
+        input: {
+          ...entry,
+          payee: payee?.name ?? payeeName,
+          account: account.name,
+          ...(category ? { category: category.name } : {}),
+          notes
+        },
+        categorySuggested
+      };
+    });
+  }
+
+  /**
+   * Reports stored account and category names (e.g. from a template) that no longer match anything
+   * in the budget, with "did you mean" suggestions. Names matching several entities are not stale;
+   * writing with them still fails as ambiguous.
+   */
+  async findStaleReferences(input: FindStaleReferencesInput): Promise<StaleReference[]> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+
+      const [accounts, categories] = await Promise.all([session.getAccounts(), session.getCategories()]);
+      return this.staleReferencesIn({ accounts, categories }, input);
+    });
+  }
+
+  private staleReferencesIn(
+    reference: Pick<BudgetReferenceData, 'accounts' | 'categories'>,
+    names: Partial<Record<StaleReferenceField, string>>
+  ): StaleReference[] {
+    const fields: StaleReferenceField[] = ['account', 'category', 'fromAccount', 'toAccount'];
+
+    return fields.flatMap((field) => {
+      const name = names[field];
+      if (name === undefined) {
+        return [];
+      }
+      const [items, aliases]: [NamedEntity[], ReadonlyMap<string, string>] =
+        field === 'category'
+          ? [reference.categories, this.nameAliases.category]
+          : [reference.accounts, this.nameAliases.account];
+      if (matchByName(items, name, aliases).length > 0) {
+        return [];
+      }
+      return [{ field, name, suggestions: suggestNames(items, name) }];
+    });
+  }
+
+  async getEntry(input: EntryRefInput): Promise<EntryResponseItem> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+
+      const [accounts, categories, payees, transaction] = await Promise.all([
+        session.getAccounts(),
+        session.getCategories(),
+        session.getPayees(),
+        this.loadTransactionOrThrow(session, input.entryId)
+      ]);
+
+      return toEntryResponseItem(input.budgetId, transaction, buildLookup({ accounts, categories, payees }));
+    });
+  }
+
+  async updateEntry(input: UpdateEntryInput): Promise<EntryResponseItem> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
 
+    return this.lockManager.withBudgetLock(input.budgetId, this.lockTimeoutMs, async () => {
       return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
         await session.sync();
 
-        const [accounts, categories, payees] = await Promise.all([
+        const [accounts, categories, payees, existing] = await Promise.all([
           session.getAccounts(),
           session.getCategories(),
-          session.getPayees()
+          session.getPayees(),
+          this.loadTransactionOrThrow(session, input.entryId)
         ]);
 
-        const account = findByName(accounts, input.account);
-        if (!account) {
-          throw new NotFoundError(`Account not found: ${input.account}`);
+        const amountChanged = input.amount !== undefined || input.flow !== undefined;
+        const isSplit = existing.isParent === true || (existing.subtransactions?.length ?? 0) > 0;
+        if (isSplit && (amountChanged || input.category !== undefined || input.categoryId !== undefined)) {
+          throw new ValidationError('Amount, flow and category of a split entry are set by its lines', {
+            entryId: existing.id
+          });
         }
 
-        const category = findByName(categories, input.category);
-        if (!category) {
-          throw new NotFoundError(`Category not found: ${input.category}`);
+        const accountRef = { name: input.account, id: input.accountId };
+        const categoryRef = { name: input.category, id: input.categoryId };
+        const payeeRef = { name: input.payee, id: input.payeeId };
+        // The transfer payee links both sides and the sign sets the direction; changing either would
+        // silently unlink or reverse the transfer.
+        if (existing.transferId && (input.flow !== undefined || hasReference(payeeRef))) {
+          throw new ValidationError('Payee and flow of a transfer are set by its accounts', {
+            entryId: existing.id
+          });
         }
 
-        let payee = findByName(payees, input.payee);
-        if (!payee) {
-          payee = await session.createPayee(input.payee);
-        }
+        const account = hasReference(accountRef)
+          ? resolveOpenAccount(accounts, accountRef, this.nameAliases)
+          : undefined;
+        const category = hasReference(categoryRef)
+          ? resolveCategory(categories, categoryRef, this.nameAliases)
+          : undefined;
+        const payee = hasReference(payeeRef)
+          ? await resolvePayee(session, payees, payeeRef, this.payeeRulesFor(input.budgetId), input.createPayee)
+          : undefined;
+
+        const current = fromActualSignedAmount(existing.amount);
+        const flow = input.flow ?? current.flow;
+        const actualAmount = amountChanged
+          ? toActualSignedAmount(input.amount ?? current.amount, flow)
+          : existing.amount;
 
-        const actualAmount = toActualSignedAmount(input.amount, input.flow);
+        if (!input.allowCategoryMismatch && !existing.transferId && (category || input.flow !== undefined)) {
+          const checked = category ?? categories.find((item) => item.id === existing.categoryId);
+          if (checked) {
+            assertCategoryMatchesFlow(checked, flow, category ? 'category' : 'flow');
+          }
+        }
 
         this.logger.debug(
           {
             budgetId: input.budgetId,
-            accountId: account.id,
-            categoryId: category.id,
-            payeeId: payee.id,
-            amount: actualAmount
+            transactionId: existing.id,
+            accountId: account?.id,
+            categoryId: category?.id,
+            payeeId: payee?.id,
+            amount: amountChanged ? actualAmount : undefined
           },
-          'Creating entry in Actual'
+          'Updating entry in Actual'
         );
 
-        const created = await session.createTransaction({
-          accountId: account.id,
-          categoryId: category.id,
-          payeeId: payee.id,
+        await session.updateTransaction(existing.id, {
+          accountId: account?.id,
+          categoryId: category?.id,
+          payeeId: payee?.id,
           date: input.date,
-          amount: actualAmount,
+          amount: amountChanged ? actualAmount : undefined,
           notes: input.notes
         });
 
-        try {
-          await session.sync();
-        } catch (error) {
-          this.logger.warn(
+        await this.syncAfterWrite(
+          session,
+          {
+            budgetId: input.budgetId,
+            transactionId: existing.id
+          },
+          'Post-write sync failed; returning updated transaction'
+        );
+
+        return toEntryResponseItem(
+          input.budgetId,
+          {
+            ...existing,
+            accountId: account?.id ?? existing.accountId,
+            categoryId: category?.id ?? existing.categoryId,
+            payeeId: payee?.id ?? existing.payeeId,
+            date: input.date ?? existing.date,
+            amount: actualAmount,
+            notes: input.notes ?? existing.notes
+          },
+          buildLookup({ accounts, categories, payees: payee ? [...payees, payee] : payees })
+        );
+      });
+    });
+  }
+
+  async setEntriesCleared(input: SetEntriesClearedInput): Promise<SetEntriesClearedResult> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.lockManager.withBudgetLock(input.budgetId, this.lockTimeoutMs, async () => {
+      return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+        await session.sync();
+
+        const [accounts, categories, payees] = await Promise.all([
+          session.getAccounts(),
+          session.getCategories(),
+          session.getPayees()
+        ]);
+        const lookup = buildLookup({ accounts, categories, payees });
+
+        const items: SetEntryClearedResult[] = [];
+        let written = 0;
+        for (const id of new Set(input.ids)) {
+          try {
+            const existing = await this.loadTransactionOrThrow(session, id);
+            if (!input.cleared && existing.reconciled) {
+              throw new ConflictError(`Entry is reconciled and cannot be marked uncleared: ${id}`);
+            }
+
+            if (existing.cleared !== input.cleared) {
+              await session.updateTransaction(id, { cleared: input.cleared });
+              written += 1;
+            }
+            items.push({
+              id,
+              status: 'updated',
+              entry: toEntryResponseItem(input.budgetId, { ...existing, cleared: input.cleared }, lookup)
+            });
+          } catch (error) {
+            const itemError = toBatchItemError(error);
+            this.logger.warn(
+              { budgetId: input.budgetId, transactionId: id, errorCode: itemError.code, errorMessage: itemError.message },
+              'Updating cleared state failed'
+            );
+            items.push({ id, status: 'failed', error: itemError });
+          }
+        }
+
+        if (written > 0) {
+          await this.syncAfterWrite(
+            session,
             {
               budgetId: input.budgetId,
-              transactionId: created.id,
-              idempotencyKey: input.idempotencyKey,
-              errorName: error instanceof Error ? error.name : typeof error,
-              errorMessage: error instanceof Error ? error.message : String(error)
+              written
             },
-            'Post-write sync failed; returning created transaction id'
+            'Post-write sync failed; returning cleared state results'
           );
         }
 
-        const response: EntryResponseItem = {
-          id: created.id,
-          budgetId: input.budgetId,
-          amount: input.amount,
-          flow: input.flow,
-          date: input.date,
-          payee: payee.name,
-          category: category.name,
-          account: account.name,
-          notes: input.notes
+        const updated = items.filter((item) => item.status === 'updated').length;
+        return {
+          items,
+          updated,
+          failed: items.length - updated
         };
+      });
+    });
+  }
 
-        if (input.idempotencyKey && fingerprint) {
-          this.storeIdempotentResponse(input.budgetId, input.idempotencyKey, fingerprint, response, now);
-        }
+  async deleteEntry(input: EntryRefInput): Promise<void> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
 
-        return response;
+    await this.lockManager.withBudgetLock(input.budgetId, this.lockTimeoutMs, async () => {
+      await this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+        await session.sync();
+
+        const existing = await this.loadTransactionOrThrow(session, input.entryId);
+
+        this.logger.debug({ budgetId: input.budgetId, transactionId: existing.id }, 'Deleting entry in Actual');
+
+        await session.deleteTransaction(existing.id);
+
+        await this.syncAfterWrite(
+          session,
+          {
+            budgetId: input.budgetId,
+            transactionId: existing.id
+          },
+          'Post-write sync failed after deleting transaction'
+        );
       });
     });
   }
@@ -0,0 +1,111 @@
+import { ConflictError } from '../errors';
+
+interface IdempotencyRecord<T> {
+  fingerprint: string;
+  response: T;
+  createdAt: number;
+}
+
+/**
+ * Process-local store of write responses keyed by budget and `Idempotency-Key`. A replayed key returns
+ * the stored response; reusing a key with a different request fingerprint is a conflict. Records expire
+ * after `ttlMs`, and the oldest is evicted once `maxRecords` is reached.
+ */
+export class IdempotencyStore<T> {
+  private readonly records = new Map<string, Map<string, IdempotencyRecord<T>>>();
+  private recordCount = 0;
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxRecords: number
+  ) {}
+
+  get(budgetId: string, idempotencyKey: string, fingerprint: string, now: number): T | null {
+    this.pruneExpired(now);
+
+    const budgetRecords = this.records.get(budgetId);
+    const existing = budgetRecords?.get(idempotencyKey);
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new ConflictError('Idempotency-Key was already used with a different request payload');
+    }
+
+    return existing.response;
+  }
+
+  put(budgetId: string, idempotencyKey: string, fingerprint: string, response: T, now: number): void {
+    const budgetRecords = this.records.get(budgetId) ?? new Map<string, IdempotencyRecord<T>>();
+    const isNewRecord = !budgetRecords.has(idempotencyKey);
+
+    if (isNewRecord) {
+      this.pruneExpired(now);
+      while (this.recordCount >= this.maxRecords) {
+        const evicted = this.evictOldest();
+        if (!evicted) {
+          break;
+        }
+      }
+    }
+
+    budgetRecords.set(idempotencyKey, {
+      fingerprint,
+      response,
+      createdAt: now
+    });
+    this.records.set(budgetId, budgetRecords);
+    if (isNewRecord) {
+      this.recordCount += 1;
+    }
+  }
+
+  private deleteRecord(budgetId: string, key: string): void {
+    const budgetRecords = this.records.get(budgetId);
+    if (!budgetRecords) {
+      return;
+    }
+
+    if (budgetRecords.delete(key)) {
+      this.recordCount = Math.max(0, this.recordCount - 1);
+    }
+
+    if (budgetRecords.size === 0) {
+      this.records.delete(budgetId);
+    }
+  }
+
+  private pruneExpired(now: number): void {
+    for (const [budgetId, budgetRecords] of this.records.entries()) {
+      for (const [key, record] of budgetRecords.entries()) {
+        if (now - record.createdAt > this.ttlMs) {
+          this.deleteRecord(budgetId, key);
+        }
+      }
+    }
+  }
+
+  private evictOldest(): boolean {
+    let oldestBudgetId: string | null = null;
+    let oldestKey: string | null = null;
+    let oldestCreatedAt = Number.POSITIVE_INFINITY;
+
+    for (const [budgetId, budgetRecords] of this.records.entries()) {
+      for (const [key, record] of budgetRecords.entries()) {
+        if (record.createdAt < oldestCreatedAt) {
+          oldestCreatedAt = record.createdAt;
+          oldestBudgetId = budgetId;
+          oldestKey = key;
+        }
+      }
+    }
+
+    if (!oldestBudgetId || !oldestKey) {
+      return false;
+    }
+
+    this.deleteRecord(oldestBudgetId, oldestKey);
+    return true;
+  }
+}
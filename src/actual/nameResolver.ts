@@ -0,0 +1,98 @@
+import type { NameAliasConfig } from '../config';
+import type { NamedEntity } from './clientFactory';
+
+export interface NameSuggestion {
+  id: string;
+  name: string;
+}
+
+/** Alias tables keyed by normalized alias, each pointing at the canonical entity name. */
+export interface NameAliases {
+  account: ReadonlyMap<string, string>;
+  category: ReadonlyMap<string, string>;
+}
+
+const MAX_SUGGESTIONS = 3;
+
+/** Folds case, diacritics and runs of whitespace so "  café  Dining" and "Cafe dining" compare equal. */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+export function buildNameAliases(config: NameAliasConfig): NameAliases {
+  const normalizeKeys = (table: Record<string, string>) =>
+    new Map(Object.entries(table).map(([alias, target]) => [normalizeName(alias), target]));
+
+  return {
+    account: normalizeKeys(config.accounts),
+    category: normalizeKeys(config.categories)
+  };
+}
+
+function looseMatches<T extends NamedEntity>(items: T[], name: string): T[] {
+  const exact = items.filter((item) => item.name === name);
+  if (exact.length > 0) {
+    return exact;
+  }
+
+  const normalized = normalizeName(name);
+  return items.filter((item) => normalizeName(item.name) === normalized);
+}
+
+/**
+ * Returns every entity matching the first tier that matches anything: exact name, then
+ * normalized name, then the alias table. Callers decide whether several matches are ambiguous.
+ */
+export function matchByName<T extends NamedEntity>(
+  items: T[],
+  name: string,
+  aliases: ReadonlyMap<string, string>
+): T[] {
+  const matches = looseMatches(items, name);
+  if (matches.length > 0) {
+    return matches;
+  }
+
+  const target = aliases.get(normalizeName(name));
+  return target === undefined ? [] : looseMatches(items, target);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const substitution = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Closest names for a "did you mean" hint. A name containing the input (or contained in it) counts
+ * as close; otherwise the edit distance must stay within a third of the longer name.
+ */
+export function suggestNames(items: NamedEntity[], name: string): NameSuggestion[] {
+  const normalized = normalizeName(name);
+  if (normalized.length === 0) {
+    return [];
+  }
+
+  return items
+    .map((item) => {
+      const candidate = normalizeName(item.name);
+      const contains = candidate.includes(normalized) || normalized.includes(candidate);
+      return { item, distance: contains ? 0 : editDistance(normalized, candidate), length: candidate.length };
+    })
+    .filter(({ distance, length }) => distance <= Math.max(1, Math.floor(Math.max(length, normalized.length) / 3)))
+    .sort((a, b) => a.distance - b.distance || a.item.name.localeCompare(b.item.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ item }) => ({ id: item.id, name: item.name }));
+}
@@ -0,0 +1,42 @@
+import type { PayeeCreationPolicy, PayeeRulesConfig } from '../config';
+import { normalizeName } from './nameResolver';
+
+/** Compiled per-budget payee rules: alias keys are normalized and patterns are ready-made regexes. */
+export interface PayeeRules {
+  creation: PayeeCreationPolicy;
+  aliases: ReadonlyMap<string, string>;
+  patterns: Array<{ regex: RegExp; payee: string }>;
+}
+
+export const DEFAULT_PAYEE_RULES: PayeeRules = {
+  creation: 'always',
+  aliases: new Map(),
+  patterns: []
+};
+
+export function compilePayeeRules(config: Record<string, PayeeRulesConfig>): Map<string, PayeeRules> {
+  return new Map(
+    Object.entries(config).map(([budgetId, rules]) => [
+      budgetId,
+      {
+        creation: rules.creation,
+        aliases: new Map(Object.entries(rules.aliases).map(([alias, payee]) => [normalizeName(alias), payee])),
+        patterns: rules.patterns.map((rule) => ({ regex: new RegExp(rule.pattern, rule.flags), payee: rule.payee }))
+      }
+    ])
+  );
+}
+
+/**
+ * Maps an incoming payee string to its canonical name: an alias wins, then the first matching
+ * pattern; anything else is kept as typed (trimmed).
+ */
+export function canonicalPayeeName(rules: PayeeRules, name: string): string {
+  const alias = rules.aliases.get(normalizeName(name));
+  if (alias !== undefined) {
+    return alias;
+  }
+
+  const pattern = rules.patterns.find((rule) => rule.regex.test(name));
+  return pattern?.payee ?? name.trim();
+}
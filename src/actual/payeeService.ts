@@ -0,0 +1,89 @@
+import type { Logger } from 'pino';
+import { NotFoundError, ValidationError } from '../errors';
+import type { MergePayeesBody } from '../schemas/payees';
+import { syncAfterWrite, type ActualClientFactory, type ActualPayee } from './clientFactory';
+import type { BudgetLockManager } from './locks';
+
+export interface PayeeItem {
+  id: string;
+  name: string;
+  transferAccountId?: string;
+}
+
+export interface MergePayeesInput extends MergePayeesBody {
+  budgetId: string;
+}
+
+export interface MergePayeesResult {
+  payee: PayeeItem;
+  merged: string[];
+}
+
+function toPayeeItem(payee: ActualPayee): PayeeItem {
+  return {
+    id: payee.id,
+    name: payee.name,
+    ...(payee.transferAccountId ? { transferAccountId: payee.transferAccountId } : {})
+  };
+}
+
+export class PayeeService {
+  constructor(
+    private readonly actualClientFactory: ActualClientFactory,
+    private readonly budgetService: {
+      assertBudgetAccessible(budgetId: string): Promise<void>;
+    },
+    private readonly lockManager: BudgetLockManager,
+    private readonly lockTimeoutMs: number,
+    private readonly logger: Logger
+  ) {}
+
+  async listPayees(budgetId: string): Promise<PayeeItem[]> {
+    await this.budgetService.assertBudgetAccessible(budgetId);
+
+    return this.actualClientFactory.withBudget(budgetId, async (session) => {
+      await session.sync();
+      const payees = await session.getPayees();
+      return payees.map(toPayeeItem).sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+    });
+  }
+
+  /** Folds duplicate payees into `targetId`; Actual repoints their transactions and rules to the target. */
+  async mergePayees(input: MergePayeesInput): Promise<MergePayeesResult> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.lockManager.withBudgetLock(input.budgetId, this.lockTimeoutMs, async () => {
+      return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+        await session.sync();
+
+        const payeesById = new Map((await session.getPayees()).map((payee) => [payee.id, payee]));
+        const mergeIds = [...new Set(input.mergeIds)];
+        const target = payeesById.get(input.targetId);
+        if (!target) {
+          throw new NotFoundError(`Payee not found: ${input.targetId}`);
+        }
+
+        const missing = mergeIds.filter((id) => !payeesById.has(id));
+        if (missing.length > 0) {
+          throw new NotFoundError(`Payee not found: ${missing.join(', ')}`, { ids: missing });
+        }
+
+        const transfers = [target.id, ...mergeIds].filter((id) => payeesById.get(id)?.transferAccountId);
+        if (transfers.length > 0) {
+          throw new ValidationError('Transfer payees cannot be merged', { ids: transfers });
+        }
+
+        await session.mergePayees(target.id, mergeIds);
+
+        await syncAfterWrite(
+          session,
+          this.logger,
+          { budgetId: input.budgetId },
+          'Post-merge sync failed; payees were merged locally'
+        );
+
+        return { payee: toPayeeItem(target), merged: mergeIds };
+      });
+    });
+  }
+}
@@ -0,0 +1,97 @@
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/** Actual's recurrence config (`RecurConfig`) without day patterns, which the bridge does not expand. */
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  start: string;
+  endMode: 'never' | 'after_n_occurrences' | 'on_date';
+  endOccurrences?: number;
+  endDate?: string;
+  skipWeekend: boolean;
+  weekendSolveMode: 'before' | 'after';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Bounds the walk from `start` so a daily rule started decades ago cannot spin indefinitely.
+const MAX_STEPS = 100_000;
+
+function parseDate(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year: year ?? 0, month: (month ?? 1) - 1, day: day ?? 1 };
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * The `step`-th raw occurrence counted from `start`. Monthly and yearly rules keep the start's day
+ * of month and, like Actual's rrule expansion, skip months that do not have it (31st, Feb 29th).
+ */
+function occurrenceAt(rule: Recurrence, step: number): string | undefined {
+  const start = parseDate(rule.start);
+  const offset = step * rule.interval;
+  switch (rule.frequency) {
+    case 'daily':
+    case 'weekly': {
+      const days = rule.frequency === 'daily' ? offset : offset * 7;
+      return formatDate(Date.UTC(start.year, start.month, start.day) + days * DAY_MS);
+    }
+    case 'monthly':
+    case 'yearly': {
+      const months = rule.frequency === 'monthly' ? offset : offset * 12;
+      const time = Date.UTC(start.year, start.month + months, start.day);
+      return new Date(time).getUTCDate() === start.day ? formatDate(time) : undefined;
+    }
+  }
+}
+
+/** Moves a weekend date to the Friday before or the Monday after when the rule skips weekends. */
+function solveWeekend(rule: Recurrence, date: string): string {
+  if (!rule.skipWeekend) {
+    return date;
+  }
+
+  const time = Date.parse(date);
+  const weekday = new Date(time).getUTCDay();
+  if (weekday !== 0 && weekday !== 6) {
+    return date;
+  }
+  const shift = rule.weekendSolveMode === 'before' ? (weekday === 6 ? -1 : -2) : weekday === 6 ? 2 : 1;
+  return formatDate(time + shift * DAY_MS);
+}
+
+/**
+ * Expands a recurrence into its occurrence dates within `from`..`to` (inclusive, `YYYY-MM-DD`),
+ * honouring the end mode and weekend handling. Occurrences are counted from `start`, so
+ * `after_n_occurrences` stays correct for windows that begin later.
+ */
+export function expandRecurrence(rule: Recurrence, from: string, to: string): string[] {
+  const dates: string[] = [];
+  let counted = 0;
+
+  for (let step = 0; step < MAX_STEPS; step += 1) {
+    const raw = occurrenceAt(rule, step);
+    if (raw === undefined) {
+      continue;
+    }
+    if (rule.endMode === 'on_date' && rule.endDate !== undefined && raw > rule.endDate) {
+      break;
+    }
+    if (rule.endMode === 'after_n_occurrences' && counted >= (rule.endOccurrences ?? 0)) {
+      break;
+    }
+    counted += 1;
+
+    const date = solveWeekend(rule, raw);
+    if (date > to && raw > to) {
+      break;
+    }
+    if (date >= from && date <= to) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
@@ -0,0 +1,166 @@
+import { AmbiguousReferenceError, ConfirmationRequiredError, NotFoundError, ValidationError } from '../errors';
+import type { ActualAccount, ActualBudgetSession, ActualCategory, ActualPayee, NamedEntity } from './clientFactory';
+import { matchByName, suggestNames, type NameAliases } from './nameResolver';
+import { canonicalPayeeName, type PayeeRules } from './payeeRules';
+
+/** An Actual account, category or payee referenced by name or by id. */
+export interface EntityRef {
+  name?: string;
+  id?: string;
+}
+
+/**
+ * Names are not unique in Actual (two category groups may both hold "Misc"), so a name matching
+ * more than one entity is rejected instead of silently picking the first.
+ */
+export function assertSingleMatch<T extends NamedEntity>(matches: T[], name: string, field: string): T | undefined {
+  if (matches.length > 1) {
+    throw new AmbiguousReferenceError(`Ambiguous ${field} name: ${name}; reference it by ${field}Id instead`, {
+      ids: matches.map((item) => item.id)
+    });
+  }
+  return matches[0];
+}
+
+export function hasReference(ref: EntityRef): boolean {
+  return ref.name !== undefined || ref.id !== undefined;
+}
+
+export function requireName(name: string | undefined, field: string): string {
+  if (name === undefined) {
+    throw new ValidationError(`${field} or ${field}Id is required`);
+  }
+  return name;
+}
+
+export function entityNotFound(items: NamedEntity[], name: string, label: string): NotFoundError {
+  const suggestions = suggestNames(items, name);
+  return new NotFoundError(`${label} not found: ${name}`, suggestions.length > 0 ? { suggestions } : undefined);
+}
+
+/** Accounts and categories resolve by id, or forgivingly by name (see `matchByName`). */
+export function resolveEntity<T extends NamedEntity>(
+  items: T[],
+  ref: EntityRef,
+  label: string,
+  field: string,
+  aliases: ReadonlyMap<string, string> = new Map()
+): T {
+  if (ref.id !== undefined) {
+    const match = items.find((item) => item.id === ref.id);
+    if (!match) {
+      throw new NotFoundError(`${label} not found: ${ref.id}`);
+    }
+    return match;
+  }
+
+  const name = requireName(ref.name, field);
+  const match = assertSingleMatch(matchByName(items, name, aliases), name, field);
+  if (!match) {
+    throw entityNotFound(items, name, label);
+  }
+  return match;
+}
+
+export function resolveAccount(
+  accounts: ActualAccount[],
+  ref: EntityRef,
+  aliases: NameAliases,
+  field = 'account'
+): ActualAccount {
+  return resolveEntity(accounts, ref, 'Account', field, aliases.account);
+}
+
+/** Accounts receiving new or moved entries must be open; list filters still reach closed ones. */
+export function resolveOpenAccount(
+  accounts: ActualAccount[],
+  ref: EntityRef,
+  aliases: NameAliases,
+  field = 'account'
+): ActualAccount {
+  const account = resolveAccount(accounts, ref, aliases, field);
+  if (account.closed) {
+    throw new ValidationError(`Account is closed: ${account.name}`, { field, accountId: account.id });
+  }
+  return account;
+}
+
+export function resolveCategory(
+  categories: ActualCategory[],
+  ref: EntityRef,
+  aliases: NameAliases,
+  field = 'category'
+): ActualCategory {
+  return resolveEntity(categories, ref, 'Category', field, aliases.category);
+}
+
+/** Resolves every entity carrying the name; list filters match all of them rather than failing on duplicates. */
+export function idsByName(
+  items: NamedEntity[],
+  name: string,
+  aliases: ReadonlyMap<string, string>,
+  label: string
+): string[] {
+  const ids = matchByName(items, name, aliases).map((item) => item.id);
+  if (ids.length === 0) {
+    throw entityNotFound(items, name, label);
+  }
+  return ids;
+}
+
+/**
+ * Payee names go through the budget's alias and pattern rules before matching, and only fall back
+ * to creating a payee when the budget's creation policy allows it.
+ */
+export async function resolvePayee(
+  session: ActualBudgetSession,
+  payees: ActualPayee[],
+  ref: EntityRef,
+  rules: PayeeRules,
+  createConfirmed = false
+): Promise<NamedEntity> {
+  if (ref.id !== undefined) {
+    const payee = resolveEntity(payees, ref, 'Payee', 'payee');
+    if (payee.transferAccountId) {
+      throw new ValidationError('payeeId refers to a transfer payee; use flow=transfer instead');
+    }
+    return payee;
+  }
+
+  const name = canonicalPayeeName(rules, requireName(ref.name, 'payee'));
+  const match = assertSingleMatch(matchByName(payees, name, new Map()), name, 'payee');
+  if (match) {
+    return match;
+  }
+
+  if (rules.creation === 'never') {
+    throw entityNotFound(payees, name, 'Payee');
+  }
+  if (rules.creation === 'confirm' && !createConfirmed) {
+    const suggestions = suggestNames(payees, name);
+    throw new ConfirmationRequiredError(`Payee not found: ${name}; set createPayee to create it`, {
+      payee: name,
+      ...(suggestions.length > 0 ? { suggestions } : {})
+    });
+  }
+  return session.createPayee(name);
+}
+
+export function resolveTransferPayee(payees: ActualPayee[], account: NamedEntity): ActualPayee {
+  const payee = payees.find((item) => item.transferAccountId === account.id);
+  if (!payee) {
+    throw new NotFoundError(`Transfer payee not found for account: ${account.name}`);
+  }
+  return payee;
+}
+
+/** Ids of the existing non-transfer payees a typed name maps to under the budget's payee rules. */
+export function payeeIdsByName(payees: ActualPayee[], name: string, rules: PayeeRules): Set<string> {
+  return new Set(
+    matchByName(
+      payees.filter((payee) => !payee.transferAccountId),
+      canonicalPayeeName(rules, name),
+      new Map()
+    ).map((payee) => payee.id)
+  );
+}
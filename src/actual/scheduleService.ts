@@ -0,0 +1,368 @@
+import type { Logger } from 'pino';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { fromActualSignedAmount, toActualSignedAmount, type Flow } from '../schemas/entries';
+import type { CreateScheduleBody, ListSchedulesQuery, PostScheduledEntryBody } from '../schemas/schedules';
+import {
+  syncAfterWrite,
+  type ActualBudgetSession,
+  type ActualClientFactory,
+  type ActualPayee,
+  type ActualSchedule,
+  type NamedEntity
+} from './clientFactory';
+import type { EntryResponseItem, EntryService } from './entryService';
+import type { BudgetLockManager } from './locks';
+import type { NameAliases } from './nameResolver';
+import { DEFAULT_PAYEE_RULES, type PayeeRules } from './payeeRules';
+import { expandRecurrence, type Recurrence } from './recurrence';
+import { resolveOpenAccount, resolvePayee, resolveTransferPayee } from './references';
+
+export interface ScheduleItem {
+  id: string;
+  name?: string;
+  amount?: number;
+  flow: Flow;
+  payee?: string;
+  payeeId?: string;
+  account?: string;
+  accountId?: string;
+  fromAccount?: string;
+  toAccount?: string;
+  recurrence?: Recurrence;
+  date?: string;
+  nextDate?: string;
+  completed: boolean;
+  postsTransaction: boolean;
+  /** Occurrence dates within the listed window that are not posted yet. */
+  upcoming: string[];
+}
+
+export interface ListSchedulesInput extends ListSchedulesQuery {
+  budgetId: string;
+}
+
+export interface ListSchedulesResult {
+  from: string;
+  to: string;
+  items: ScheduleItem[];
+}
+
+export interface CreateScheduleInput extends CreateScheduleBody {
+  budgetId: string;
+}
+
+export interface PostScheduledEntryInput extends PostScheduledEntryBody {
+  budgetId: string;
+  scheduleId: string;
+  idempotencyKey?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WINDOW_DAYS = 30;
+const MAX_WINDOW_DAYS = 366;
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function scheduleWindow(input: ListSchedulesQuery): { from: string; to: string } {
+  const from = input.from ?? new Date().toISOString().slice(0, 10);
+  const to = input.to ?? shiftDate(from, DEFAULT_WINDOW_DAYS);
+  if (from > to) {
+    throw new ValidationError('from must be less than or equal to to');
+  }
+  if (to > shiftDate(from, MAX_WINDOW_DAYS - 1)) {
+    throw new ValidationError(`Date range must be ${MAX_WINDOW_DAYS} days or fewer`);
+  }
+  return { from, to };
+}
+
+/**
+ * Occurrences of a schedule within `from`..`to`. Occurrences before Actual's next date are already
+ * posted (or skipped) and left out. Schedules using day patterns only report their next date.
+ */
+function upcomingDates(schedule: ActualSchedule, from: string, to: string): string[] {
+  if (schedule.completed) {
+    return [];
+  }
+
+  const inWindow = (date: string) => date >= from && date <= to;
+  if (typeof schedule.date === 'string') {
+    return inWindow(schedule.date) ? [schedule.date] : [];
+  }
+  if (schedule.hasPatterns) {
+    return schedule.nextDate && inWindow(schedule.nextDate) ? [schedule.nextDate] : [];
+  }
+  const nextDate = schedule.nextDate;
+  return expandRecurrence(schedule.date, from, to).filter((date) => nextDate === undefined || date >= nextDate);
+}
+
+function isOccurrence(schedule: ActualSchedule, date: string): boolean {
+  if (date === schedule.nextDate) {
+    return true;
+  }
+  if (typeof schedule.date === 'string') {
+    return date === schedule.date;
+  }
+  return !schedule.hasPatterns && expandRecurrence(schedule.date, date, date).length > 0;
+}
+
+function toScheduleItem(
+  schedule: ActualSchedule,
+  accounts: NamedEntity[],
+  payees: ActualPayee[],
+  window: { from: string; to: string }
+): ScheduleItem {
+  const accountName = (id: string | undefined) => accounts.find((account) => account.id === id)?.name;
+  const payee = payees.find((item) => item.id === schedule.payeeId);
+  const signed = schedule.amount !== undefined ? fromActualSignedAmount(schedule.amount) : undefined;
+  const account = accountName(schedule.accountId);
+  const common = {
+    id: schedule.id,
+    ...(schedule.name ? { name: schedule.name } : {}),
+    ...(signed ? { amount: signed.amount } : {}),
+    ...(typeof schedule.date === 'string' ? { date: schedule.date } : { recurrence: schedule.date }),
+    ...(schedule.nextDate ? { nextDate: schedule.nextDate } : {}),
+    completed: schedule.completed,
+    postsTransaction: schedule.postsTransaction,
+    upcoming: upcomingDates(schedule, window.from, window.to)
+  };
+
+  if (payee?.transferAccountId) {
+    const counterpart = accountName(payee.transferAccountId);
+    // Transfers are scheduled on the source account like an expense; a positive amount is incoming.
+    const [fromAccount, toAccount] = (schedule.amount ?? 0) <= 0 ? [account, counterpart] : [counterpart, account];
+    return {
+      ...common,
+      flow: 'transfer',
+      ...(account ? { account } : {}),
+      ...(schedule.accountId ? { accountId: schedule.accountId } : {}),
+      ...(fromAccount ? { fromAccount } : {}),
+      ...(toAccount ? { toAccount } : {})
+    };
+  }
+
+  return {
+    ...common,
+    flow: signed?.flow ?? 'expense',
+    ...(payee ? { payee: payee.name, payeeId: payee.id } : {}),
+    ...(account ? { account } : {}),
+    ...(schedule.accountId ? { accountId: schedule.accountId } : {})
+  };
+}
+
+export class ScheduleService {
+  constructor(
+    private readonly actualClientFactory: ActualClientFactory,
+    private readonly budgetService: {
+      assertBudgetAccessible(budgetId: string): Promise<void>;
+    },
+    private readonly lockManager: BudgetLockManager,
+    private readonly lockTimeoutMs: number,
+    private readonly logger: Logger,
+    private readonly entryService: Pick<EntryService, 'createEntry'>,
+    private readonly nameAliases: NameAliases = { account: new Map(), category: new Map() },
+    private readonly payeeRules: ReadonlyMap<string, PayeeRules> = new Map()
+  ) {}
+
+  /** Lists the budget's schedules with their occurrences in `from`..`to` (default: the next 30 days). */
+  async listSchedules(input: ListSchedulesInput): Promise<ListSchedulesResult> {
+    const window = scheduleWindow(input);
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+
+      const [schedules, accounts, payees] = await Promise.all([
+        session.getSchedules(),
+        session.getAccounts(),
+        session.getPayees()
+      ]);
+      const items = schedules
+        .map((schedule) => toScheduleItem(schedule, accounts, payees, window))
+        .sort(
+          (a, b) =>
+            (a.upcoming[0] ?? '9999-12-31').localeCompare(b.upcoming[0] ?? '9999-12-31') ||
+            (a.name ?? '').localeCompare(b.name ?? '') ||
+            a.id.localeCompare(b.id)
+        );
+
+      return { ...window, items };
+    });
+  }
+
+  /**
+   * Creates an Actual schedule from an entry-like body. References resolve like entry writes; the
+   * schedule matches the exact amount and leaves posting to the caller.
+   */
+  async createSchedule(input: CreateScheduleInput): Promise<ScheduleItem> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.lockManager.withBudgetLock(input.budgetId, this.lockTimeoutMs, async () => {
+      return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+        await session.sync();
+
+        const [schedules, accounts, payees] = await Promise.all([
+          session.getSchedules(),
+          session.getAccounts(),
+          session.getPayees()
+        ]);
+        // Actual requires schedule names to be unique within a budget.
+        if (input.name && schedules.some((schedule) => schedule.name === input.name)) {
+          throw new ConflictError(`Schedule already exists: ${input.name}`);
+        }
+
+        let account: NamedEntity;
+        let payee: NamedEntity;
+        if (input.flow === 'transfer') {
+          account = resolveOpenAccount(
+            accounts,
+            { name: input.fromAccount, id: input.fromAccountId },
+            this.nameAliases,
+            'fromAccount'
+          );
+          const toAccount = resolveOpenAccount(
+            accounts,
+            { name: input.toAccount, id: input.toAccountId },
+            this.nameAliases,
+            'toAccount'
+          );
+          if (account.id === toAccount.id) {
+            throw new ValidationError('toAccount must differ from fromAccount');
+          }
+          payee = resolveTransferPayee(payees, toAccount);
+        } else {
+          account = resolveOpenAccount(accounts, { name: input.account, id: input.accountId }, this.nameAliases);
+          payee = await resolvePayee(
+            session,
+            payees,
+            { name: input.payee, id: input.payeeId },
+            this.payeeRules.get(input.budgetId) ?? DEFAULT_PAYEE_RULES,
+            input.createPayee
+          );
+          if (!payees.includes(payee)) {
+            payees.push(payee);
+          }
+        }
+
+        const amount = toActualSignedAmount(input.amount, input.flow);
+        const created = await session.createSchedule({
+          ...(input.name ? { name: input.name } : {}),
+          accountId: account.id,
+          payeeId: payee.id,
+          amount,
+          recurrence: input.recurrence
+        });
+
+        await syncAfterWrite(
+          session,
+          this.logger,
+          { budgetId: input.budgetId, scheduleId: created.id },
+          'Post-write sync failed; returning created schedule'
+        );
+
+        const stored = (await session.getSchedules()).find((schedule) => schedule.id === created.id);
+        const schedule: ActualSchedule = stored ?? {
+          id: created.id,
+          ...(input.name ? { name: input.name } : {}),
+          accountId: account.id,
+          payeeId: payee.id,
+          amount,
+          date: input.recurrence,
+          hasPatterns: false,
+          completed: false,
+          postsTransaction: false
+        };
+        const today = new Date().toISOString().slice(0, 10);
+        const from = input.recurrence.start > today ? input.recurrence.start : today;
+        return toScheduleItem(schedule, accounts, payees, scheduleWindow({ from }));
+      });
+    });
+  }
+
+  /**
+   * Posts one occurrence (by default the next due one) as a real entry linked to the schedule, so
+   * Actual advances the schedule's next date. Request fields override the schedule's amount; the
+   * category comes from the request or, like other writes, from a confident payee suggestion.
+   */
+  async postScheduledEntry(input: PostScheduledEntryInput): Promise<EntryResponseItem> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    const { schedule, date, transferAccountId } = await this.actualClientFactory.withBudget(
+      input.budgetId,
+      async (session) => {
+        await session.sync();
+
+        const [schedules, payees] = await Promise.all([session.getSchedules(), session.getPayees()]);
+        const schedule = schedules.find((item) => item.id === input.scheduleId);
+        if (!schedule) {
+          throw new NotFoundError(`Schedule not found: ${input.scheduleId}`);
+        }
+        if (schedule.completed) {
+          throw new ValidationError(`Schedule is completed: ${schedule.id}`);
+        }
+        if (!schedule.accountId || !schedule.payeeId) {
+          throw new ValidationError(`Schedule has no account or payee to post: ${schedule.id}`);
+        }
+
+        const date = input.date ?? schedule.nextDate;
+        if (date === undefined) {
+          throw new ValidationError('date is required; the schedule has no next date');
+        }
+        if (!isOccurrence(schedule, date)) {
+          throw new ValidationError(
+            `${date} is not an occurrence of schedule ${schedule.id}`,
+            schedule.nextDate ? { nextDate: schedule.nextDate } : undefined
+          );
+        }
+
+        const transferAccountId = payees.find((payee) => payee.id === schedule.payeeId)?.transferAccountId;
+        return { schedule, date, transferAccountId };
+      }
+    );
+
+    const signed = schedule.amount !== undefined ? fromActualSignedAmount(schedule.amount) : undefined;
+    const amount = input.amount ?? signed?.amount;
+    if (amount === undefined) {
+      throw new ValidationError('amount is required; the schedule has no fixed amount');
+    }
+
+    const accountId = schedule.accountId ?? '';
+    const outgoing = (schedule.amount ?? 0) <= 0;
+    const references = transferAccountId
+      ? {
+          flow: 'transfer' as const,
+          fromAccountId: outgoing ? accountId : transferAccountId,
+          toAccountId: outgoing ? transferAccountId : accountId
+        }
+      : { flow: signed?.flow ?? 'expense', accountId, payeeId: schedule.payeeId };
+
+    // Checked inside createEntry's lock and session so concurrent posts cannot both book the occurrence.
+    const assertNotPosted = async (session: ActualBudgetSession): Promise<void> => {
+      const posted = (await session.listTransactions({ from: date, to: date })).find(
+        (transaction) => transaction.scheduleId === schedule.id
+      );
+      if (posted) {
+        throw new ConflictError(`Occurrence ${date} of schedule ${schedule.id} is already posted`, {
+          entryId: posted.id
+        });
+      }
+    };
+
+    return this.entryService.createEntry(
+      {
+        budgetId: input.budgetId,
+        amount,
+        date,
+        ...references,
+        ...(input.category !== undefined ? { category: input.category } : {}),
+        ...(input.categoryId !== undefined ? { categoryId: input.categoryId } : {}),
+        notes: input.notes ?? '',
+        ...(input.cleared !== undefined ? { cleared: input.cleared } : {}),
+        scheduleId: schedule.id,
+        ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {})
+      },
+      { beforeWrite: assertNotPosted }
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import Fastify, { type FastifyInstance, type preHandlerHookHandler } from 'fastify';
+import Fastify, { type FastifyBaseLogger, type FastifyInstance, type preHandlerHookHandler } from 'fastify';
 import type { Logger } from 'pino';
 import type { AppConfig } from './config';
 import { buildLogger } from './logger';
@@ -6,9 +6,18 @@ import { buildApiKeyAuth } from './auth/apiKeyAuth';
 import { buildRequestRateLimit } from './auth/requestRateLimit';
 import { AppError, toErrorEnvelope } from './errors';
 import type { ActualClientFactory } from './actual/clientFactory';
+import { accountsRoutes, type AccountsRouteOptions } from './routes/accounts';
+import { categoriesRoutes, type CategoriesRouteOptions } from './routes/categories';
 import { healthRoutes } from './routes/health';
 import { budgetsRoutes } from './routes/budgets';
-import { entriesRoutes } from './routes/entries';
+import { entriesRoutes, type EntriesRouteOptions } from './routes/entries';
+import { importsRoutes, type ImportsRouteOptions } from './routes/imports';
+import { monthsRoutes, type MonthsRouteOptions } from './routes/months';
+import { payeesRoutes, type PayeesRouteOptions } from './routes/payees';
+import { quickEntryRoutes, type QuickEntryRouteOptions } from './routes/quickEntry';
+import { reportsRoutes, type ReportsRouteOptions } from './routes/reports';
+import { schedulesRoutes, type SchedulesRouteOptions } from './routes/schedules';
+import { templatesRoutes, type TemplatesRouteOptions } from './routes/templates';
 
 export interface AppDependencies {
   logger?: Logger;
@@ -17,59 +26,23 @@ export interface AppDependencies {
   budgetService: {
     listBudgets(): Promise<Array<{ id: string; name: string }>>;
   };
-  entryService: {
-    listEntries(input: {
-      budgetId: string;
-      from: string;
-      to: string;
-      flow: 'all' | 'income' | 'expense';
-      limit: number;
-      offset: number;
-    }): Promise<{
-      items: Array<{
-        id: string;
-        budgetId: string;
-        amount: number;
-        flow: 'income' | 'expense';
-        date: string;
-        payee: string;
-        category: string;
-        account: string;
-        notes?: string;
-      }>;
-      limit: number;
-      offset: number;
-      total: number;
-    }>;
-    createEntry(input: {
-      budgetId: string;
-      amount: number;
-      flow: 'income' | 'expense';
-      date: string;
-      payee: string;
-      category: string;
-      account: string;
-      notes?: string;
-      idempotencyKey?: string;
-    }): Promise<{
-      id: string;
-      budgetId: string;
-      amount: number;
-      flow: 'income' | 'expense';
-      date: string;
-      payee: string;
-      category: string;
-      account: string;
-      notes?: string;
-    }>;
-  };
+  entryService: EntriesRouteOptions['entryService'];
+  importService: ImportsRouteOptions['importService'];
+  payeeService: PayeesRouteOptions['payeeService'];
+  quickEntryService: QuickEntryRouteOptions['quickEntryService'];
+  templateService: TemplatesRouteOptions['templateService'];
+  scheduleService: SchedulesRouteOptions['scheduleService'];
+  accountService: AccountsRouteOptions['accountService'];
+  categoryService: CategoriesRouteOptions['categoryService'];
+  budgetMonthService: MonthsRouteOptions['budgetMonthService'];
+  reportService: ReportsRouteOptions['reportService'];
 }
 
 export function buildApp(config: AppConfig, dependencies: AppDependencies): FastifyInstance {
   const logger = dependencies.logger ?? buildLogger(config.logLevel);
 
   const app = Fastify({
-    logger,
+    loggerInstance: logger as FastifyBaseLogger,
     bodyLimit: config.bodyLimitBytes,
     requestTimeout: config.requestTimeoutMs,
     disableRequestLogging: true
@@ -148,6 +121,51 @@ export function buildApp(config: AppConfig, dependencies: AppDependencies): Fast
     requestRateLimit,
     entryService: dependencies.entryService
   });
+  app.register(importsRoutes, {
+    apiKeyAuth,
+    requestRateLimit,
+    importService: dependencies.importService
+  });
+  app.register(payeesRoutes, {
+    apiKeyAuth,
+    requestRateLimit,
+    payeeService: dependencies.payeeService
+  });
+  app.register(quickEntryRoutes, {
+    apiKeyAuth,
+    requestRateLimit,
+    quickEntryService: dependencies.quickEntryService
+  });
+  app.register(templatesRoutes, {
+    apiKeyAuth,
+    requestRateLimit,
+    templateService: dependencies.templateService
+  });
+  app.register(schedulesRoutes, {
+    apiKeyAuth,
+    requestRateLimit,
+    scheduleService: dependencies.scheduleService
+  });
+  app.register(accountsRoutes, {
+    apiKeyAuth,
+    requestRateLimit,
+    accountService: dependencies.accountService
+  });
+  app.register(categoriesRoutes, {
+    apiKeyAuth,
+    requestRateLimit,
+    categoryService: dependencies.categoryService
+  });
+  app.register(monthsRoutes, {
+    apiKeyAuth,
+    requestRateLimit,
+    budgetMonthService: dependencies.budgetMonthService
+  });
+  app.register(reportsRoutes, {
+    apiKeyAuth,
+    requestRateLimit,
+    reportService: dependencies.reportService
+  });
 
   return app;
 }
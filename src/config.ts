@@ -21,6 +21,11 @@ const envSchema = z
     ENTRYSERVER_BODY_LIMIT_BYTES: z.coerce.number().int().positive().default(1048576),
     ENTRYSERVER_IDEMPOTENCY_TTL_MS: z.coerce.number().int().positive().default(86400000),
     ENTRYSERVER_IDEMPOTENCY_MAX_RECORDS: z.coerce.number().int().positive().default(10000),
+    ENTRYSERVER_REPORT_CACHE_TTL_MS: z.coerce.number().int().positive().default(300000),
+    ENTRYSERVER_REPORT_MONTH_START_DAY: z.coerce.number().int().min(1).max(28).default(1),
+    ENTRYSERVER_DATA_DIR: z.string().optional(),
+    ENTRYSERVER_NAME_ALIASES_JSON: z.string().optional(),
+    ENTRYSERVER_PAYEE_RULES_JSON: z.string().optional(),
     ENTRYSERVER_AUTH_FAILURE_WINDOW_MS: z.coerce.number().int().positive().default(60000),
     ENTRYSERVER_AUTH_MAX_ATTEMPTS: z.coerce.number().int().positive().default(10),
     ENTRYSERVER_AUTH_BLOCK_MS: z.coerce.number().int().positive().default(300000),
@@ -38,6 +43,25 @@ export interface BudgetConfigItem {
   name: string;
 }
 
+export interface NameAliasConfig {
+  accounts: Record<string, string>;
+  categories: Record<string, string>;
+}
+
+export type PayeeCreationPolicy = 'always' | 'never' | 'confirm';
+
+export interface PayeePatternRule {
+  pattern: string;
+  flags?: string;
+  payee: string;
+}
+
+export interface PayeeRulesConfig {
+  creation: PayeeCreationPolicy;
+  aliases: Record<string, string>;
+  patterns: PayeePatternRule[];
+}
+
 export interface AppConfig {
   port: number;
   logLevel: string;
@@ -52,6 +76,11 @@ export interface AppConfig {
   bodyLimitBytes: number;
   idempotencyTtlMs: number;
   idempotencyMaxRecords: number;
+  reportCacheTtlMs: number;
+  reportMonthStartDay: number;
+  dataDir?: string;
+  nameAliases: NameAliasConfig;
+  payeeRules: Record<string, PayeeRulesConfig>;
   authFailureWindowMs: number;
   authMaxAttempts: number;
   authBlockMs: number;
@@ -83,6 +112,79 @@ function parseConfiguredBudgets(raw?: string): BudgetConfigItem[] {
   return result.data;
 }
 
+const aliasTableSchema = z.record(z.string().min(1), z.string().min(1)).default({});
+const nameAliasesSchema = z.object({
+  accounts: aliasTableSchema,
+  categories: aliasTableSchema
+});
+
+function parseNameAliases(raw?: string): NameAliasConfig {
+  if (!raw) {
+    return { accounts: {}, categories: {} };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ConfigError('ENTRYSERVER_NAME_ALIASES_JSON must be valid JSON');
+  }
+
+  const result = nameAliasesSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ConfigError('ENTRYSERVER_NAME_ALIASES_JSON must be {accounts?,categories?} maps of alias to name');
+  }
+
+  return result.data;
+}
+
+const payeeRulesSchema = z.record(
+  z.string().min(1),
+  z.object({
+    creation: z.enum(['always', 'never', 'confirm']).default('always'),
+    aliases: aliasTableSchema,
+    patterns: z
+      .array(
+        z.object({
+          pattern: z.string().min(1),
+          flags: z.string().regex(/^[imsu]*$/).optional(),
+          payee: z.string().min(1)
+        })
+      )
+      .default([])
+  })
+);
+
+function parsePayeeRules(raw?: string): Record<string, PayeeRulesConfig> {
+  if (!raw) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ConfigError('ENTRYSERVER_PAYEE_RULES_JSON must be valid JSON');
+  }
+
+  const result = payeeRulesSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ConfigError('ENTRYSERVER_PAYEE_RULES_JSON must map budget ids to {creation?,aliases?,patterns?}');
+  }
+
+  for (const [budgetId, rules] of Object.entries(result.data)) {
+    for (const rule of rules.patterns) {
+      try {
+        new RegExp(rule.pattern, rule.flags);
+      } catch {
+        throw new ConfigError(`ENTRYSERVER_PAYEE_RULES_JSON has an invalid pattern for ${budgetId}: ${rule.pattern}`);
+      }
+    }
+  }
+
+  return result.data;
+}
+
 export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
   const parsedEnv = envSchema.safeParse(env);
   if (!parsedEnv.success) {
@@ -109,6 +211,11 @@ export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
     bodyLimitBytes: parsedEnv.data.ENTRYSERVER_BODY_LIMIT_BYTES,
     idempotencyTtlMs: parsedEnv.data.ENTRYSERVER_IDEMPOTENCY_TTL_MS,
     idempotencyMaxRecords: parsedEnv.data.ENTRYSERVER_IDEMPOTENCY_MAX_RECORDS,
+    reportCacheTtlMs: parsedEnv.data.ENTRYSERVER_REPORT_CACHE_TTL_MS,
+    reportMonthStartDay: parsedEnv.data.ENTRYSERVER_REPORT_MONTH_START_DAY,
+    dataDir: parsedEnv.data.ENTRYSERVER_DATA_DIR || undefined,
+    nameAliases: parseNameAliases(parsedEnv.data.ENTRYSERVER_NAME_ALIASES_JSON),
+    payeeRules: parsePayeeRules(parsedEnv.data.ENTRYSERVER_PAYEE_RULES_JSON),
     authFailureWindowMs: parsedEnv.data.ENTRYSERVER_AUTH_FAILURE_WINDOW_MS,
     authMaxAttempts: parsedEnv.data.ENTRYSERVER_AUTH_MAX_ATTEMPTS,
     authBlockMs: parsedEnv.data.ENTRYSERVER_AUTH_BLOCK_MS,
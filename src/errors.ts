@@ -43,12 +43,42 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class NotAcceptableError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(406, 'not_acceptable', message, details);
+  }
+}
+
 export class ConflictError extends AppError {
   constructor(message: string, details?: unknown) {
     super(409, 'conflict', message, details);
   }
 }
 
+export class AmbiguousReferenceError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(409, 'ambiguous_reference', message, details);
+  }
+}
+
+export class ConfirmationRequiredError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(409, 'confirmation_required', message, details);
+  }
+}
+
+export class StaleReferenceError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(409, 'stale_reference', message, details);
+  }
+}
+
+export class StorageError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(500, 'storage_error', message, details);
+  }
+}
+
 export class UpstreamError extends AppError {
   constructor(message: string, details?: unknown) {
     super(502, 'upstream_error', message, details);
@@ -0,0 +1,195 @@
+import { NotAcceptableError } from '../errors';
+import type { EntryResponseItem } from '../actual/entryService';
+import type { ExportFormat } from '../schemas/entries';
+
+export interface ExportOptions {
+  from: string;
+  to: string;
+  currency: string;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  ofx: 'application/x-ofx; charset=utf-8'
+};
+
+const MEDIA_TYPE_FORMATS: Record<string, ExportFormat> = {
+  'text/csv': 'csv',
+  'text/*': 'csv',
+  '*/*': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'application/x-jsonlines': 'ndjson',
+  'application/x-ofx': 'ofx',
+  'application/ofx': 'ofx',
+  'application/vnd.intu.qfx': 'ofx'
+};
+
+/**
+ * Picks the export format from an `Accept` header, honouring `q` weights. A missing header or a
+ * wildcard selects CSV; a header that names none of the supported types is rejected with 406.
+ */
+export function negotiateExportFormat(accept: string | undefined): ExportFormat {
+  if (!accept || accept.trim() === '') {
+    return 'csv';
+  }
+
+  const candidates = accept
+    .split(',')
+    .map((part, index) => {
+      const [type = '', ...params] = part.split(';').map((value) => value.trim().toLowerCase());
+      const qParam = params.find((param) => param.startsWith('q='));
+      const q = qParam ? Number(qParam.slice(2)) : 1;
+      return { type, q: Number.isNaN(q) ? 0 : q, index };
+    })
+    .filter((candidate) => candidate.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const candidate of candidates) {
+    const format = MEDIA_TYPE_FORMATS[candidate.type];
+    if (format) {
+      return format;
+    }
+  }
+
+  throw new NotAcceptableError('No supported export format in Accept header', {
+    supported: ['text/csv', 'application/x-ndjson', 'application/x-ofx']
+  });
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'date',
+  'flow',
+  'amount',
+  'payee',
+  'category',
+  'account',
+  'fromAccount',
+  'toAccount',
+  'notes',
+  'importedId'
+] as const;
+
+// Spreadsheets evaluate cells starting with these as formulas; a leading quote keeps text fields inert.
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string | number | undefined): string {
+  const text = typeof value === 'string' && CSV_FORMULA_PREFIX.test(value) ? `'${value}` : String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per entry; split entries produce one row per split line sharing the entry id. */
+export function* writeCsv(entries: Iterable<EntryResponseItem>): Generator<string> {
+  yield `${CSV_COLUMNS.join(',')}\r\n`;
+
+  for (const entry of entries) {
+    const lines = entry.splits?.map((split) => ({
+      ...entry,
+      amount: split.amount,
+      category: split.category,
+      notes: split.notes || entry.notes
+    })) ?? [entry];
+
+    for (const line of lines) {
+      yield `${CSV_COLUMNS.map((column) => csvField(line[column])).join(',')}\r\n`;
+    }
+  }
+}
+
+export function* writeNdjson(entries: Iterable<EntryResponseItem>): Generator<string> {
+  for (const entry of entries) {
+    yield `${JSON.stringify(entry)}\n`;
+  }
+}
+
+function xmlText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function ofxDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function ofxStatus(): string {
+  return '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>';
+}
+
+// OFX limits NAME to 32 characters and MEMO to 255.
+const OFX_NAME_LENGTH = 32;
+const OFX_MEMO_LENGTH = 255;
+
+function ofxTransaction(entry: EntryResponseItem): string {
+  const signed = entry.flow === 'income' ? entry.amount : -entry.amount;
+  const type = entry.flow === 'transfer' ? 'XFER' : entry.flow === 'income' ? 'CREDIT' : 'DEBIT';
+  const memo = [entry.category, entry.notes].filter((part) => part).join(' - ');
+
+  return [
+    '<STMTTRN>',
+    `<TRNTYPE>${type}</TRNTYPE>`,
+    `<DTPOSTED>${ofxDate(entry.date)}</DTPOSTED>`,
+    `<TRNAMT>${signed.toFixed(2)}</TRNAMT>`,
+    `<FITID>${xmlText(entry.id)}</FITID>`,
+    `<NAME>${xmlText(entry.payee.slice(0, OFX_NAME_LENGTH))}</NAME>`,
+    memo ? `<MEMO>${xmlText(memo.slice(0, OFX_MEMO_LENGTH))}</MEMO>` : '',
+    '</STMTTRN>\n'
+  ].join('');
+}
+
+/**
+ * Writes an OFX 2 bank statement response with one statement per account. Entries must arrive grouped
+ * by account id; a new statement starts whenever the account changes. Transfers appear on the source
+ * account only, matching how they are listed.
+ */
+export function* writeOfx(entries: Iterable<EntryResponseItem>, options: ExportOptions): Generator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n';
+  yield '<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>\n';
+  yield '<OFX>\n';
+  yield `<SIGNONMSGSRSV1><SONRS>${ofxStatus()}<DTSERVER>${ofxDate(new Date().toISOString().slice(0, 10))}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>\n`;
+  yield '<BANKMSGSRSV1>\n';
+
+  let currentAccount: string | undefined;
+  let statementCount = 0;
+  const closeStatement = '</BANKTRANLIST></STMTRS></STMTTRNRS>\n';
+
+  for (const entry of entries) {
+    // Grouped by id so two accounts sharing a name still get separate statements.
+    const accountKey = entry.accountId ?? entry.account;
+    if (accountKey !== currentAccount) {
+      if (currentAccount !== undefined) {
+        yield closeStatement;
+      }
+      currentAccount = accountKey;
+      statementCount += 1;
+      yield [
+        `<STMTTRNRS><TRNUID>${statementCount}</TRNUID>${ofxStatus()}`,
+        `<STMTRS><CURDEF>${options.currency}</CURDEF>`,
+        `<BANKACCTFROM><BANKID>0</BANKID><ACCTID>${xmlText(entry.account)}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>`,
+        `<BANKTRANLIST><DTSTART>${ofxDate(options.from)}</DTSTART><DTEND>${ofxDate(options.to)}</DTEND>\n`
+      ].join('');
+    }
+
+    yield ofxTransaction(entry);
+  }
+
+  if (currentAccount !== undefined) {
+    yield closeStatement;
+  }
+
+  yield '</BANKMSGSRSV1>\n</OFX>\n';
+}
+
+export function writeExport(
+  format: ExportFormat,
+  entries: Iterable<EntryResponseItem>,
+  options: ExportOptions
+): Generator<string> {
+  if (format === 'ndjson') {
+    return writeNdjson(entries);
+  }
+  if (format === 'ofx') {
+    return writeOfx(entries, options);
+  }
+  return writeCsv(entries);
+}
@@ -0,0 +1,242 @@
+import { createHash } from 'node:crypto';
+import { ValidationError } from '../errors';
+import type { CsvColumnRef, CsvMappingProfile } from '../schemas/imports';
+import { invalidRow, toImportRow, type ImportTarget, type MappedImportRow } from './statement';
+
+/**
+ * Parses RFC 4180 style CSV: quoted fields may contain delimiters, doubled quotes and line breaks.
+ * Returns each record with the 1-based line number it starts on; blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: string): Array<{ line: number; fields: string[] }> {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const records: Array<{ line: number; fields: string[] }> = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = (): void => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') {
+          line += 1;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index += 1;
+      }
+      endRecord();
+      line += 1;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ValidationError('CSV contains an unterminated quoted field', { line: recordLine });
+  }
+
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+const DATE_TOKEN_REGEX = /YYYY|YY|MM|M|DD|D/g;
+
+/** Converts a date in the given `YYYY`/`MM`/`DD` style format to `YYYY-MM-DD`, or `undefined` if it does not match. */
+export function parseDateWithFormat(value: string, format: string): string | undefined {
+  const tokens: string[] = [];
+  const pattern = format
+    .split(DATE_TOKEN_REGEX)
+    .map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const matchedTokens = format.match(DATE_TOKEN_REGEX) ?? [];
+
+  let source = '';
+  pattern.forEach((literal, index) => {
+    source += literal;
+    const token = matchedTokens[index];
+    if (token) {
+      tokens.push(token);
+      source += token.length === 1 ? '(\\d{1,2})' : `(\\d{${token.length}})`;
+    }
+  });
+
+  const match = new RegExp(`^${source}$`).exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+  tokens.forEach((token, index) => {
+    const part = Number(match[index + 1]);
+    if (token === 'YYYY') {
+      year = part;
+    } else if (token === 'YY') {
+      year = 2000 + part;
+    } else if (token.startsWith('M')) {
+      month = part;
+    } else {
+      day = part;
+    }
+  });
+
+  if (year === undefined || month === undefined || day === undefined) {
+    return undefined;
+  }
+
+  const iso = `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  const date = new Date(`${iso}T00:00:00.000Z`);
+  return !Number.isNaN(date.valueOf()) && date.toISOString().slice(0, 10) === iso ? iso : undefined;
+}
+
+/**
+ * Parses a bank-formatted amount such as `1.234,56`, `-12.50 EUR`, `EUR -12.50`, `(12.50)` or `12.50-`.
+ * Everything except digits, the decimal separator and sign markers is ignored.
+ */
+export function parseAmount(value: string, decimalSeparator: '.' | ','): number | undefined {
+  // Currency codes, symbols and spaces go first so a sign after a prefix such as `$-5.00` still counts.
+  const stripped = value.replace(/[^\d.,()+-]/g, '');
+  if (stripped === '') {
+    return undefined;
+  }
+
+  const negative = /^\(.*\)$/.test(stripped) || stripped.startsWith('-') || stripped.endsWith('-');
+  const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+  const digits = stripped
+    .split(thousandsSeparator)
+    .join('')
+    .replace(/[^0-9.,]/g, '')
+    .replace(decimalSeparator, '.');
+
+  if (!/^\d+(\.\d+)?$/.test(digits)) {
+    return undefined;
+  }
+
+  const amount = Number(digits);
+  return negative ? -amount : amount;
+}
+
+function resolveColumnIndex(ref: CsvColumnRef, header: string[] | undefined, field: string): number {
+  if (typeof ref === 'number') {
+    return ref;
+  }
+
+  const index = header?.findIndex((name) => name.trim() === ref) ?? -1;
+  if (index < 0) {
+    throw new ValidationError(`CSV header does not contain the ${field} column: ${ref}`);
+  }
+  return index;
+}
+
+/**
+ * CSV statements carry no transaction ids, so, as for QIF, one is derived from the row's date, amount,
+ * payee and notes. Identical rows in the same file are told apart by their occurrence count, which
+ * keeps re-imports of the file stable. The category is left out: it is not part of what the bank booked.
+ */
+function createImportedIdDeriver(): (content: unknown[]) => string {
+  const occurrences = new Map<string, number>();
+  return (content) => {
+    const key = JSON.stringify(content);
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+    return `csv:${createHash('sha256').update(`${key}#${occurrence}`).digest('hex').slice(0, 32)}`;
+  };
+}
+
+/** Maps CSV records to entry create bodies. Rows that cannot be mapped are returned as `invalid` instead of failing the import. */
+export function mapCsvRows(text: string, profile: CsvMappingProfile, target: ImportTarget): MappedImportRow[] {
+  const records = parseCsv(text, profile.delimiter).slice(profile.skipRows);
+  const header = profile.hasHeader ? records.shift()?.fields : undefined;
+
+  const column = (ref: CsvColumnRef | undefined, field: string): number | undefined =>
+    ref === undefined ? undefined : resolveColumnIndex(ref, header, field);
+  const dateIndex = resolveColumnIndex(profile.dateColumn, header, 'date');
+  const payeeIndex = resolveColumnIndex(profile.payeeColumn, header, 'payee');
+  const amountIndex = column(profile.amountColumn, 'amount');
+  const debitIndex = column(profile.debitColumn, 'debit');
+  const creditIndex = column(profile.creditColumn, 'credit');
+  const notesIndex = column(profile.notesColumn, 'notes');
+  const categoryIndex = column(profile.categoryColumn, 'category');
+  const deriveImportedId = createImportedIdDeriver();
+
+  return records.map(({ line, fields }): MappedImportRow => {
+    const cell = (index: number | undefined): string => (index === undefined ? '' : (fields[index] ?? '').trim());
+
+    const date = parseDateWithFormat(cell(dateIndex), profile.dateFormat);
+    if (!date) {
+      return invalidRow(line, `Date does not match ${profile.dateFormat}: ${cell(dateIndex)}`);
+    }
+
+    let signedAmount: number | undefined;
+    if (amountIndex !== undefined) {
+      signedAmount = parseAmount(cell(amountIndex), profile.decimalSeparator);
+    } else {
+      const debit = parseAmount(cell(debitIndex), profile.decimalSeparator);
+      const credit = parseAmount(cell(creditIndex), profile.decimalSeparator);
+      if (debit !== undefined && debit !== 0) {
+        signedAmount = -Math.abs(debit);
+      } else if (credit !== undefined) {
+        signedAmount = Math.abs(credit);
+      } else {
+        signedAmount = debit;
+      }
+    }
+
+    if (signedAmount === undefined) {
+      return invalidRow(line, 'Amount is missing or not a number');
+    }
+    if (profile.invertAmount) {
+      signedAmount = -signedAmount;
+    }
+
+    const payee = cell(payeeIndex);
+    const notes = cell(notesIndex);
+    return toImportRow(
+      {
+        line,
+        date,
+        amount: signedAmount,
+        payee,
+        notes,
+        category: cell(categoryIndex),
+        importedId: deriveImportedId([date, signedAmount, payee, notes])
+      },
+      target
+    );
+  });
+}
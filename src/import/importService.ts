@@ -0,0 +1,201 @@
+import { createHash } from 'node:crypto';
+import { NotFoundError } from '../errors';
+import type { EntryResponseItem, EntryService } from '../actual/entryService';
+import type { CreateEntryBody } from '../schemas/entries';
+import type { CsvImportBody, CsvMappingProfile, OfxImportBody, QifImportBody } from '../schemas/imports';
+import type { BudgetDocumentStore } from '../storage/budgetDocumentStore';
+import { mapCsvRows } from './csv';
+import { mapOfxTransactions } from './ofx';
+import { mapQifTransactions } from './qif';
+import type { ImportRowError, MappedImportRow } from './statement';
+
+export interface ImportProfile {
+  name: string;
+  mapping: CsvMappingProfile;
+}
+
+export interface CsvImportInput extends CsvImportBody {
+  budgetId: string;
+}
+
+export interface OfxImportInput extends OfxImportBody {
+  budgetId: string;
+}
+
+export interface QifImportInput extends QifImportBody {
+  budgetId: string;
+}
+
+export interface ImportRow {
+  line: number;
+  status: 'valid' | 'invalid' | 'created' | 'duplicate' | 'failed';
+  input?: CreateEntryBody;
+  entry?: EntryResponseItem;
+  error?: ImportRowError;
+}
+
+export interface ImportResult {
+  committed: boolean;
+  rows: ImportRow[];
+  valid: number;
+  invalid: number;
+  created: number;
+  duplicates: number;
+  failed: number;
+}
+
+/**
+ * Derives an idempotency key per imported row so retrying a commit within the idempotency TTL replays
+ * the stored result. Re-imports after that are caught by the row's `importedId`. The category is part
+ * of the key, so a re-commit with another category is not replayed but reported as a duplicate through
+ * its `importedId`. Identical rows in one file are told apart by their occurrence count.
+ */
+function rowIdempotencyKeys(rows: CreateEntryBody[]): string[] {
+  const occurrences = new Map<string, number>();
+  return rows.map((row) => {
+    const content = JSON.stringify([
+      row.account,
+      row.date,
+      row.amount,
+      row.flow,
+      row.payee,
+      row.notes ?? '',
+      row.category ?? '',
+      row.splits ?? [],
+      row.importedId ?? ''
+    ]);
+    const occurrence = (occurrences.get(content) ?? 0) + 1;
+    occurrences.set(content, occurrence);
+    const digest = createHash('sha256').update(`${content}#${occurrence}`).digest('hex').slice(0, 48);
+    return `import:${digest}`;
+  });
+}
+
+export class ImportService {
+  constructor(
+    private readonly entryService: Pick<EntryService, 'createEntriesBatch'>,
+    private readonly budgetService: {
+      assertBudgetAccessible(budgetId: string): Promise<void>;
+    },
+    private readonly profileStore: BudgetDocumentStore<CsvMappingProfile>
+  ) {}
+
+  async listProfiles(budgetId: string): Promise<ImportProfile[]> {
+    await this.budgetService.assertBudgetAccessible(budgetId);
+    const profiles = await this.profileStore.list(budgetId);
+    return profiles.map(({ name, value }) => ({ name, mapping: value }));
+  }
+
+  async saveProfile(budgetId: string, name: string, mapping: CsvMappingProfile): Promise<ImportProfile> {
+    await this.budgetService.assertBudgetAccessible(budgetId);
+    await this.profileStore.put(budgetId, name, mapping);
+    return { name, mapping };
+  }
+
+  async deleteProfile(budgetId: string, name: string): Promise<void> {
+    await this.budgetService.assertBudgetAccessible(budgetId);
+    const deleted = await this.profileStore.delete(budgetId, name);
+    if (!deleted) {
+      throw new NotFoundError(`Import profile not found: ${name}`);
+    }
+  }
+
+  private async resolveMapping(input: CsvImportInput): Promise<CsvMappingProfile> {
+    if (input.mapping) {
+      return input.mapping;
+    }
+
+    const name = input.profile ?? '';
+    const stored = await this.profileStore.get(input.budgetId, name);
+    if (!stored) {
+      throw new NotFoundError(`Import profile not found: ${name}`);
+    }
+    return stored;
+  }
+
+  async importCsv(input: CsvImportInput): Promise<ImportResult> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    const mapping = await this.resolveMapping(input);
+    const rows = mapCsvRows(input.csv, mapping, {
+      account: input.account,
+      defaultCategory: input.defaultCategory
+    });
+    return this.importRows(input.budgetId, input.commit, rows);
+  }
+
+  async importOfx(input: OfxImportInput): Promise<ImportResult> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    const rows = mapOfxTransactions(input.ofx, {
+      account: input.account,
+      defaultCategory: input.defaultCategory
+    });
+    return this.importRows(input.budgetId, input.commit, rows);
+  }
+
+  async importQif(input: QifImportInput): Promise<ImportResult> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    const rows = mapQifTransactions(
+      input.qif,
+      {
+        account: input.account,
+        defaultCategory: input.defaultCategory
+      },
+      {
+        dateFormat: input.dateFormat,
+        decimalSeparator: input.decimalSeparator
+      }
+    );
+    return this.importRows(input.budgetId, input.commit, rows);
+  }
+
+  private async importRows(budgetId: string, commit: boolean, mapped: MappedImportRow[]): Promise<ImportResult> {
+    const validRows = mapped.filter((row): row is Extract<MappedImportRow, { status: 'valid' }> => row.status === 'valid');
+    const invalid = mapped.length - validRows.length;
+
+    if (!commit || validRows.length === 0) {
+      return {
+        committed: false,
+        rows: mapped,
+        valid: validRows.length,
+        invalid,
+        created: 0,
+        duplicates: 0,
+        failed: 0
+      };
+    }
+
+    const keys = rowIdempotencyKeys(validRows.map((row) => row.input));
+    // Statement rows record what the bank booked, so refunds into expense categories are kept as they are.
+    const batch = await this.entryService.createEntriesBatch({
+      budgetId,
+      items: validRows.map((row, index) => ({ ...row.input, allowCategoryMismatch: true, idempotencyKey: keys[index] }))
+    });
+
+    const resultByLine = new Map<number, ImportRow>();
+    for (const result of batch.items) {
+      const row = validRows[result.index];
+      if (!row) {
+        continue;
+      }
+      resultByLine.set(
+        row.line,
+        result.status === 'failed'
+          ? { line: row.line, status: 'failed', input: row.input, error: result.error }
+          : { line: row.line, status: result.status, input: row.input, entry: result.entry }
+      );
+    }
+
+    return {
+      committed: true,
+      rows: mapped.map((row) => resultByLine.get(row.line) ?? row),
+      valid: validRows.length,
+      invalid,
+      created: batch.created,
+      duplicates: batch.duplicates,
+      failed: batch.failed
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { ValidationError } from '../errors';
+import { parseAmount, parseDateWithFormat } from './csv';
+import { invalidRow, toImportRow, type ImportTarget, type MappedImportRow } from './statement';
+
+export interface OfxTransaction {
+  line: number;
+  posted?: string;
+  amount?: string;
+  fitId?: string;
+  name?: string;
+  memo?: string;
+}
+
+const TRANSACTION_BLOCK_REGEX = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+const ENTITY_REGEX = /&(amp|lt|gt|quot|apos|nbsp|#\d+|#x[0-9a-f]+);/gi;
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(ENTITY_REGEX, (entity, name: string) => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith('#x')) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith('#')) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    }
+    return NAMED_ENTITIES[lower] ?? entity;
+  });
+}
+
+/**
+ * Reads a leaf element value. SGML (OFX 1.x) leaves have no closing tag and end at the next tag or
+ * line break, while XML (OFX 2.x) leaves are closed; matching up to the next `<` covers both.
+ */
+function readElement(block: string, name: string): string | undefined {
+  const match = new RegExp(`<${name}>([^<\\r\\n]*)`, 'i').exec(block);
+  const value = match?.[1] !== undefined ? decodeEntities(match[1]).trim() : '';
+  return value === '' ? undefined : value;
+}
+
+/** Extracts `STMTTRN` records from an OFX or QFX document, in either the SGML or the XML variant. */
+export function parseOfx(text: string): OfxTransaction[] {
+  if (!/<OFX>/i.test(text)) {
+    throw new ValidationError('File is not an OFX document');
+  }
+
+  const transactions: OfxTransaction[] = [];
+  for (const match of text.matchAll(TRANSACTION_BLOCK_REGEX)) {
+    const block = match[1] ?? '';
+    transactions.push({
+      line: text.slice(0, match.index).split('\n').length,
+      posted: readElement(block, 'DTPOSTED'),
+      amount: readElement(block, 'TRNAMT'),
+      fitId: readElement(block, 'FITID'),
+      name: readElement(block, 'NAME'),
+      memo: readElement(block, 'MEMO')
+    });
+  }
+
+  return transactions;
+}
+
+/** Maps OFX/QFX transactions to entry create bodies, carrying each `FITID` as the entry's `importedId`. */
+export function mapOfxTransactions(text: string, target: ImportTarget): MappedImportRow[] {
+  return parseOfx(text).map((transaction): MappedImportRow => {
+    const { line } = transaction;
+
+    // DTPOSTED is YYYYMMDD optionally followed by time and timezone, e.g. 20260208120000.000[-5:EST].
+    const date = parseDateWithFormat((transaction.posted ?? '').slice(0, 8), 'YYYYMMDD');
+    if (!date) {
+      return invalidRow(line, `DTPOSTED is missing or invalid: ${transaction.posted ?? ''}`);
+    }
+
+    const rawAmount = transaction.amount ?? '';
+    const amount = parseAmount(rawAmount, rawAmount.includes(',') && !rawAmount.includes('.') ? ',' : '.');
+    if (amount === undefined) {
+      return invalidRow(line, `TRNAMT is missing or not a number: ${rawAmount}`);
+    }
+
+    if (!transaction.fitId) {
+      return invalidRow(line, 'Transaction has no FITID');
+    }
+
+    const payee = transaction.name ?? transaction.memo ?? '';
+    return toImportRow(
+      {
+        line,
+        date,
+        amount,
+        payee,
+        notes: transaction.memo !== undefined && transaction.memo !== payee ? transaction.memo : '',
+        importedId: transaction.fitId
+      },
+      target
+    );
+  });
+}
@@ -0,0 +1,200 @@
+import { createHash } from 'node:crypto';
+import { parseAmount, parseDateWithFormat } from './csv';
+import { invalidRow, toImportRow, type ImportTarget, type MappedImportRow } from './statement';
+
+export interface QifSplit {
+  category?: string;
+  memo?: string;
+  amount?: string;
+}
+
+export interface QifRecord {
+  line: number;
+  date?: string;
+  amount?: string;
+  payee?: string;
+  memo?: string;
+  category?: string;
+  number?: string;
+  splits: QifSplit[];
+}
+
+export interface QifMappingOptions {
+  dateFormat: string;
+  decimalSeparator: '.' | ',';
+}
+
+const TRANSACTION_TYPES = new Set(['bank', 'cash', 'ccard', 'oth a', 'oth l']);
+
+/**
+ * Splits a QIF export into transaction records. Only `!Type:` sections holding transactions are
+ * read; account lists, category lists and other sections are skipped.
+ */
+export function parseQif(text: string): QifRecord[] {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const records: QifRecord[] = [];
+
+  let inTransactions = false;
+  let current: QifRecord | undefined;
+
+  input.split(/\r?\n/).forEach((rawLine, index) => {
+    const content = rawLine.trim();
+    if (content === '') {
+      return;
+    }
+
+    if (content.startsWith('!')) {
+      const header = /^!Type:(.*)$/i.exec(content);
+      if (header) {
+        inTransactions = TRANSACTION_TYPES.has((header[1] ?? '').trim().toLowerCase());
+      } else if (!/^!Option:/i.test(content)) {
+        inTransactions = false;
+      }
+      current = undefined;
+      return;
+    }
+
+    if (!inTransactions) {
+      return;
+    }
+
+    if (content === '^') {
+      if (current) {
+        records.push(current);
+      }
+      current = undefined;
+      return;
+    }
+
+    const record = current ?? { line: index + 1, splits: [] };
+    current = record;
+    const value = content.slice(1).trim();
+    const lastSplit = record.splits[record.splits.length - 1];
+
+    switch (content[0]) {
+      case 'D':
+        record.date = value;
+        break;
+      case 'T':
+      case 'U':
+        record.amount = value;
+        break;
+      case 'P':
+        record.payee = value;
+        break;
+      case 'M':
+        record.memo = value;
+        break;
+      case 'L':
+        record.category = value;
+        break;
+      case 'N':
+        record.number = value;
+        break;
+      case 'S':
+        record.splits.push({ category: value });
+        break;
+      case 'E':
+        if (lastSplit) {
+          lastSplit.memo = value;
+        }
+        break;
+      case '$':
+        if (lastSplit) {
+          lastSplit.amount = value;
+        }
+        break;
+      default:
+        break;
+    }
+  });
+
+  if (current) {
+    records.push(current);
+  }
+
+  return records;
+}
+
+/**
+ * QIF categories may be `Group:Category` paths with a `/Class` suffix; Actual categories are looked
+ * up by their own name. Bracketed names are transfers to another account and carry no category.
+ */
+function toCategoryName(value: string | undefined): string | undefined {
+  if (!value || /^\[.*\]$/.test(value)) {
+    return undefined;
+  }
+  const withoutClass = value.split('/')[0] ?? '';
+  return withoutClass.split(':').pop()?.trim() || undefined;
+}
+
+/**
+ * Quicken writes `1/25'26` for years from 2000 and pads with spaces instead of zeros, e.g. ` 1/ 5'26`,
+ * so day and month accept one or two digits and the year two or four.
+ */
+function parseQifDate(value: string, format: string): string | undefined {
+  const normalized = value.replace(/\s+/g, '').replace("'", '/');
+  const relaxed = format.replace('MM', 'M').replace('DD', 'D');
+  return (
+    parseDateWithFormat(normalized, relaxed) ??
+    (relaxed.includes('YYYY') ? parseDateWithFormat(normalized, relaxed.replace('YYYY', 'YY')) : undefined)
+  );
+}
+
+/**
+ * QIF has no transaction ids, so one is derived from the record content. Identical records in the
+ * same file are told apart by their occurrence count, which keeps re-imports of the file stable.
+ */
+function deriveImportedIds(records: QifRecord[]): string[] {
+  const occurrences = new Map<string, number>();
+  return records.map((record) => {
+    const content = JSON.stringify([record.date, record.amount, record.payee, record.memo, record.number]);
+    const occurrence = (occurrences.get(content) ?? 0) + 1;
+    occurrences.set(content, occurrence);
+    return `qif:${createHash('sha256').update(`${content}#${occurrence}`).digest('hex').slice(0, 32)}`;
+  });
+}
+
+/** Maps QIF transactions to entry create bodies. QIF splits become entry splits. */
+export function mapQifTransactions(text: string, target: ImportTarget, options: QifMappingOptions): MappedImportRow[] {
+  const records = parseQif(text);
+  const importedIds = deriveImportedIds(records);
+
+  return records.map((record, index): MappedImportRow => {
+    const { line } = record;
+
+    const date = parseQifDate(record.date ?? '', options.dateFormat);
+    if (!date) {
+      return invalidRow(line, `Date does not match ${options.dateFormat}: ${record.date ?? ''}`);
+    }
+
+    const amount = parseAmount(record.amount ?? '', options.decimalSeparator);
+    if (amount === undefined) {
+      return invalidRow(line, 'Amount is missing or not a number');
+    }
+
+    const splits: Array<{ amount: number; category: string; notes?: string }> = [];
+    for (const split of record.splits) {
+      const splitAmount = parseAmount(split.amount ?? '', options.decimalSeparator);
+      const category = toCategoryName(split.category) ?? target.defaultCategory;
+      if (splitAmount === undefined || !category) {
+        return invalidRow(line, 'Split lines need an amount and a category');
+      }
+      splits.push({ amount: splitAmount, category, ...(split.memo ? { notes: split.memo } : {}) });
+    }
+
+    return toImportRow(
+      {
+        line,
+        date,
+        amount,
+        payee: record.payee ?? '',
+        notes: record.memo ?? '',
+        category: toCategoryName(record.category),
+        importedId: importedIds[index],
+        splits
+      },
+      target
+    );
+  });
+}
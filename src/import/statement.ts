@@ -0,0 +1,63 @@
+import { createEntryBodySchema, type CreateEntryBody } from '../schemas/entries';
+
+export interface ImportTarget {
+  account: string;
+  defaultCategory?: string;
+}
+
+export interface ImportRowError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+export type MappedImportRow =
+  | { line: number; status: 'valid'; input: CreateEntryBody }
+  | { line: number; status: 'invalid'; error: ImportRowError };
+
+/** A statement line after format-specific parsing. Amounts are signed decimals: negative means money left the account. */
+export interface StatementTransaction {
+  line: number;
+  date: string;
+  amount: number;
+  payee: string;
+  notes?: string;
+  category?: string;
+  importedId?: string;
+  splits?: Array<{ amount: number; category: string; notes?: string }>;
+}
+
+export function invalidRow(line: number, message: string): MappedImportRow {
+  return { line, status: 'invalid', error: { code: 'validation_error', message } };
+}
+
+/** Converts a parsed statement line into an entry create body, reporting rows that do not form a valid entry. */
+export function toImportRow(transaction: StatementTransaction, target: ImportTarget): MappedImportRow {
+  const { line, amount, splits } = transaction;
+  if (splits?.some((split) => split.amount !== 0 && split.amount < 0 !== amount < 0)) {
+    return invalidRow(line, 'Split lines must all share the sign of the transaction amount');
+  }
+
+  const parsed = createEntryBodySchema.safeParse({
+    amount: Math.abs(amount),
+    flow: amount < 0 ? 'expense' : 'income',
+    date: transaction.date,
+    payee: transaction.payee,
+    account: target.account,
+    notes: transaction.notes ?? '',
+    ...(splits && splits.length > 0
+      ? { splits: splits.map((split) => ({ ...split, amount: Math.abs(split.amount) })) }
+      : { category: transaction.category || target.defaultCategory }),
+    ...(transaction.importedId ? { importedId: transaction.importedId } : {})
+  });
+
+  if (!parsed.success) {
+    return {
+      line,
+      status: 'invalid',
+      error: { code: 'validation_error', message: 'Row does not form a valid entry', details: parsed.error.flatten() }
+    };
+  }
+
+  return { line, status: 'valid', input: parsed.data };
+}
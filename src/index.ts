@@ -1,10 +1,23 @@
 import { loadConfig } from './config';
 import { buildLogger } from './logger';
 import { buildApp } from './app';
+import { AccountService } from './actual/accountService';
 import { DefaultActualClientFactory } from './actual/clientFactory';
+import { BudgetMonthService } from './actual/budgetMonthService';
 import { BudgetService } from './actual/budgetService';
+import { CategoryService } from './actual/categoryService';
 import { BudgetLockManager } from './actual/locks';
 import { EntryService } from './actual/entryService';
+import { buildNameAliases } from './actual/nameResolver';
+import { PayeeService } from './actual/payeeService';
+import { compilePayeeRules } from './actual/payeeRules';
+import { ScheduleService } from './actual/scheduleService';
+import { ImportService } from './import/importService';
+import { QuickEntryService } from './quickEntry/quickEntryService';
+import { ReportCache } from './reports/reportCache';
+import { ReportService } from './reports/reportService';
+import { BudgetDocumentStore } from './storage/budgetDocumentStore';
+import { TemplateService } from './templates/templateService';
 
 async function start(): Promise<void> {
   const config = loadConfig();
@@ -13,7 +26,31 @@ async function start(): Promise<void> {
   const actualClientFactory = new DefaultActualClientFactory(config, logger);
   const budgetService = new BudgetService(config, actualClientFactory);
   const lockManager = new BudgetLockManager();
+  const nameAliases = buildNameAliases(config.nameAliases);
+  const payeeRules = compilePayeeRules(config.payeeRules);
   const entryService = new EntryService(
+    actualClientFactory,
+    budgetService,
+    lockManager,
+    config.lockTimeoutMs,
+    logger,
+    config.idempotencyTtlMs,
+    config.idempotencyMaxRecords,
+    nameAliases,
+    payeeRules
+  );
+  const payeeService = new PayeeService(actualClientFactory, budgetService, lockManager, config.lockTimeoutMs, logger);
+  const scheduleService = new ScheduleService(
+    actualClientFactory,
+    budgetService,
+    lockManager,
+    config.lockTimeoutMs,
+    logger,
+    entryService,
+    nameAliases,
+    payeeRules
+  );
+  const budgetMonthService = new BudgetMonthService(
     actualClientFactory,
     budgetService,
     lockManager,
@@ -22,12 +59,43 @@ async function start(): Promise<void> {
     config.idempotencyTtlMs,
     config.idempotencyMaxRecords
   );
+  if (!config.dataDir) {
+    logger.warn(
+      {
+        collections: ['import-profiles', 'entry-templates'],
+        hint: 'set ENTRYSERVER_DATA_DIR to keep them across restarts'
+      },
+      'documents_kept_in_memory'
+    );
+  }
+  const reportCache = new ReportCache(config.reportCacheTtlMs);
+  entryService.onWrite((budgetId) => reportCache.invalidate(budgetId));
+  const reportService = new ReportService(actualClientFactory, budgetService, reportCache, config.reportMonthStartDay);
+  const importService = new ImportService(
+    entryService,
+    budgetService,
+    new BudgetDocumentStore('import-profiles', config.dataDir)
+  );
+  const templateService = new TemplateService(
+    entryService,
+    budgetService,
+    new BudgetDocumentStore('entry-templates', config.dataDir)
+  );
 
   const app = buildApp(config, {
     logger,
     actualClientFactory,
     budgetService,
-    entryService
+    entryService,
+    importService,
+    payeeService,
+    quickEntryService: new QuickEntryService(entryService),
+    templateService,
+    scheduleService,
+    accountService: new AccountService(actualClientFactory, budgetService),
+    categoryService: new CategoryService(actualClientFactory, budgetService),
+    budgetMonthService,
+    reportService
   });
 
   const shutdown = async (signal: string): Promise<void> => {
@@ -0,0 +1,169 @@
+import type { Flow } from '../schemas/entries';
+
+/** What a quick-entry string spells out; names are raw hints still to be resolved against the budget. */
+export interface ParsedQuickEntry {
+  amount?: number;
+  flow: Flow;
+  date: string;
+  payee?: string;
+  account?: string;
+  toAccount?: string;
+  category?: string;
+  /** Words outside any marked clause, e.g. "coffee" in "12.50 coffee at Starbucks". */
+  description?: string;
+}
+
+type Clause = 'free' | 'payee' | 'from' | 'account' | 'to' | 'category';
+
+const CLAUSE_MARKERS: Record<string, Clause> = {
+  at: 'payee',
+  from: 'from',
+  with: 'account',
+  using: 'account',
+  via: 'account',
+  into: 'account',
+  to: 'to',
+  for: 'category'
+};
+const INCOME_CUES = new Set(['received', 'receive', 'got', 'earned', 'income']);
+const TRANSFER_CUES = new Set(['transfer', 'transferred', 'move', 'moved']);
+const EXPENSE_CUES = new Set(['paid', 'pay', 'spent', 'spend', 'bought', 'buy']);
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// Group 3 is the thousands separator; the decimal part, if any, must use the other one.
+const AMOUNT_REGEX = /^([+-])?[$€£]?(\d{1,3}(?:([.,])\d{3})+(?:(?!\3)[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)[$€£]?$/;
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Matches a date phrase starting at `index`: today, yesterday, tomorrow, "N days ago", an ISO date,
+ * or a weekday ("friday" is the most recent one on or before today, "last friday" the one before
+ * today), each optionally preceded by "on". A bare weekday only counts as the last word, so names
+ * such as "Friday Bar" stay intact.
+ */
+function matchDate(words: string[], index: number, today: string): { date: string; length: number } | undefined {
+  const lead = words[index] === 'on' ? 1 : 0;
+  const first = words[index + lead];
+  const second = words[index + lead + 1];
+  if (first === undefined) {
+    return undefined;
+  }
+
+  const relative: Record<string, number> = { today: 0, yesterday: -1, tomorrow: 1 };
+  if (first in relative) {
+    return { date: shiftDate(today, relative[first] ?? 0), length: lead + 1 };
+  }
+  if (ISO_DATE_REGEX.test(first) && !Number.isNaN(Date.parse(first))) {
+    return { date: first, length: lead + 1 };
+  }
+  if (/^\d+$/.test(first) && (second === 'days' || second === 'day') && words[index + lead + 2] === 'ago') {
+    return { date: shiftDate(today, -Number(first)), length: lead + 3 };
+  }
+
+  const last = first === 'last';
+  const weekday = WEEKDAYS.indexOf(last ? (second ?? '') : first);
+  if (weekday === -1 || (lead === 0 && !last && index + 1 < words.length)) {
+    return undefined;
+  }
+  const todayWeekday = new Date(Date.parse(today)).getUTCDay();
+  const back = (todayWeekday - weekday + 7) % 7 || (last ? 7 : 0);
+  return { date: shiftDate(today, -back), length: lead + (last ? 2 : 1) };
+}
+
+/**
+ * Deterministic, rule-based parser for strings like "12.50 coffee at Starbucks yesterday from Visa".
+ * Marker words open clauses (at/@ → payee, with/using/via/into → account, for/# → category);
+ * "from" names the account, except on income where it names the payer, and "to" names the
+ * transfer target or else the payee. Amounts and date phrases close a clause. Words outside any
+ * clause form the description, which becomes the payee when nothing else named one.
+ */
+export function parseQuickEntry(text: string, today: string): ParsedQuickEntry {
+  const tokens = text.trim().split(/\s+/).filter((token) => token.length > 0);
+  const words = tokens.map((token) => token.toLowerCase());
+  const clauses: Record<Clause, string[]> = { free: [], payee: [], from: [], account: [], to: [], category: [] };
+  let clause: Clause = 'free';
+  let amount: number | undefined;
+  let flow: Flow | undefined;
+  let date = today;
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index] ?? '';
+    const word = words[index] ?? '';
+
+    const dateMatch = matchDate(words, index, today);
+    if (dateMatch) {
+      date = dateMatch.date;
+      index += dateMatch.length - 1;
+      clause = 'free';
+      continue;
+    }
+
+    const amountMatch = amount === undefined ? AMOUNT_REGEX.exec(token) : null;
+    if (amountMatch) {
+      const digits = amountMatch[3] ? (amountMatch[2] ?? '').split(amountMatch[3]).join('') : amountMatch[2] ?? '';
+      amount = Number(digits.replace(',', '.'));
+      if (amountMatch[1] === '+') {
+        flow ??= 'income';
+      }
+      clause = 'free';
+      continue;
+    }
+
+    const marker = CLAUSE_MARKERS[word];
+    if (marker) {
+      clause = marker;
+      continue;
+    }
+    if (token.length > 1 && (token.startsWith('@') || token.startsWith('#'))) {
+      clauses[token.startsWith('@') ? 'payee' : 'category'].push(token.slice(1));
+      clause = 'free';
+      continue;
+    }
+
+    if (clause === 'free' && clauses.free.length === 0) {
+      if (INCOME_CUES.has(word) || TRANSFER_CUES.has(word) || EXPENSE_CUES.has(word)) {
+        flow ??= INCOME_CUES.has(word) ? 'income' : TRANSFER_CUES.has(word) ? 'transfer' : 'expense';
+        continue;
+      }
+    }
+
+    clauses[clause].push(token);
+  }
+
+  const joined = (clauseWords: string[]) => (clauseWords.length > 0 ? clauseWords.join(' ') : undefined);
+  const resolvedFlow = flow ?? 'expense';
+  let payee = joined(clauses.payee);
+  let account = joined(clauses.account);
+  let toAccount: string | undefined;
+  let description = joined(clauses.free);
+  if (resolvedFlow === 'transfer') {
+    account = joined(clauses.from) ?? account;
+    toAccount = joined(clauses.to);
+  } else {
+    if (resolvedFlow === 'income' && payee === undefined) {
+      payee = joined(clauses.from);
+    } else {
+      account ??= joined(clauses.from);
+    }
+    payee ??= joined(clauses.to);
+    if (payee === undefined) {
+      payee = description;
+      description = undefined;
+    }
+  }
+  const category = joined(clauses.category);
+
+  return {
+    ...(amount !== undefined ? { amount } : {}),
+    flow: resolvedFlow,
+    date,
+    ...(payee !== undefined ? { payee } : {}),
+    ...(account !== undefined ? { account } : {}),
+    ...(toAccount !== undefined ? { toAccount } : {}),
+    ...(category !== undefined ? { category } : {}),
+    ...(description !== undefined ? { description } : {})
+  };
+}
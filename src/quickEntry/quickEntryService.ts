@@ -0,0 +1,63 @@
+import type { EntryResponseItem, EntryService } from '../actual/entryService';
+import { ValidationError } from '../errors';
+import { createEntryBodySchema, type CreateEntryBody } from '../schemas/entries';
+import type { QuickEntryBody } from '../schemas/quickEntry';
+import { parseQuickEntry, type ParsedQuickEntry } from './parser';
+
+export interface QuickEntryInput extends QuickEntryBody {
+  budgetId: string;
+  idempotencyKey?: string;
+}
+
+export interface QuickEntryResult {
+  preview: boolean;
+  parsed: ParsedQuickEntry;
+  input: CreateEntryBody;
+  categorySuggested: boolean;
+  entry?: EntryResponseItem;
+}
+
+export class QuickEntryService {
+  constructor(private readonly entryService: Pick<EntryService, 'resolveEntryInput' | 'createEntry'>) {}
+
+  /**
+   * Parses the text, resolves its hints through the entry service and, unless previewing, creates
+   * the entry. `today` anchors relative dates and defaults to the server's UTC date.
+   */
+  async createQuickEntry(input: QuickEntryInput): Promise<QuickEntryResult> {
+    const parsed = parseQuickEntry(input.text, input.today ?? new Date().toISOString().slice(0, 10));
+    if (parsed.amount === undefined) {
+      throw new ValidationError('Could not find an amount in text', { parsed });
+    }
+
+    const draft =
+      parsed.flow === 'transfer'
+        ? {
+            fromAccount: parsed.account,
+            toAccount: parsed.toAccount,
+            category: parsed.category,
+            notes: parsed.description ?? ''
+          }
+        : { payee: parsed.payee, account: parsed.account, category: parsed.category, notes: '' };
+    const resolved = await this.entryService.resolveEntryInput({
+      budgetId: input.budgetId,
+      amount: parsed.amount,
+      flow: parsed.flow,
+      date: parsed.date,
+      ...draft,
+      ...(parsed.flow !== 'transfer' && parsed.description ? { categoryHint: parsed.description } : {})
+    });
+    const body = createEntryBodySchema.parse(resolved.input);
+
+    if (input.preview) {
+      return { preview: true, parsed, input: body, categorySuggested: resolved.categorySuggested };
+    }
+
+    const entry = await this.entryService.createEntry({
+      budgetId: input.budgetId,
+      ...body,
+      ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {})
+    });
+    return { preview: false, parsed, input: body, categorySuggested: resolved.categorySuggested, entry };
+  }
+}
@@ -0,0 +1,191 @@
+import type { ActualTransaction } from '../actual/clientFactory';
+
+export type ReportInterval = 'week' | 'month' | 'year';
+
+export interface ReportBucket {
+  /** `YYYY-MM-DD` of the week's Monday, `YYYY-MM` or `YYYY`. */
+  key: string;
+  /** First and last day of the bucket, clipped to the report range. */
+  start: string;
+  end: string;
+}
+
+/**
+ * An amount that counts toward a report: split lines stand in for their parent and transfers are left
+ * out, except for transfers to or from off-budget accounts in cash flow.
+ */
+export interface ReportLine {
+  date: string;
+  amount: number;
+  accountId: string;
+  categoryId?: string;
+  payeeId?: string;
+}
+
+export interface ReportSeriesKey {
+  id?: string;
+  name: string;
+}
+
+export interface ReportSeries extends ReportSeriesKey {
+  values: number[];
+  total: number;
+}
+
+export interface AggregatedReport {
+  series: ReportSeries[];
+  totals: number[];
+  total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * The Monday, month start or January 1st beginning the bucket that holds `date`. Months begin on
+ * `monthStartDay`, so with 25 the bucket holding 2026-03-10 starts on 2026-02-25.
+ */
+function bucketStart(date: string, interval: ReportInterval, monthStartDay: number): string {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  switch (interval) {
+    case 'week': {
+      const time = Date.UTC(year, month - 1, day);
+      const weekday = new Date(time).getUTCDay();
+      return formatDate(time - ((weekday + 6) % 7) * DAY_MS);
+    }
+    case 'month':
+      return formatDate(Date.UTC(year, day >= monthStartDay ? month - 1 : month - 2, monthStartDay));
+    case 'year':
+      return `${year}-01-01`;
+  }
+}
+
+function nextBucketStart(start: string, interval: ReportInterval): string {
+  const [year = 0, month = 1, day = 1] = start.split('-').map(Number);
+  switch (interval) {
+    case 'week':
+      return formatDate(Date.UTC(year, month - 1, day + 7));
+    case 'month':
+      return formatDate(Date.UTC(year, month, day));
+    case 'year':
+      return formatDate(Date.UTC(year + 1, 0, 1));
+  }
+}
+
+function bucketKey(start: string, interval: ReportInterval): string {
+  return interval === 'week' ? start : interval === 'month' ? start.slice(0, 7) : start.slice(0, 4);
+}
+
+/**
+ * Consecutive buckets covering `from`..`to`; the first and last may be partial. Month buckets are
+ * keyed by the month they start in.
+ */
+export function buildBuckets(from: string, to: string, interval: ReportInterval, monthStartDay = 1): ReportBucket[] {
+  const buckets: ReportBucket[] = [];
+  for (let start = bucketStart(from, interval, monthStartDay); start <= to; start = nextBucketStart(start, interval)) {
+    const end = formatDate(Date.parse(nextBucketStart(start, interval)) - DAY_MS);
+    buckets.push({
+      key: bucketKey(start, interval),
+      start: start < from ? from : start,
+      end: end > to ? to : end
+    });
+  }
+  return buckets;
+}
+
+/** Index of the bucket holding `date`, or -1 when it falls outside every bucket. */
+export function findBucketIndex(buckets: ReportBucket[], date: string): number {
+  let low = 0;
+  let high = buckets.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const bucket = buckets[middle];
+    if (!bucket) {
+      break;
+    }
+    if (date < bucket.start) {
+      high = middle - 1;
+    } else if (date > bucket.end) {
+      low = middle + 1;
+    } else {
+      return middle;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Flattens Actual transactions into report lines. Split parents are replaced by their lines, which
+ * inherit the parent's payee. Rows in `offBudgetAccountIds` and transfers, including split lines of a
+ * transfer, are dropped. With `keepOffBudgetTransfers` a transfer to or from an off-budget account is
+ * kept, since it moves money out of or into the budget; transfers between on-budget accounts never count.
+ */
+export function toReportLines(
+  transactions: ActualTransaction[],
+  offBudgetAccountIds: ReadonlySet<string> = new Set(),
+  options: { keepOffBudgetTransfers?: boolean } = {}
+): ReportLine[] {
+  const byId = new Map(transactions.map((transaction) => [transaction.id, transaction]));
+  const parentIds = new Set(transactions.map((transaction) => transaction.parentId).filter(Boolean));
+
+  return transactions.flatMap((transaction) => {
+    const parent = transaction.parentId ? byId.get(transaction.parentId) : undefined;
+    const isSplitParent = transaction.isParent === true || parentIds.has(transaction.id);
+    const transferId = transaction.transferId ?? parent?.transferId;
+    const counterpartAccountId = transferId ? byId.get(transferId)?.accountId : undefined;
+    const isCountedTransfer =
+      options.keepOffBudgetTransfers === true &&
+      counterpartAccountId !== undefined &&
+      offBudgetAccountIds.has(counterpartAccountId);
+    const isDroppedTransfer = transferId !== undefined && !isCountedTransfer;
+    if (isSplitParent || isDroppedTransfer || offBudgetAccountIds.has(transaction.accountId)) {
+      return [];
+    }
+
+    const payeeId = transaction.payeeId ?? parent?.payeeId;
+    return [
+      {
+        date: transaction.date,
+        amount: transaction.amount,
+        accountId: transaction.accountId,
+        ...(transaction.categoryId ? { categoryId: transaction.categoryId } : {}),
+        ...(payeeId ? { payeeId } : {})
+      }
+    ];
+  });
+}
+
+/**
+ * Sums `value` per series and bucket. Series are ordered by total, largest first, then by name;
+ * values outside every bucket are ignored.
+ */
+export function aggregateSeries(
+  items: Array<{ date: string; value: number; key: ReportSeriesKey }>,
+  buckets: ReportBucket[]
+): AggregatedReport {
+  const seriesByKey = new Map<string, ReportSeries>();
+  const totals = buckets.map(() => 0);
+
+  for (const item of items) {
+    const index = findBucketIndex(buckets, item.date);
+    if (index === -1) {
+      continue;
+    }
+
+    const mapKey = item.key.id ?? `name:${item.key.name}`;
+    let series = seriesByKey.get(mapKey);
+    if (!series) {
+      series = { ...item.key, values: buckets.map(() => 0), total: 0 };
+      seriesByKey.set(mapKey, series);
+    }
+    series.values[index] = (series.values[index] ?? 0) + item.value;
+    series.total += item.value;
+    totals[index] = (totals[index] ?? 0) + item.value;
+  }
+
+  const series = [...seriesByKey.values()].sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+  return { series, totals, total: totals.reduce((sum, value) => sum + value, 0) };
+}
@@ -0,0 +1,52 @@
+interface CachedReport {
+  value: unknown;
+  createdAt: number;
+}
+
+/**
+ * Process-local cache of computed reports keyed by budget and request. `invalidate` drops a budget's
+ * reports after a write; entries also expire after `ttlMs` to pick up changes made in Actual
+ * directly. Each budget keeps at most `maxEntriesPerBudget` reports, evicting the oldest.
+ */
+export class ReportCache {
+  private readonly reports = new Map<string, Map<string, CachedReport>>();
+  // Bumped on invalidation so a report computed while a write lands is not stored afterwards.
+  private readonly generations = new Map<string, number>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntriesPerBudget: number = 100
+  ) {}
+
+  async getOrCompute<T>(budgetId: string, key: string, compute: () => Promise<T>, now = Date.now()): Promise<T> {
+    const budgetReports = this.reports.get(budgetId);
+    const cached = budgetReports?.get(key);
+    if (cached && now - cached.createdAt <= this.ttlMs) {
+      return cached.value as T;
+    }
+
+    const generation = this.generations.get(budgetId) ?? 0;
+    const value = await compute();
+    if ((this.generations.get(budgetId) ?? 0) !== generation) {
+      return value;
+    }
+
+    const reports = this.reports.get(budgetId) ?? new Map<string, CachedReport>();
+    reports.delete(key);
+    while (reports.size >= this.maxEntriesPerBudget) {
+      const oldest = reports.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      reports.delete(oldest.value);
+    }
+    reports.set(key, { value, createdAt: now });
+    this.reports.set(budgetId, reports);
+    return value;
+  }
+
+  invalidate(budgetId: string): void {
+    this.reports.delete(budgetId);
+    this.generations.set(budgetId, (this.generations.get(budgetId) ?? 0) + 1);
+  }
+}
@@ -0,0 +1,309 @@
+import type { ActualCategory, ActualClientFactory } from '../actual/clientFactory';
+import { fromSignedMinorUnits, type SignedFlow } from '../schemas/entries';
+import {
+  aggregateSeries,
+  buildBuckets,
+  findBucketIndex,
+  toReportLines,
+  type ReportBucket,
+  type ReportInterval,
+  type ReportLine,
+  type ReportSeriesKey
+} from './aggregation';
+import { ReportCache } from './reportCache';
+
+export type ReportGroupBy = 'category' | 'categoryGroup' | 'payee' | 'account';
+
+export interface SpendingReportInput {
+  budgetId: string;
+  from: string;
+  to: string;
+  groupBy: ReportGroupBy;
+  interval: ReportInterval;
+  flow: SignedFlow;
+  /** Day of month (1-28) monthly buckets begin on; defaults to the service's configured day. */
+  monthStartDay?: number;
+}
+
+export interface SpendingReportSeries {
+  /** Absent for lines without a category, group or payee. */
+  id?: string;
+  name: string;
+  /** One value per bucket, in bucket order. */
+  values: number[];
+  total: number;
+}
+
+export interface SpendingReport {
+  from: string;
+  to: string;
+  groupBy: ReportGroupBy;
+  interval: ReportInterval;
+  flow: SignedFlow;
+  buckets: ReportBucket[];
+  series: SpendingReportSeries[];
+  /** Sum of every series per bucket. */
+  totals: number[];
+  total: number;
+}
+
+export interface TimeSeriesReportInput {
+  budgetId: string;
+  from: string;
+  to: string;
+  monthStartDay?: number;
+}
+
+export interface CashFlowReport {
+  from: string;
+  to: string;
+  monthStartDay: number;
+  buckets: ReportBucket[];
+  income: number[];
+  /** Net of refunds, so a month with more refunds than spending is negative. */
+  expense: number[];
+  net: number[];
+  totals: { income: number; expense: number; net: number };
+}
+
+export interface NetWorthAccountSeries {
+  id: string;
+  name: string;
+  offBudget: boolean;
+  closed: boolean;
+  /** Signed balance at the end of each bucket. */
+  values: number[];
+}
+
+export interface NetWorthReport {
+  from: string;
+  to: string;
+  monthStartDay: number;
+  buckets: ReportBucket[];
+  /** Sum of positive account balances at the end of each bucket. */
+  assets: number[];
+  /** Sum of negative account balances at the end of each bucket, as positive amounts. */
+  liabilities: number[];
+  netWorth: number[];
+  accounts: NetWorthAccountSeries[];
+}
+
+const UNCATEGORIZED = 'Uncategorized';
+const NO_PAYEE = 'No payee';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Income when the line's category is an income category; lines without a category go by their sign. */
+function isIncomeLine(line: ReportLine, categoriesById: ReadonlyMap<string, ActualCategory>): boolean {
+  const category = line.categoryId ? categoriesById.get(line.categoryId) : undefined;
+  return category ? category.isIncome : line.amount > 0;
+}
+
+export class ReportService {
+  constructor(
+    private readonly actualClientFactory: ActualClientFactory,
+    private readonly budgetService: {
+      assertBudgetAccessible(budgetId: string): Promise<void>;
+    },
+    private readonly cache: ReportCache = new ReportCache(5 * 60 * 1000),
+    private readonly monthStartDay: number = 1
+  ) {}
+
+  /**
+   * Totals on-budget income or spending per category, category group, payee or account and per
+   * week, month or year. A line counts as income when its category is an income category; lines
+   * without a category go by their sign. Spending is net of refunds, so a series can dip below zero.
+   */
+  async getSpendingReport(input: SpendingReportInput): Promise<SpendingReport> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+
+    return this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+      await session.sync();
+
+      const [accounts, categories, groups, payees, transactions] = await Promise.all([
+        session.getAccounts(),
+        session.getCategories(),
+        input.groupBy === 'categoryGroup' ? session.getCategoryGroups() : Promise.resolve([]),
+        input.groupBy === 'payee' ? session.getPayees() : Promise.resolve([]),
+        session.listTransactions({ from: input.from, to: input.to })
+      ]);
+      const accountsById = new Map(accounts.map((account) => [account.id, account]));
+      const categoriesById = new Map(categories.map((category) => [category.id, category]));
+      const groupsById = new Map(groups.map((group) => [group.id, group]));
+      const payeesById = new Map(payees.map((payee) => [payee.id, payee]));
+      const offBudgetIds = new Set(accounts.filter((account) => account.offBudget).map((account) => account.id));
+
+      const seriesKey = (line: ReportLine): ReportSeriesKey => {
+        const category = line.categoryId ? categoriesById.get(line.categoryId) : undefined;
+        switch (input.groupBy) {
+          case 'category':
+            return category ? { id: category.id, name: category.name } : { name: UNCATEGORIZED };
+          case 'categoryGroup': {
+            const group = category?.groupId ? groupsById.get(category.groupId) : undefined;
+            return group ? { id: group.id, name: group.name } : { name: UNCATEGORIZED };
+          }
+          case 'payee': {
+            const payee = line.payeeId ? payeesById.get(line.payeeId) : undefined;
+            return payee ? { id: payee.id, name: payee.name } : { name: NO_PAYEE };
+          }
+          case 'account':
+            return { id: line.accountId, name: accountsById.get(line.accountId)?.name ?? line.accountId };
+        }
+      };
+
+      const items = toReportLines(transactions, offBudgetIds).flatMap((line) => {
+        const isIncome = isIncomeLine(line, categoriesById);
+        if (isIncome !== (input.flow === 'income')) {
+          return [];
+        }
+        return [{ date: line.date, value: isIncome ? line.amount : -line.amount, key: seriesKey(line) }];
+      });
+
+      const buckets = buildBuckets(input.from, input.to, input.interval, input.monthStartDay ?? this.monthStartDay);
+      const report = aggregateSeries(items, buckets);
+
+      return {
+        from: input.from,
+        to: input.to,
+        groupBy: input.groupBy,
+        interval: input.interval,
+        flow: input.flow,
+        buckets,
+        series: report.series.map((series) => ({
+          ...series,
+          values: series.values.map(fromSignedMinorUnits),
+          total: fromSignedMinorUnits(series.total)
+        })),
+        totals: report.totals.map(fromSignedMinorUnits),
+        total: fromSignedMinorUnits(report.total)
+      };
+    });
+  }
+
+  /**
+   * Income, net spending and their difference per month across on-budget accounts, counted like the
+   * spending report except that transfers to or from off-budget accounts count as money leaving or
+   * entering the budget. Split entries count per line.
+   */
+  async getCashFlow(input: TimeSeriesReportInput): Promise<CashFlowReport> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+    const monthStartDay = input.monthStartDay ?? this.monthStartDay;
+    const cacheKey = JSON.stringify({ report: 'cashFlow', from: input.from, to: input.to, monthStartDay });
+
+    return this.cache.getOrCompute(input.budgetId, cacheKey, () =>
+      this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+        await session.sync();
+
+        const [accounts, categories, transactions] = await Promise.all([
+          session.getAccounts(),
+          session.getCategories(),
+          session.listTransactions({ from: input.from, to: input.to })
+        ]);
+        const categoriesById = new Map(categories.map((category) => [category.id, category]));
+        const offBudgetIds = new Set(accounts.filter((account) => account.offBudget).map((account) => account.id));
+
+        const buckets = buildBuckets(input.from, input.to, 'month', monthStartDay);
+        const income = buckets.map(() => 0);
+        const expense = buckets.map(() => 0);
+        for (const line of toReportLines(transactions, offBudgetIds, { keepOffBudgetTransfers: true })) {
+          const index = findBucketIndex(buckets, line.date);
+          if (index === -1) {
+            continue;
+          }
+          if (isIncomeLine(line, categoriesById)) {
+            income[index] = (income[index] ?? 0) + line.amount;
+          } else {
+            expense[index] = (expense[index] ?? 0) - line.amount;
+          }
+        }
+
+        const net = income.map((value, index) => value - (expense[index] ?? 0));
+        const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+        return {
+          from: input.from,
+          to: input.to,
+          monthStartDay,
+          buckets,
+          income: income.map(fromSignedMinorUnits),
+          expense: expense.map(fromSignedMinorUnits),
+          net: net.map(fromSignedMinorUnits),
+          totals: {
+            income: fromSignedMinorUnits(sum(income)),
+            expense: fromSignedMinorUnits(sum(expense)),
+            net: fromSignedMinorUnits(sum(net))
+          }
+        };
+      })
+    );
+  }
+
+  /**
+   * Balances of every account, on- and off-budget, at the end of each month. Each account starts
+   * from its balance on the day before `from` and adds its entries, transfers included, month by month.
+   */
+  async getNetWorth(input: TimeSeriesReportInput): Promise<NetWorthReport> {
+    await this.budgetService.assertBudgetAccessible(input.budgetId);
+    const monthStartDay = input.monthStartDay ?? this.monthStartDay;
+    const cacheKey = JSON.stringify({ report: 'netWorth', from: input.from, to: input.to, monthStartDay });
+
+    return this.cache.getOrCompute(input.budgetId, cacheKey, () =>
+      this.actualClientFactory.withBudget(input.budgetId, async (session) => {
+        await session.sync();
+
+        const [accounts, transactions] = await Promise.all([
+          session.getAccounts(),
+          session.listTransactions({ from: input.from, to: input.to })
+        ]);
+        const openingDate = new Date(Date.parse(input.from) - DAY_MS).toISOString().slice(0, 10);
+        const buckets = buildBuckets(input.from, input.to, 'month', monthStartDay);
+
+        // Split lines are already part of their parent's amount, so only top-level rows move balances.
+        const presentIds = new Set(transactions.map((transaction) => transaction.id));
+        const changes = new Map<string, number[]>();
+        for (const transaction of transactions) {
+          const index = findBucketIndex(buckets, transaction.date);
+          if (index === -1 || (transaction.parentId && presentIds.has(transaction.parentId))) {
+            continue;
+          }
+          const accountChanges = changes.get(transaction.accountId) ?? buckets.map(() => 0);
+          accountChanges[index] = (accountChanges[index] ?? 0) + transaction.amount;
+          changes.set(transaction.accountId, accountChanges);
+        }
+
+        const assets = buckets.map(() => 0);
+        const liabilities = buckets.map(() => 0);
+        const series: NetWorthAccountSeries[] = [];
+        for (const account of accounts) {
+          let balance = await session.getAccountBalance(account.id, openingDate);
+          const accountChanges = changes.get(account.id);
+          const values = buckets.map((_bucket, index) => {
+            balance += accountChanges?.[index] ?? 0;
+            if (balance >= 0) {
+              assets[index] = (assets[index] ?? 0) + balance;
+            } else {
+              liabilities[index] = (liabilities[index] ?? 0) - balance;
+            }
+            return balance;
+          });
+          series.push({
+            id: account.id,
+            name: account.name,
+            offBudget: account.offBudget,
+            closed: account.closed,
+            values: values.map(fromSignedMinorUnits)
+          });
+        }
+
+        return {
+          from: input.from,
+          to: input.to,
+          monthStartDay,
+          buckets,
+          assets: assets.map(fromSignedMinorUnits),
+          liabilities: liabilities.map(fromSignedMinorUnits),
+          netWorth: assets.map((value, index) => fromSignedMinorUnits(value - (liabilities[index] ?? 0))),
+          accounts: series
+        };
+      })
+    );
+  }
+}
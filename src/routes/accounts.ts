@@ -0,0 +1,32 @@
+import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import type { AccountService } from '../actual/accountService';
+import { accountsResponseSchema, listAccountsQuerySchema } from '../schemas/accounts';
+import { budgetIdParamsSchema } from '../schemas/entries';
+
+export interface AccountsRouteOptions {
+  apiKeyAuth: preHandlerHookHandler;
+  requestRateLimit?: preHandlerHookHandler;
+  accountService: Pick<AccountService, 'listAccounts'>;
+}
+
+export const accountsRoutes: FastifyPluginAsync<AccountsRouteOptions> = async (app, options): Promise<void> => {
+  const preHandler = options.requestRateLimit ? [options.apiKeyAuth, options.requestRateLimit] : options.apiKeyAuth;
+
+  app.get(
+    '/budgets/:budgetId/accounts',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const query = listAccountsQuerySchema.parse(request.query);
+
+      const result = await options.accountService.listAccounts({
+        budgetId: params.budgetId,
+        ...query
+      });
+
+      return accountsResponseSchema.parse(result);
+    }
+  );
+};
@@ -0,0 +1,28 @@
+import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import type { CategoryService } from '../actual/categoryService';
+import { categoriesResponseSchema } from '../schemas/categories';
+import { budgetIdParamsSchema } from '../schemas/entries';
+
+export interface CategoriesRouteOptions {
+  apiKeyAuth: preHandlerHookHandler;
+  requestRateLimit?: preHandlerHookHandler;
+  categoryService: Pick<CategoryService, 'listCategories'>;
+}
+
+export const categoriesRoutes: FastifyPluginAsync<CategoriesRouteOptions> = async (app, options): Promise<void> => {
+  const preHandler = options.requestRateLimit ? [options.apiKeyAuth, options.requestRateLimit] : options.apiKeyAuth;
+
+  app.get(
+    '/budgets/:budgetId/categories',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+
+      const result = await options.categoryService.listCategories(params.budgetId);
+
+      return categoriesResponseSchema.parse(result);
+    }
+  );
+};
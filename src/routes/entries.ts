@@ -1,62 +1,40 @@
+import { Readable } from 'node:stream';
 import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import type { EntryService } from '../actual/entryService';
+import { EXPORT_CONTENT_TYPES, negotiateExportFormat, writeExport } from '../export/entries';
 import {
   budgetIdParamsSchema,
+  createEntriesBatchBodySchema,
+  createEntriesBatchResponseSchema,
   createEntryBodySchema,
+  entryIdParamsSchema,
+  exportEntriesQuerySchema,
   listEntriesQuerySchema,
   listEntriesResponseSchema,
+  setEntriesClearedBodySchema,
+  setEntriesClearedResponseSchema,
   entryItemSchema,
-  idempotencyKeyHeaderSchema
+  entrySuggestionResponseSchema,
+  idempotencyKeyHeaderSchema,
+  suggestEntryQuerySchema,
+  updateEntryBodySchema
 } from '../schemas/entries';
 
 export interface EntriesRouteOptions {
   apiKeyAuth: preHandlerHookHandler;
   requestRateLimit?: preHandlerHookHandler;
-  entryService: {
-    listEntries(input: {
-      budgetId: string;
-      from: string;
-      to: string;
-      flow: 'all' | 'income' | 'expense';
-      limit: number;
-      offset: number;
-    }): Promise<{
-      items: Array<{
-        id: string;
-        budgetId: string;
-        amount: number;
-        flow: 'income' | 'expense';
-        date: string;
-        payee: string;
-        category: string;
-        account: string;
-        notes?: string;
-      }>;
-      limit: number;
-      offset: number;
-      total: number;
-    }>;
-    createEntry(input: {
-      budgetId: string;
-      amount: number;
-      flow: 'income' | 'expense';
-      date: string;
-      payee: string;
-      category: string;
-      account: string;
-      notes?: string;
-      idempotencyKey?: string;
-    }): Promise<{
-      id: string;
-      budgetId: string;
-      amount: number;
-      flow: 'income' | 'expense';
-      date: string;
-      payee: string;
-      category: string;
-      account: string;
-      notes?: string;
-    }>;
-  };
+  entryService: Pick<
+    EntryService,
+    | 'listEntries'
+    | 'exportEntries'
+    | 'suggestEntry'
+    | 'createEntry'
+    | 'createEntriesBatch'
+    | 'getEntry'
+    | 'updateEntry'
+    | 'deleteEntry'
+    | 'setEntriesCleared'
+  >;
 }
 
 export const entriesRoutes: FastifyPluginAsync<EntriesRouteOptions> = async (app, options): Promise<void> => {
@@ -80,6 +58,50 @@ export const entriesRoutes: FastifyPluginAsync<EntriesRouteOptions> = async (app
     }
   );
 
+  // `::` escapes the colon so the path matches the literal `entries:export` suffix.
+  app.get(
+    '/budgets/:budgetId/entries::export',
+    {
+      preHandler
+    },
+    async (request, reply) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const query = exportEntriesQuerySchema.parse(request.query);
+      const format = query.format ?? negotiateExportFormat(request.headers.accept);
+
+      const entries = await options.entryService.exportEntries({
+        budgetId: params.budgetId,
+        from: query.from,
+        to: query.to,
+        flow: query.flow,
+        order: format === 'ofx' ? 'account' : 'date'
+      });
+
+      return reply
+        .type(EXPORT_CONTENT_TYPES[format])
+        .header('content-disposition', `attachment; filename="entries-${query.from}-${query.to}.${format}"`)
+        .send(Readable.from(writeExport(format, entries, query)));
+    }
+  );
+
+  app.get(
+    '/budgets/:budgetId/entries::suggest',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const query = suggestEntryQuerySchema.parse(request.query);
+
+      const result = await options.entryService.suggestEntry({
+        budgetId: params.budgetId,
+        ...query
+      });
+
+      return entrySuggestionResponseSchema.parse(result);
+    }
+  );
+
   app.post(
     '/budgets/:budgetId/entries',
     {
@@ -99,4 +121,86 @@ export const entriesRoutes: FastifyPluginAsync<EntriesRouteOptions> = async (app
       return entryItemSchema.parse(result);
     }
   );
+
+  app.post(
+    '/budgets/:budgetId/entries::batch',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const body = createEntriesBatchBodySchema.parse(request.body);
+
+      const result = await options.entryService.createEntriesBatch({
+        budgetId: params.budgetId,
+        items: body.items
+      });
+
+      return createEntriesBatchResponseSchema.parse(result);
+    }
+  );
+
+  app.post(
+    '/budgets/:budgetId/entries::setCleared',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const body = setEntriesClearedBodySchema.parse(request.body);
+
+      const result = await options.entryService.setEntriesCleared({
+        budgetId: params.budgetId,
+        ...body
+      });
+
+      return setEntriesClearedResponseSchema.parse(result);
+    }
+  );
+
+  app.get(
+    '/budgets/:budgetId/entries/:entryId',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = entryIdParamsSchema.parse(request.params);
+
+      const result = await options.entryService.getEntry(params);
+
+      return entryItemSchema.parse(result);
+    }
+  );
+
+  app.patch(
+    '/budgets/:budgetId/entries/:entryId',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = entryIdParamsSchema.parse(request.params);
+      const body = updateEntryBodySchema.parse(request.body);
+
+      const result = await options.entryService.updateEntry({
+        ...params,
+        ...body
+      });
+
+      return entryItemSchema.parse(result);
+    }
+  );
+
+  app.delete(
+    '/budgets/:budgetId/entries/:entryId',
+    {
+      preHandler
+    },
+    async (request, reply) => {
+      const params = entryIdParamsSchema.parse(request.params);
+
+      await options.entryService.deleteEntry(params);
+
+      return reply.status(204).send();
+    }
+  );
 };
@@ -0,0 +1,120 @@
+import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import type { ImportService } from '../import/importService';
+import { budgetIdParamsSchema } from '../schemas/entries';
+import {
+  csvImportBodySchema,
+  csvMappingProfileSchema,
+  importProfileItemSchema,
+  importProfileParamsSchema,
+  importProfilesResponseSchema,
+  importResultSchema,
+  ofxImportBodySchema,
+  qifImportBodySchema
+} from '../schemas/imports';
+
+export interface ImportsRouteOptions {
+  apiKeyAuth: preHandlerHookHandler;
+  requestRateLimit?: preHandlerHookHandler;
+  importService: Pick<ImportService, 'listProfiles' | 'saveProfile' | 'deleteProfile' | 'importCsv' | 'importOfx' | 'importQif'>;
+}
+
+export const importsRoutes: FastifyPluginAsync<ImportsRouteOptions> = async (app, options): Promise<void> => {
+  const preHandler = options.requestRateLimit ? [options.apiKeyAuth, options.requestRateLimit] : options.apiKeyAuth;
+
+  app.get(
+    '/budgets/:budgetId/import-profiles',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+
+      const result = await options.importService.listProfiles(params.budgetId);
+
+      return importProfilesResponseSchema.parse(result);
+    }
+  );
+
+  app.put(
+    '/budgets/:budgetId/import-profiles/:name',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = importProfileParamsSchema.parse(request.params);
+      const body = csvMappingProfileSchema.parse(request.body);
+
+      const result = await options.importService.saveProfile(params.budgetId, params.name, body);
+
+      return importProfileItemSchema.parse(result);
+    }
+  );
+
+  app.delete(
+    '/budgets/:budgetId/import-profiles/:name',
+    {
+      preHandler
+    },
+    async (request, reply) => {
+      const params = importProfileParamsSchema.parse(request.params);
+
+      await options.importService.deleteProfile(params.budgetId, params.name);
+
+      return reply.status(204).send();
+    }
+  );
+
+  app.post(
+    '/budgets/:budgetId/imports/csv',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const body = csvImportBodySchema.parse(request.body);
+
+      const result = await options.importService.importCsv({
+        budgetId: params.budgetId,
+        ...body
+      });
+
+      return importResultSchema.parse(result);
+    }
+  );
+
+  app.post(
+    '/budgets/:budgetId/imports/ofx',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const body = ofxImportBodySchema.parse(request.body);
+
+      const result = await options.importService.importOfx({
+        budgetId: params.budgetId,
+        ...body
+      });
+
+      return importResultSchema.parse(result);
+    }
+  );
+
+  app.post(
+    '/budgets/:budgetId/imports/qif',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const body = qifImportBodySchema.parse(request.body);
+
+      const result = await options.importService.importQif({
+        budgetId: params.budgetId,
+        ...body
+      });
+
+      return importResultSchema.parse(result);
+    }
+  );
+};
@@ -0,0 +1,93 @@
+import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import type { BudgetMonthService } from '../actual/budgetMonthService';
+import { idempotencyKeyHeaderSchema } from '../schemas/entries';
+import {
+  budgetMonthResponseSchema,
+  monthCategoryParamsSchema,
+  monthParamsSchema,
+  setBudgetAmountBodySchema
+} from '../schemas/months';
+
+export interface MonthsRouteOptions {
+  apiKeyAuth: preHandlerHookHandler;
+  requestRateLimit?: preHandlerHookHandler;
+  budgetMonthService: Pick<
+    BudgetMonthService,
+    'getBudgetMonth' | 'setBudgetAmount' | 'copyPreviousMonth' | 'applyAverage'
+  >;
+}
+
+export const monthsRoutes: FastifyPluginAsync<MonthsRouteOptions> = async (app, options): Promise<void> => {
+  const preHandler = options.requestRateLimit ? [options.apiKeyAuth, options.requestRateLimit] : options.apiKeyAuth;
+
+  app.get(
+    '/budgets/:budgetId/months/:month',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = monthParamsSchema.parse(request.params);
+
+      const result = await options.budgetMonthService.getBudgetMonth(params);
+
+      return budgetMonthResponseSchema.parse(result);
+    }
+  );
+
+  app.put(
+    '/budgets/:budgetId/months/:month/categories/:categoryId',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = monthCategoryParamsSchema.parse(request.params);
+      const body = setBudgetAmountBodySchema.parse(request.body);
+      const idempotencyKey = idempotencyKeyHeaderSchema.parse(request.headers['idempotency-key']);
+
+      const result = await options.budgetMonthService.setBudgetAmount({
+        ...params,
+        ...body,
+        ...(idempotencyKey ? { idempotencyKey } : {})
+      });
+
+      return budgetMonthResponseSchema.parse(result);
+    }
+  );
+
+  // `::` escapes the colon so the path matches the literal `categories:copyPreviousMonth` suffix.
+  app.post(
+    '/budgets/:budgetId/months/:month/categories::copyPreviousMonth',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = monthParamsSchema.parse(request.params);
+      const idempotencyKey = idempotencyKeyHeaderSchema.parse(request.headers['idempotency-key']);
+
+      const result = await options.budgetMonthService.copyPreviousMonth({
+        ...params,
+        ...(idempotencyKey ? { idempotencyKey } : {})
+      });
+
+      return budgetMonthResponseSchema.parse(result);
+    }
+  );
+
+  app.post(
+    '/budgets/:budgetId/months/:month/categories::applyAverage',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = monthParamsSchema.parse(request.params);
+      const idempotencyKey = idempotencyKeyHeaderSchema.parse(request.headers['idempotency-key']);
+
+      const result = await options.budgetMonthService.applyAverage({
+        ...params,
+        ...(idempotencyKey ? { idempotencyKey } : {})
+      });
+
+      return budgetMonthResponseSchema.parse(result);
+    }
+  );
+};
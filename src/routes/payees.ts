@@ -0,0 +1,47 @@
+import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import type { PayeeService } from '../actual/payeeService';
+import { budgetIdParamsSchema } from '../schemas/entries';
+import { mergePayeesBodySchema, mergePayeesResponseSchema, payeesResponseSchema } from '../schemas/payees';
+
+export interface PayeesRouteOptions {
+  apiKeyAuth: preHandlerHookHandler;
+  requestRateLimit?: preHandlerHookHandler;
+  payeeService: Pick<PayeeService, 'listPayees' | 'mergePayees'>;
+}
+
+export const payeesRoutes: FastifyPluginAsync<PayeesRouteOptions> = async (app, options): Promise<void> => {
+  const preHandler = options.requestRateLimit ? [options.apiKeyAuth, options.requestRateLimit] : options.apiKeyAuth;
+
+  app.get(
+    '/budgets/:budgetId/payees',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+
+      const result = await options.payeeService.listPayees(params.budgetId);
+
+      return payeesResponseSchema.parse(result);
+    }
+  );
+
+  // `::` escapes the colon so the path matches the literal `payees:merge` suffix.
+  app.post(
+    '/budgets/:budgetId/payees::merge',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const body = mergePayeesBodySchema.parse(request.body);
+
+      const result = await options.payeeService.mergePayees({
+        budgetId: params.budgetId,
+        ...body
+      });
+
+      return mergePayeesResponseSchema.parse(result);
+    }
+  );
+};
@@ -0,0 +1,35 @@
+import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import type { QuickEntryService } from '../quickEntry/quickEntryService';
+import { budgetIdParamsSchema, idempotencyKeyHeaderSchema } from '../schemas/entries';
+import { quickEntryBodySchema, quickEntryResponseSchema } from '../schemas/quickEntry';
+
+export interface QuickEntryRouteOptions {
+  apiKeyAuth: preHandlerHookHandler;
+  requestRateLimit?: preHandlerHookHandler;
+  quickEntryService: Pick<QuickEntryService, 'createQuickEntry'>;
+}
+
+export const quickEntryRoutes: FastifyPluginAsync<QuickEntryRouteOptions> = async (app, options): Promise<void> => {
+  const preHandler = options.requestRateLimit ? [options.apiKeyAuth, options.requestRateLimit] : options.apiKeyAuth;
+
+  // `::` escapes the colon so the path matches the literal `entries:quick` suffix.
+  app.post(
+    '/budgets/:budgetId/entries::quick',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const body = quickEntryBodySchema.parse(request.body);
+      const idempotencyKey = idempotencyKeyHeaderSchema.parse(request.headers['idempotency-key']);
+
+      const result = await options.quickEntryService.createQuickEntry({
+        budgetId: params.budgetId,
+        ...body,
+        ...(idempotencyKey ? { idempotencyKey } : {})
+      });
+
+      return quickEntryResponseSchema.parse(result);
+    }
+  );
+};
@@ -0,0 +1,74 @@
+import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import type { ReportService } from '../reports/reportService';
+import { budgetIdParamsSchema } from '../schemas/entries';
+import {
+  cashFlowReportResponseSchema,
+  netWorthReportResponseSchema,
+  spendingReportQuerySchema,
+  spendingReportResponseSchema,
+  timeSeriesReportQuerySchema
+} from '../schemas/reports';
+
+export interface ReportsRouteOptions {
+  apiKeyAuth: preHandlerHookHandler;
+  requestRateLimit?: preHandlerHookHandler;
+  reportService: Pick<ReportService, 'getSpendingReport' | 'getCashFlow' | 'getNetWorth'>;
+}
+
+export const reportsRoutes: FastifyPluginAsync<ReportsRouteOptions> = async (app, options): Promise<void> => {
+  const preHandler = options.requestRateLimit ? [options.apiKeyAuth, options.requestRateLimit] : options.apiKeyAuth;
+
+  app.get(
+    '/budgets/:budgetId/reports/spending',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const query = spendingReportQuerySchema.parse(request.query);
+
+      const result = await options.reportService.getSpendingReport({
+        budgetId: params.budgetId,
+        ...query
+      });
+
+      return spendingReportResponseSchema.parse(result);
+    }
+  );
+
+  app.get(
+    '/budgets/:budgetId/reports/cash-flow',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const query = timeSeriesReportQuerySchema.parse(request.query);
+
+      const result = await options.reportService.getCashFlow({
+        budgetId: params.budgetId,
+        ...query
+      });
+
+      return cashFlowReportResponseSchema.parse(result);
+    }
+  );
+
+  app.get(
+    '/budgets/:budgetId/reports/net-worth',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const query = timeSeriesReportQuerySchema.parse(request.query);
+
+      const result = await options.reportService.getNetWorth({
+        budgetId: params.budgetId,
+        ...query
+      });
+
+      return netWorthReportResponseSchema.parse(result);
+    }
+  );
+};
@@ -0,0 +1,78 @@
+import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import type { ScheduleService } from '../actual/scheduleService';
+import { budgetIdParamsSchema, entryItemSchema, idempotencyKeyHeaderSchema } from '../schemas/entries';
+import {
+  createScheduleBodySchema,
+  listSchedulesQuerySchema,
+  listSchedulesResponseSchema,
+  postScheduledEntryBodySchema,
+  scheduleIdParamsSchema,
+  scheduleItemSchema
+} from '../schemas/schedules';
+
+export interface SchedulesRouteOptions {
+  apiKeyAuth: preHandlerHookHandler;
+  requestRateLimit?: preHandlerHookHandler;
+  scheduleService: Pick<ScheduleService, 'listSchedules' | 'createSchedule' | 'postScheduledEntry'>;
+}
+
+export const schedulesRoutes: FastifyPluginAsync<SchedulesRouteOptions> = async (app, options): Promise<void> => {
+  const preHandler = options.requestRateLimit ? [options.apiKeyAuth, options.requestRateLimit] : options.apiKeyAuth;
+
+  app.get(
+    '/budgets/:budgetId/schedules',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const query = listSchedulesQuerySchema.parse(request.query);
+
+      const result = await options.scheduleService.listSchedules({
+        budgetId: params.budgetId,
+        ...query
+      });
+
+      return listSchedulesResponseSchema.parse(result);
+    }
+  );
+
+  app.post(
+    '/budgets/:budgetId/schedules',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+      const body = createScheduleBodySchema.parse(request.body);
+
+      const result = await options.scheduleService.createSchedule({
+        budgetId: params.budgetId,
+        ...body
+      });
+
+      return scheduleItemSchema.parse(result);
+    }
+  );
+
+  app.post(
+    '/budgets/:budgetId/schedules/:scheduleId/entries',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = scheduleIdParamsSchema.parse(request.params);
+      const body = postScheduledEntryBodySchema.parse(request.body ?? {});
+      const idempotencyKey = idempotencyKeyHeaderSchema.parse(request.headers['idempotency-key']);
+
+      const result = await options.scheduleService.postScheduledEntry({
+        budgetId: params.budgetId,
+        scheduleId: params.scheduleId,
+        ...body,
+        ...(idempotencyKey ? { idempotencyKey } : {})
+      });
+
+      return entryItemSchema.parse(result);
+    }
+  );
+};
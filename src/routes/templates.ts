@@ -0,0 +1,101 @@
+import type { FastifyPluginAsync, preHandlerHookHandler } from 'fastify';
+import { budgetIdParamsSchema, entryItemSchema, idempotencyKeyHeaderSchema } from '../schemas/entries';
+import {
+  applyTemplateBodySchema,
+  entryTemplateItemSchema,
+  entryTemplateSchema,
+  entryTemplatesResponseSchema,
+  templateParamsSchema
+} from '../schemas/templates';
+import type { TemplateService } from '../templates/templateService';
+
+export interface TemplatesRouteOptions {
+  apiKeyAuth: preHandlerHookHandler;
+  requestRateLimit?: preHandlerHookHandler;
+  templateService: Pick<
+    TemplateService,
+    'listTemplates' | 'getTemplate' | 'saveTemplate' | 'deleteTemplate' | 'createEntryFromTemplate'
+  >;
+}
+
+export const templatesRoutes: FastifyPluginAsync<TemplatesRouteOptions> = async (app, options): Promise<void> => {
+  const preHandler = options.requestRateLimit ? [options.apiKeyAuth, options.requestRateLimit] : options.apiKeyAuth;
+
+  app.get(
+    '/budgets/:budgetId/templates',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = budgetIdParamsSchema.parse(request.params);
+
+      const result = await options.templateService.listTemplates(params.budgetId);
+
+      return entryTemplatesResponseSchema.parse(result);
+    }
+  );
+
+  app.get(
+    '/budgets/:budgetId/templates/:name',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = templateParamsSchema.parse(request.params);
+
+      const result = await options.templateService.getTemplate(params.budgetId, params.name);
+
+      return entryTemplateItemSchema.parse(result);
+    }
+  );
+
+  app.put(
+    '/budgets/:budgetId/templates/:name',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = templateParamsSchema.parse(request.params);
+      const body = entryTemplateSchema.parse(request.body);
+
+      const result = await options.templateService.saveTemplate(params.budgetId, params.name, body);
+
+      return entryTemplateItemSchema.parse(result);
+    }
+  );
+
+  app.delete(
+    '/budgets/:budgetId/templates/:name',
+    {
+      preHandler
+    },
+    async (request, reply) => {
+      const params = templateParamsSchema.parse(request.params);
+
+      await options.templateService.deleteTemplate(params.budgetId, params.name);
+
+      return reply.status(204).send();
+    }
+  );
+
+  app.post(
+    '/budgets/:budgetId/templates/:name/entries',
+    {
+      preHandler
+    },
+    async (request) => {
+      const params = templateParamsSchema.parse(request.params);
+      const body = applyTemplateBodySchema.parse(request.body ?? {});
+      const idempotencyKey = idempotencyKeyHeaderSchema.parse(request.headers['idempotency-key']);
+
+      const result = await options.templateService.createEntryFromTemplate({
+        budgetId: params.budgetId,
+        name: params.name,
+        ...body,
+        ...(idempotencyKey ? { idempotencyKey } : {})
+      });
+
+      return entryItemSchema.parse(result);
+    }
+  );
+};
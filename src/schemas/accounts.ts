@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { dateSchema } from './entries';
+
+export const listAccountsQuerySchema = z.object({
+  asOf: dateSchema.optional()
+});
+
+export const accountItemSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  offBudget: z.boolean(),
+  closed: z.boolean(),
+  balance: z.number(),
+  balanceAsOf: z.number().optional()
+});
+
+export const accountsResponseSchema = z.array(accountItemSchema);
+
+export type ListAccountsQuery = z.infer<typeof listAccountsQuerySchema>;
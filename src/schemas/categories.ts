@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const categoryItemSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  isIncome: z.boolean(),
+  hidden: z.boolean()
+});
+
+export const categoryGroupItemSchema = categoryItemSchema.extend({
+  categories: z.array(categoryItemSchema)
+});
+
+export const categoriesResponseSchema = z.array(categoryGroupItemSchema);
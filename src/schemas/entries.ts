@@ -5,6 +5,12 @@ const DAY_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
 const MAX_QUERY_WINDOW_DAYS = 366;
 const MAX_NAME_LENGTH = 200;
 const MAX_NOTES_LENGTH = 2000;
+const MAX_SPLITS = 50;
+const MAX_BATCH_ITEMS = 100;
+const MAX_IMPORTED_ID_LENGTH = 255;
+const MAX_FILTER_VALUES = 50;
+const MAX_CLEARED_IDS = 500;
+const MAX_ENTITY_ID_LENGTH = 100;
 const IDEMPOTENCY_KEY_REGEX = /^[A-Za-z0-9._:-]+$/;
 
 function isValidIsoDate(input: string): boolean {
@@ -18,16 +24,15 @@ function isValidIsoDate(input: string): boolean {
 
 export const dateSchema = z.string().refine(isValidIsoDate, 'Date must be YYYY-MM-DD');
 
-export const flowSchema = z.enum(['income', 'expense']);
-export const listFlowSchema = z.enum(['all', 'income', 'expense']);
+export const flowSchema = z.enum(['income', 'expense', 'transfer']);
+export const listFlowSchema = z.enum(['all', 'income', 'expense', 'transfer']);
+export const signedFlowSchema = flowSchema.exclude(['transfer']);
 
-export const listEntriesQuerySchema = z.object({
-  from: dateSchema,
-  to: dateSchema,
-  flow: listFlowSchema.default('all'),
-  limit: z.coerce.number().int().min(1).max(500).default(100),
-  offset: z.coerce.number().int().min(0).default(0)
-}).superRefine((input, context) => {
+export function refineDateRange(
+  input: { from: string; to: string },
+  context: z.RefinementCtx,
+  maxDays = MAX_QUERY_WINDOW_DAYS
+): void {
   const fromMs = Date.parse(`${input.from}T00:00:00.000Z`);
   const toMs = Date.parse(`${input.to}T00:00:00.000Z`);
 
@@ -41,35 +46,267 @@ export const listEntriesQuerySchema = z.object({
   }
 
   const spanDays = Math.floor((toMs - fromMs) / DAY_IN_MILLISECONDS) + 1;
-  if (spanDays > MAX_QUERY_WINDOW_DAYS) {
+  if (spanDays > maxDays) {
     context.addIssue({
       code: z.ZodIssueCode.custom,
       path: ['to'],
-      message: `Date range must be ${MAX_QUERY_WINDOW_DAYS} days or fewer`
+      message: `Date range must be ${maxDays} days or fewer`
+    });
+  }
+}
+
+/** Accepts a repeated query param (`?account=A&account=B`) as well as a single value. */
+function multiValueQuerySchema(maxLength: number) {
+  const valueSchema = z.string().trim().min(1).max(maxLength);
+  return z
+    .union([valueSchema, z.array(valueSchema).min(1).max(MAX_FILTER_VALUES)])
+    .transform((value) => (Array.isArray(value) ? value : [value]))
+    .optional();
+}
+
+export const entrySortSchema = z.enum(['date', 'amount', 'payee']);
+export const sortOrderSchema = z.enum(['asc', 'desc']);
+export const entrySummaryGroupBySchema = z.enum(['category', 'payee', 'account', 'day', 'month']);
+
+export const listEntriesQuerySchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  flow: listFlowSchema.default('all'),
+  account: multiValueQuerySchema(MAX_NAME_LENGTH),
+  category: multiValueQuerySchema(MAX_NAME_LENGTH),
+  payee: multiValueQuerySchema(MAX_NAME_LENGTH),
+  minAmount: z.coerce.number().positive().optional(),
+  maxAmount: z.coerce.number().positive().optional(),
+  search: multiValueQuerySchema(MAX_NAME_LENGTH),
+  cleared: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  sort: entrySortSchema.default('date'),
+  order: sortOrderSchema.default('asc'),
+  cursor: z.string().min(1).max(1000).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+  summary: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  groupBy: entrySummaryGroupBySchema.optional(),
+  includeRunningBalance: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional()
+}).superRefine((input, context) => {
+  refineDateRange(input, context);
+
+  if (input.includeRunningBalance && input.account?.length !== 1) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['includeRunningBalance'],
+      message: 'includeRunningBalance requires exactly one account filter'
+    });
+  }
+
+  if (input.cursor !== undefined && input.offset > 0) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['cursor'],
+      message: 'cursor cannot be combined with offset'
+    });
+  }
+
+  if (input.minAmount !== undefined && input.maxAmount !== undefined && input.minAmount > input.maxAmount) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['minAmount'],
+      message: 'minAmount must be less than or equal to maxAmount'
     });
   }
 });
 
+export const exportFormatSchema = z.enum(['csv', 'ndjson', 'ofx']);
+
+export const exportEntriesQuerySchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  flow: listFlowSchema.default('all'),
+  format: exportFormatSchema.optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'currency must be an ISO 4217 code').default('USD')
+}).superRefine(refineDateRange);
+
 export const budgetIdParamsSchema = z.object({
   budgetId: z.string().min(1)
 });
 
-export const createEntryBodySchema = z.object({
+export const entryIdParamsSchema = budgetIdParamsSchema.extend({
+  entryId: z.string().min(1)
+});
+
+const nameSchema = z.string().trim().min(1).max(MAX_NAME_LENGTH);
+const entityIdSchema = z.string().trim().min(1).max(MAX_ENTITY_ID_LENGTH);
+
+export const suggestEntryQuerySchema = z.object({
+  payee: nameSchema,
+  amount: z.coerce.number().positive().optional(),
+  flow: signedFlowSchema.optional()
+});
+
+export const entrySplitBodySchema = z
+  .object({
+    amount: z.number().positive(),
+    category: nameSchema.optional(),
+    categoryId: entityIdSchema.optional(),
+    notes: z.string().trim().max(MAX_NOTES_LENGTH).optional()
+  })
+  .superRefine((input, context) => {
+    if ((input.category === undefined) === (input.categoryId === undefined)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['category'],
+        message: 'Provide either category or categoryId'
+      });
+    }
+  });
+
+const createEntryFieldsSchema = z.object({
   amount: z.number().positive(),
   flow: flowSchema,
   date: dateSchema,
-  payee: z.string().trim().min(1).max(MAX_NAME_LENGTH),
-  category: z.string().trim().min(1).max(MAX_NAME_LENGTH),
-  account: z.string().trim().min(1).max(MAX_NAME_LENGTH),
-  notes: z.string().trim().max(MAX_NOTES_LENGTH).optional().default('')
+  payee: nameSchema.optional(),
+  payeeId: entityIdSchema.optional(),
+  createPayee: z.boolean().optional(),
+  category: nameSchema.optional(),
+  categoryId: entityIdSchema.optional(),
+  account: nameSchema.optional(),
+  accountId: entityIdSchema.optional(),
+  fromAccount: nameSchema.optional(),
+  fromAccountId: entityIdSchema.optional(),
+  toAccount: nameSchema.optional(),
+  toAccountId: entityIdSchema.optional(),
+  notes: z.string().trim().max(MAX_NOTES_LENGTH).optional().default(''),
+  splits: z.array(entrySplitBodySchema).min(1).max(MAX_SPLITS).optional(),
+  cleared: z.boolean().optional(),
+  importedId: z.string().trim().min(1).max(MAX_IMPORTED_ID_LENGTH).optional(),
+  allowCategoryMismatch: z.boolean().optional()
 });
 
+type CreateEntryFields = z.infer<typeof createEntryFieldsSchema>;
+type ReferenceField = 'payee' | 'category' | 'account' | 'fromAccount' | 'toAccount';
+
+function refineCreateEntryFields(input: CreateEntryFields, context: z.RefinementCtx): void {
+  const has = (field: ReferenceField): boolean =>
+    input[field] !== undefined || input[`${field}Id` as keyof CreateEntryFields] !== undefined;
+  const addIssue = (field: string, message: string): void => {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+  };
+  // Each reference is given by name or by id, never both.
+  const requireReference = (field: ReferenceField, message: string): void => {
+    if (!has(field)) {
+      addIssue(field, message);
+    }
+  };
+  const forbidReference = (field: ReferenceField, message: string): void => {
+    if (has(field)) {
+      addIssue(field, message);
+    }
+  };
+  for (const field of ['payee', 'category', 'account', 'fromAccount', 'toAccount'] as const) {
+    if (input[field] !== undefined && input[`${field}Id`] !== undefined) {
+      addIssue(field, `Provide either ${field} or ${field}Id, not both`);
+    }
+  }
+  if (input.createPayee !== undefined && input.payee === undefined) {
+    addIssue('createPayee', 'createPayee requires payee');
+  }
+
+  if (input.flow === 'transfer') {
+    requireReference('fromAccount', 'fromAccount or fromAccountId is required for transfers');
+    requireReference('toAccount', 'toAccount or toAccountId is required for transfers');
+    forbidReference('account', 'account must be omitted for transfers; use fromAccount');
+    forbidReference('payee', 'payee must be omitted for transfers');
+    if (input.splits !== undefined) {
+      addIssue('splits', 'splits are not supported for transfers');
+    }
+    if (input.importedId !== undefined) {
+      addIssue('importedId', 'importedId is not supported for transfers');
+    }
+
+    const sameName = input.fromAccount !== undefined && input.fromAccount === input.toAccount;
+    const sameId = input.fromAccountId !== undefined && input.fromAccountId === input.toAccountId;
+    if (sameName || sameId) {
+      addIssue('toAccount', 'toAccount must differ from fromAccount');
+    }
+    return;
+  }
+
+  requireReference('account', 'account or accountId is required');
+  requireReference('payee', 'payee or payeeId is required');
+  forbidReference('fromAccount', 'fromAccount is only allowed for transfers');
+  forbidReference('toAccount', 'toAccount is only allowed for transfers');
+
+  // Without category or splits the service falls back to a confident category suggestion.
+  if (input.splits) {
+    forbidReference('category', 'category must be omitted when splits are provided');
+  }
+}
+
+export const createEntryBodySchema = createEntryFieldsSchema.superRefine(refineCreateEntryFields);
+
+export const updateEntryBodySchema = z
+  .object({
+    amount: z.number().positive().optional(),
+    flow: signedFlowSchema.optional(),
+    date: dateSchema.optional(),
+    payee: nameSchema.optional(),
+    payeeId: entityIdSchema.optional(),
+    createPayee: z.boolean().optional(),
+    category: nameSchema.optional(),
+    categoryId: entityIdSchema.optional(),
+    account: nameSchema.optional(),
+    accountId: entityIdSchema.optional(),
+    notes: z.string().trim().max(MAX_NOTES_LENGTH).optional(),
+    allowCategoryMismatch: z.boolean().optional()
+  })
+  .refine((input) => Object.values(input).some((value) => value !== undefined), 'At least one field must be provided')
+  .superRefine((input, context) => {
+    for (const field of ['payee', 'category', 'account'] as const) {
+      if (input[field] !== undefined && input[`${field}Id`] !== undefined) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `Provide either ${field} or ${field}Id, not both`
+        });
+      }
+    }
+    if (input.createPayee !== undefined && input.payee === undefined) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['createPayee'], message: 'createPayee requires payee' });
+    }
+  });
+
 export const idempotencyKeySchema = z.string().trim().min(1).max(128).regex(IDEMPOTENCY_KEY_REGEX);
 export const idempotencyKeyHeaderSchema = z
   .union([idempotencyKeySchema, z.array(idempotencyKeySchema).length(1)])
   .optional()
   .transform((value) => (Array.isArray(value) ? value[0] : value));
 
+export const batchEntryItemSchema = createEntryFieldsSchema
+  .extend({
+    idempotencyKey: idempotencyKeySchema.optional()
+  })
+  .superRefine(refineCreateEntryFields);
+
+export const createEntriesBatchBodySchema = z.object({
+  items: z.array(batchEntryItemSchema).min(1).max(MAX_BATCH_ITEMS)
+});
+
+export const entrySplitItemSchema = z.object({
+  id: z.string().optional(),
+  amount: z.number(),
+  category: z.string().min(1),
+  categoryId: z.string().optional(),
+  notes: z.string().optional()
+});
+
 export const entryItemSchema = z.object({
   id: z.string(),
   budgetId: z.string(),
@@ -77,21 +314,137 @@ export const entryItemSchema = z.object({
   flow: flowSchema,
   date: dateSchema,
   payee: z.string().min(1),
+  payeeId: z.string().optional(),
   category: z.string().min(1),
+  categoryId: z.string().optional(),
   account: z.string().min(1),
-  notes: z.string().optional()
+  accountId: z.string().optional(),
+  fromAccount: z.string().min(1).optional(),
+  fromAccountId: z.string().optional(),
+  toAccount: z.string().min(1).optional(),
+  toAccountId: z.string().optional(),
+  notes: z.string().optional(),
+  importedId: z.string().optional(),
+  cleared: z.boolean().optional(),
+  reconciled: z.boolean().optional(),
+  categorySuggested: z.boolean().optional(),
+  duplicate: z.boolean().optional(),
+  splits: z.array(entrySplitItemSchema).optional(),
+  runningBalance: z.number().optional()
+});
+
+const entryTotalsSchema = z.object({
+  count: z.number().int().min(0),
+  income: z.number().nonnegative(),
+  expense: z.number().nonnegative(),
+  net: z.number()
+});
+
+export const entryListSummarySchema = entryTotalsSchema.extend({
+  groupBy: entrySummaryGroupBySchema.optional(),
+  groups: z
+    .array(
+      entryTotalsSchema.extend({
+        key: z.string(),
+        id: z.string().optional()
+      })
+    )
+    .optional()
 });
 
 export const listEntriesResponseSchema = z.object({
   items: z.array(entryItemSchema),
   limit: z.number().int().min(1),
   offset: z.number().int().min(0),
-  total: z.number().int().min(0)
+  total: z.number().int().min(0),
+  nextCursor: z.string().nullable(),
+  summary: entryListSummarySchema.optional()
+});
+
+export const batchItemErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.unknown().optional()
+});
+
+export const batchEntryResultSchema = z.discriminatedUnion('status', [
+  z.object({
+    index: z.number().int().min(0),
+    status: z.literal('created'),
+    entry: entryItemSchema
+  }),
+  z.object({
+    index: z.number().int().min(0),
+    status: z.literal('duplicate'),
+    entry: entryItemSchema
+  }),
+  z.object({
+    index: z.number().int().min(0),
+    status: z.literal('failed'),
+    error: batchItemErrorSchema
+  })
+]);
+
+export const createEntriesBatchResponseSchema = z.object({
+  items: z.array(batchEntryResultSchema),
+  created: z.number().int().min(0),
+  duplicates: z.number().int().min(0),
+  failed: z.number().int().min(0)
+});
+
+export const entrySuggestionResponseSchema = z.object({
+  payee: z.string(),
+  payeeId: z.string().optional(),
+  categories: z.array(
+    z.object({
+      category: z.string(),
+      categoryId: z.string(),
+      count: z.number().int().positive(),
+      score: z.number().min(0).max(1)
+    })
+  ),
+  account: z.string().optional(),
+  accountId: z.string().optional(),
+  confident: z.boolean()
+});
+
+export const setEntriesClearedBodySchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(MAX_CLEARED_IDS),
+  cleared: z.boolean()
+});
+
+export const setEntriesClearedResponseSchema = z.object({
+  items: z.array(
+    z.discriminatedUnion('status', [
+      z.object({
+        id: z.string(),
+        status: z.literal('updated'),
+        entry: entryItemSchema
+      }),
+      z.object({
+        id: z.string(),
+        status: z.literal('failed'),
+        error: batchItemErrorSchema
+      })
+    ])
+  ),
+  updated: z.number().int().min(0),
+  failed: z.number().int().min(0)
 });
 
 export type Flow = z.infer<typeof flowSchema>;
 export type ListFlow = z.infer<typeof listFlowSchema>;
+export type EntrySort = z.infer<typeof entrySortSchema>;
+export type EntrySummaryGroupBy = z.infer<typeof entrySummaryGroupBySchema>;
+export type SortOrder = z.infer<typeof sortOrderSchema>;
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+export type SignedFlow = z.infer<typeof signedFlowSchema>;
 export type CreateEntryBody = z.infer<typeof createEntryBodySchema>;
+export type EntrySplitBody = z.infer<typeof entrySplitBodySchema>;
+export type BatchEntryItemBody = z.infer<typeof batchEntryItemSchema>;
+export type UpdateEntryBody = z.infer<typeof updateEntryBodySchema>;
+export type SetEntriesClearedBody = z.infer<typeof setEntriesClearedBodySchema>;
+export type SuggestEntryQuery = z.infer<typeof suggestEntryQuerySchema>;
 
 export function toMinorUnits(amount: number): number {
   return Math.round(amount * 100);
@@ -101,12 +454,18 @@ export function fromMinorUnits(amount: number): number {
   return Number((Math.abs(amount) / 100).toFixed(2));
 }
 
+/** Keeps the sign, for balances and net totals that are not split into amount and flow. */
+export function fromSignedMinorUnits(amount: number): number {
+  return amount < 0 ? -fromMinorUnits(amount) : fromMinorUnits(amount);
+}
+
 export function toActualSignedAmount(amount: number, flow: Flow): number {
   const minor = toMinorUnits(amount);
-  return flow === 'expense' ? -Math.abs(minor) : Math.abs(minor);
+  // Transfers are written on the source account, so money leaves it like an expense.
+  return flow === 'income' ? Math.abs(minor) : -Math.abs(minor);
 }
 
-export function fromActualSignedAmount(actualAmount: number): { amount: number; flow: Flow } {
+export function fromActualSignedAmount(actualAmount: number): { amount: number; flow: SignedFlow } {
   return {
     amount: fromMinorUnits(actualAmount),
     flow: actualAmount < 0 ? 'expense' : 'income'
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { budgetIdParamsSchema, createEntryBodySchema, entryItemSchema } from './entries';
+
+const MAX_NAME_LENGTH = 200;
+const PROFILE_NAME_REGEX = /^[A-Za-z0-9 ._-]+$/;
+const DATE_FORMAT_REGEX = /^(?:YYYY|YY|MM|M|DD|D|[^A-Za-z0-9])+$/;
+
+const dateFormatSchema = z
+  .string()
+  .regex(DATE_FORMAT_REGEX, 'dateFormat may only use YYYY, YY, MM, M, DD, D and separators');
+
+export const csvColumnRefSchema = z.union([z.string().trim().min(1).max(MAX_NAME_LENGTH), z.number().int().min(0)]);
+
+export const csvMappingProfileSchema = z
+  .object({
+    delimiter: z.string().length(1).default(','),
+    hasHeader: z.boolean().default(true),
+    skipRows: z.number().int().min(0).max(100).default(0),
+    dateColumn: csvColumnRefSchema,
+    dateFormat: dateFormatSchema.default('YYYY-MM-DD'),
+    amountColumn: csvColumnRefSchema.optional(),
+    debitColumn: csvColumnRefSchema.optional(),
+    creditColumn: csvColumnRefSchema.optional(),
+    invertAmount: z.boolean().default(false),
+    payeeColumn: csvColumnRefSchema,
+    notesColumn: csvColumnRefSchema.optional(),
+    categoryColumn: csvColumnRefSchema.optional(),
+    decimalSeparator: z.enum(['.', ',']).default('.')
+  })
+  .superRefine((input, context) => {
+    const hasAmount = input.amountColumn !== undefined;
+    const hasDebitCredit = input.debitColumn !== undefined || input.creditColumn !== undefined;
+
+    if (hasAmount === hasDebitCredit) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['amountColumn'],
+        message: 'Provide either amountColumn or debitColumn/creditColumn'
+      });
+    }
+
+    if (!input.hasHeader) {
+      for (const key of ['dateColumn', 'amountColumn', 'debitColumn', 'creditColumn', 'payeeColumn', 'notesColumn', 'categoryColumn'] as const) {
+        if (typeof input[key] === 'string') {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: 'Columns must be referenced by index when hasHeader is false'
+          });
+        }
+      }
+    }
+  });
+
+export const importProfileNameSchema = z.string().trim().min(1).max(100).regex(PROFILE_NAME_REGEX);
+
+export const importProfileParamsSchema = budgetIdParamsSchema.extend({
+  name: importProfileNameSchema
+});
+
+export const importProfileItemSchema = z.object({
+  name: z.string(),
+  mapping: csvMappingProfileSchema
+});
+
+export const importProfilesResponseSchema = z.array(importProfileItemSchema);
+
+const statementImportFieldsSchema = z.object({
+  account: z.string().trim().min(1).max(MAX_NAME_LENGTH),
+  defaultCategory: z.string().trim().min(1).max(MAX_NAME_LENGTH).optional(),
+  commit: z.boolean().default(false)
+});
+
+export const csvImportBodySchema = statementImportFieldsSchema
+  .extend({
+    csv: z.string().min(1),
+    profile: importProfileNameSchema.optional(),
+    mapping: csvMappingProfileSchema.optional()
+  })
+  .superRefine((input, context) => {
+    if ((input.profile === undefined) === (input.mapping === undefined)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['profile'],
+        message: 'Provide either profile or mapping'
+      });
+    }
+  });
+
+export const ofxImportBodySchema = statementImportFieldsSchema.extend({
+  ofx: z.string().min(1)
+});
+
+export const qifImportBodySchema = statementImportFieldsSchema.extend({
+  qif: z.string().min(1),
+  dateFormat: dateFormatSchema.default('MM/DD/YYYY'),
+  decimalSeparator: z.enum(['.', ',']).default('.')
+});
+
+export const importRowSchema = z.object({
+  line: z.number().int().min(1),
+  status: z.enum(['valid', 'invalid', 'created', 'duplicate', 'failed']),
+  input: createEntryBodySchema.optional(),
+  entry: entryItemSchema.optional(),
+  error: z
+    .object({
+      code: z.string(),
+      message: z.string(),
+      details: z.unknown().optional()
+    })
+    .optional()
+});
+
+export const importResultSchema = z.object({
+  committed: z.boolean(),
+  rows: z.array(importRowSchema),
+  valid: z.number().int().min(0),
+  invalid: z.number().int().min(0),
+  created: z.number().int().min(0),
+  duplicates: z.number().int().min(0),
+  failed: z.number().int().min(0)
+});
+
+export type CsvColumnRef = z.infer<typeof csvColumnRefSchema>;
+export type CsvMappingProfile = z.infer<typeof csvMappingProfileSchema>;
+export type CsvImportBody = z.infer<typeof csvImportBodySchema>;
+export type OfxImportBody = z.infer<typeof ofxImportBodySchema>;
+export type QifImportBody = z.infer<typeof qifImportBodySchema>;
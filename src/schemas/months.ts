@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { budgetIdParamsSchema, signedFlowSchema } from './entries';
+
+const MONTH_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+const MAX_ENTITY_ID_LENGTH = 100;
+const MAX_BUDGET_AMOUNT = 1_000_000_000;
+
+export const monthSchema = z.string().regex(MONTH_REGEX, 'Month must be YYYY-MM');
+
+export const monthParamsSchema = budgetIdParamsSchema.extend({
+  month: monthSchema
+});
+
+export const monthCategoryParamsSchema = monthParamsSchema.extend({
+  categoryId: z.string().trim().min(1).max(MAX_ENTITY_ID_LENGTH)
+});
+
+export const setBudgetAmountBodySchema = z.object({
+  budgeted: z.number().nonnegative().max(MAX_BUDGET_AMOUNT)
+});
+
+const activitySchema = z.object({
+  amount: z.number().nonnegative(),
+  flow: signedFlowSchema
+});
+
+export const budgetMonthCategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  isIncome: z.boolean(),
+  hidden: z.boolean(),
+  budgeted: z.number(),
+  activity: activitySchema,
+  balance: z.number(),
+  overspent: z.boolean(),
+  carryover: z.boolean()
+});
+
+export const budgetMonthGroupSchema = budgetMonthCategorySchema.omit({ carryover: true }).extend({
+  categories: z.array(budgetMonthCategorySchema)
+});
+
+export const budgetMonthResponseSchema = z.object({
+  month: monthSchema,
+  toBudget: z.number().optional(),
+  overbudgeted: z.boolean().optional(),
+  totalBudgeted: z.number().nonnegative(),
+  totalIncome: z.number().nonnegative(),
+  totalSpent: z.number().nonnegative(),
+  groups: z.array(budgetMonthGroupSchema)
+});
+
+export type SetBudgetAmountBody = z.infer<typeof setBudgetAmountBodySchema>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+const MAX_ENTITY_ID_LENGTH = 100;
+const MAX_MERGE_PAYEES = 50;
+
+const payeeIdSchema = z.string().trim().min(1).max(MAX_ENTITY_ID_LENGTH);
+
+export const payeeItemSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  transferAccountId: z.string().optional()
+});
+
+export const payeesResponseSchema = z.array(payeeItemSchema);
+
+export const mergePayeesBodySchema = z
+  .object({
+    targetId: payeeIdSchema,
+    mergeIds: z.array(payeeIdSchema).min(1).max(MAX_MERGE_PAYEES)
+  })
+  .refine((input) => !input.mergeIds.includes(input.targetId), {
+    message: 'mergeIds must not include targetId',
+    path: ['mergeIds']
+  });
+
+export const mergePayeesResponseSchema = z.object({
+  payee: payeeItemSchema,
+  merged: z.array(z.string())
+});
+
+export type MergePayeesBody = z.infer<typeof mergePayeesBodySchema>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { createEntryBodySchema, dateSchema, entryItemSchema, flowSchema } from './entries';
+
+const MAX_TEXT_LENGTH = 500;
+
+export const quickEntryBodySchema = z.object({
+  text: z.string().trim().min(1).max(MAX_TEXT_LENGTH),
+  today: dateSchema.optional(),
+  preview: z.boolean().default(false)
+});
+
+export const parsedQuickEntrySchema = z.object({
+  amount: z.number().positive().optional(),
+  flow: flowSchema,
+  date: dateSchema,
+  payee: z.string().optional(),
+  account: z.string().optional(),
+  toAccount: z.string().optional(),
+  category: z.string().optional(),
+  description: z.string().optional()
+});
+
+export const quickEntryResponseSchema = z.object({
+  preview: z.boolean(),
+  parsed: parsedQuickEntrySchema,
+  input: createEntryBodySchema,
+  categorySuggested: z.boolean(),
+  entry: entryItemSchema.optional()
+});
+
+export type QuickEntryBody = z.infer<typeof quickEntryBodySchema>;
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { dateSchema, refineDateRange, signedFlowSchema } from './entries';
+
+// Five years, so yearly reports can compare several full years.
+const MAX_REPORT_WINDOW_DAYS = 1830;
+
+export const reportGroupBySchema = z.enum(['category', 'categoryGroup', 'payee', 'account']);
+export const reportIntervalSchema = z.enum(['week', 'month', 'year']);
+const monthStartDaySchema = z.coerce.number().int().min(1).max(28);
+
+export const spendingReportQuerySchema = z
+  .object({
+    from: dateSchema,
+    to: dateSchema,
+    groupBy: reportGroupBySchema.default('category'),
+    interval: reportIntervalSchema.default('month'),
+    flow: signedFlowSchema.default('expense'),
+    monthStartDay: monthStartDaySchema.optional()
+  })
+  .superRefine((input, context) => refineDateRange(input, context, MAX_REPORT_WINDOW_DAYS));
+
+export const timeSeriesReportQuerySchema = z
+  .object({
+    from: dateSchema,
+    to: dateSchema,
+    monthStartDay: monthStartDaySchema.optional()
+  })
+  .superRefine((input, context) => refineDateRange(input, context, MAX_REPORT_WINDOW_DAYS));
+
+export const reportBucketSchema = z.object({
+  key: z.string(),
+  start: dateSchema,
+  end: dateSchema
+});
+
+export const reportSeriesSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  values: z.array(z.number()),
+  total: z.number()
+});
+
+export const spendingReportResponseSchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  groupBy: reportGroupBySchema,
+  interval: reportIntervalSchema,
+  flow: signedFlowSchema,
+  buckets: z.array(reportBucketSchema),
+  series: z.array(reportSeriesSchema),
+  totals: z.array(z.number()),
+  total: z.number()
+});
+
+export const cashFlowReportResponseSchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  monthStartDay: z.number().int(),
+  buckets: z.array(reportBucketSchema),
+  income: z.array(z.number()),
+  expense: z.array(z.number()),
+  net: z.array(z.number()),
+  totals: z.object({
+    income: z.number(),
+    expense: z.number(),
+    net: z.number()
+  })
+});
+
+export const netWorthReportResponseSchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  monthStartDay: z.number().int(),
+  buckets: z.array(reportBucketSchema),
+  assets: z.array(z.number()),
+  liabilities: z.array(z.number()),
+  netWorth: z.array(z.number()),
+  accounts: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      offBudget: z.boolean(),
+      closed: z.boolean(),
+      values: z.array(z.number())
+    })
+  )
+});
+
+export type SpendingReportQuery = z.infer<typeof spendingReportQuerySchema>;
+export type TimeSeriesReportQuery = z.infer<typeof timeSeriesReportQuerySchema>;
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { budgetIdParamsSchema, dateSchema, flowSchema } from './entries';
+
+const MAX_NAME_LENGTH = 200;
+const MAX_NOTES_LENGTH = 2000;
+const MAX_ENTITY_ID_LENGTH = 100;
+const MAX_INTERVAL = 365;
+const MAX_OCCURRENCES = 1000;
+
+const nameSchema = z.string().trim().min(1).max(MAX_NAME_LENGTH);
+const entityIdSchema = z.string().trim().min(1).max(MAX_ENTITY_ID_LENGTH);
+
+const recurrenceFrequencySchema = z.enum(['daily', 'weekly', 'monthly', 'yearly']);
+const recurrenceEndModeSchema = z.enum(['never', 'after_n_occurrences', 'on_date']);
+const weekendSolveModeSchema = z.enum(['before', 'after']);
+
+export const recurrenceSchema = z
+  .object({
+    frequency: recurrenceFrequencySchema,
+    interval: z.number().int().min(1).max(MAX_INTERVAL).default(1),
+    start: dateSchema,
+    endMode: recurrenceEndModeSchema.default('never'),
+    endOccurrences: z.number().int().min(1).max(MAX_OCCURRENCES).optional(),
+    endDate: dateSchema.optional(),
+    skipWeekend: z.boolean().default(false),
+    weekendSolveMode: weekendSolveModeSchema.default('after')
+  })
+  .superRefine((input, context) => {
+    if (input.endMode === 'after_n_occurrences' && input.endOccurrences === undefined) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['endOccurrences'],
+        message: 'endOccurrences is required when endMode is after_n_occurrences'
+      });
+    }
+    if (input.endMode === 'on_date' && (input.endDate === undefined || input.endDate < input.start)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['endDate'],
+        message: 'endDate on or after start is required when endMode is on_date'
+      });
+    }
+  });
+
+export const scheduleIdParamsSchema = budgetIdParamsSchema.extend({
+  scheduleId: z.string().min(1)
+});
+
+export const listSchedulesQuerySchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional()
+});
+
+export const createScheduleBodySchema = z
+  .object({
+    name: nameSchema.optional(),
+    amount: z.number().positive(),
+    flow: flowSchema,
+    payee: nameSchema.optional(),
+    payeeId: entityIdSchema.optional(),
+    createPayee: z.boolean().optional(),
+    account: nameSchema.optional(),
+    accountId: entityIdSchema.optional(),
+    fromAccount: nameSchema.optional(),
+    fromAccountId: entityIdSchema.optional(),
+    toAccount: nameSchema.optional(),
+    toAccountId: entityIdSchema.optional(),
+    recurrence: recurrenceSchema
+  })
+  .superRefine((input, context) => {
+    type ReferenceField = 'payee' | 'account' | 'fromAccount' | 'toAccount';
+    const has = (field: ReferenceField): boolean => input[field] !== undefined || input[`${field}Id`] !== undefined;
+    const addIssue = (field: string, message: string): void => {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+    };
+
+    for (const field of ['payee', 'account', 'fromAccount', 'toAccount'] as const) {
+      if (input[field] !== undefined && input[`${field}Id`] !== undefined) {
+        addIssue(field, `Provide either ${field} or ${field}Id, not both`);
+      }
+    }
+    if (input.createPayee !== undefined && input.payee === undefined) {
+      addIssue('createPayee', 'createPayee requires payee');
+    }
+
+    if (input.flow === 'transfer') {
+      if (!has('fromAccount') || !has('toAccount')) {
+        addIssue('fromAccount', 'fromAccount and toAccount (or their ids) are required for transfers');
+      }
+      if (has('account') || has('payee')) {
+        addIssue('account', 'account and payee must be omitted for transfers');
+      }
+      return;
+    }
+
+    if (!has('account')) {
+      addIssue('account', 'account or accountId is required');
+    }
+    if (!has('payee')) {
+      addIssue('payee', 'payee or payeeId is required');
+    }
+    if (has('fromAccount') || has('toAccount')) {
+      addIssue('fromAccount', 'fromAccount and toAccount are only allowed for transfers');
+    }
+  });
+
+export const postScheduledEntryBodySchema = z
+  .object({
+    date: dateSchema.optional(),
+    amount: z.number().positive().optional(),
+    category: nameSchema.optional(),
+    categoryId: entityIdSchema.optional(),
+    notes: z.string().trim().max(MAX_NOTES_LENGTH).optional(),
+    cleared: z.boolean().optional()
+  })
+  .refine((input) => input.category === undefined || input.categoryId === undefined, {
+    message: 'Provide either category or categoryId, not both',
+    path: ['category']
+  });
+
+export const scheduleItemSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  amount: z.number().positive().optional(),
+  flow: flowSchema,
+  payee: z.string().optional(),
+  payeeId: z.string().optional(),
+  account: z.string().optional(),
+  accountId: z.string().optional(),
+  fromAccount: z.string().optional(),
+  toAccount: z.string().optional(),
+  recurrence: z
+    .object({
+      frequency: recurrenceFrequencySchema,
+      interval: z.number().int().min(1),
+      start: z.string(),
+      endMode: recurrenceEndModeSchema,
+      endOccurrences: z.number().int().optional(),
+      endDate: z.string().optional(),
+      skipWeekend: z.boolean(),
+      weekendSolveMode: weekendSolveModeSchema
+    })
+    .optional(),
+  date: z.string().optional(),
+  nextDate: z.string().optional(),
+  completed: z.boolean(),
+  postsTransaction: z.boolean(),
+  upcoming: z.array(z.string())
+});
+
+export const listSchedulesResponseSchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  items: z.array(scheduleItemSchema)
+});
+
+export type ListSchedulesQuery = z.infer<typeof listSchedulesQuerySchema>;
+export type CreateScheduleBody = z.infer<typeof createScheduleBodySchema>;
+export type PostScheduledEntryBody = z.infer<typeof postScheduledEntryBodySchema>;
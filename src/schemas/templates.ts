@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { budgetIdParamsSchema, dateSchema, flowSchema } from './entries';
+
+const MAX_NAME_LENGTH = 200;
+const MAX_NOTES_LENGTH = 2000;
+const TEMPLATE_NAME_REGEX = /^[A-Za-z0-9 ._-]+$/;
+
+const nameSchema = z.string().trim().min(1).max(MAX_NAME_LENGTH);
+
+export const templateNameSchema = z.string().trim().min(1).max(100).regex(TEMPLATE_NAME_REGEX);
+
+export const templateParamsSchema = budgetIdParamsSchema.extend({
+  name: templateNameSchema
+});
+
+export const entryTemplateSchema = z
+  .object({
+    flow: flowSchema.default('expense'),
+    amount: z.number().positive().optional(),
+    payee: nameSchema.optional(),
+    category: nameSchema.optional(),
+    account: nameSchema.optional(),
+    fromAccount: nameSchema.optional(),
+    toAccount: nameSchema.optional(),
+    notes: z.string().trim().max(MAX_NOTES_LENGTH).optional()
+  })
+  .superRefine((input, context) => {
+    const addIssue = (field: string, message: string): void => {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+    };
+
+    if (input.flow === 'transfer') {
+      if (!input.fromAccount || !input.toAccount) {
+        addIssue('fromAccount', 'fromAccount and toAccount are required for transfer templates');
+      }
+      if (input.account || input.payee) {
+        addIssue('account', 'account and payee must be omitted for transfer templates');
+      }
+      return;
+    }
+
+    if (!input.account || !input.payee) {
+      addIssue('account', 'account and payee are required');
+    }
+    if (input.fromAccount || input.toAccount) {
+      addIssue('fromAccount', 'fromAccount and toAccount are only allowed for transfer templates');
+    }
+  });
+
+export const staleReferenceSchema = z.object({
+  field: z.enum(['account', 'category', 'fromAccount', 'toAccount']),
+  name: z.string(),
+  suggestions: z.array(z.object({ id: z.string(), name: z.string() }))
+});
+
+export const entryTemplateItemSchema = z.object({
+  name: z.string(),
+  template: entryTemplateSchema,
+  staleReferences: z.array(staleReferenceSchema).optional()
+});
+
+export const entryTemplatesResponseSchema = z.array(entryTemplateItemSchema);
+
+export const applyTemplateBodySchema = z.object({
+  amount: z.number().positive().optional(),
+  date: dateSchema.optional(),
+  payee: nameSchema.optional(),
+  category: nameSchema.optional(),
+  account: nameSchema.optional(),
+  notes: z.string().trim().max(MAX_NOTES_LENGTH).optional(),
+  cleared: z.boolean().optional()
+});
+
+export type EntryTemplate = z.infer<typeof entryTemplateSchema>;
+export type ApplyTemplateBody = z.infer<typeof applyTemplateBodySchema>;
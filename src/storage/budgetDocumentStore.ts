@@ -0,0 +1,147 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { StorageError } from '../errors';
+
+type BudgetDocuments<T> = Map<string, Map<string, T>>;
+
+/**
+ * Named documents scoped per budget (import profiles, templates, ...). When a data directory is
+ * configured each collection is persisted as one JSON file; otherwise documents are process-local.
+ */
+export class BudgetDocumentStore<T> {
+  private documents: BudgetDocuments<T> | null = null;
+  private loadPromise: Promise<BudgetDocuments<T>> | null = null;
+  private writeTail: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly collection: string,
+    private readonly dataDir?: string
+  ) {}
+
+  private get filePath(): string | undefined {
+    return this.dataDir ? path.join(this.dataDir, `${this.collection}.json`) : undefined;
+  }
+
+  private async load(): Promise<BudgetDocuments<T>> {
+    if (this.documents) {
+      return this.documents;
+    }
+
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromDisk().catch((error: unknown) => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+
+    const loaded = await this.loadPromise;
+    this.documents ??= loaded;
+    return this.documents;
+  }
+
+  private async readFromDisk(): Promise<BudgetDocuments<T>> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return new Map();
+    }
+
+    try {
+      const raw = await readFile(filePath, 'utf8');
+      const parsed = JSON.parse(raw) as unknown;
+      const documents: BudgetDocuments<T> = new Map();
+      if (parsed && typeof parsed === 'object') {
+        for (const [budgetId, items] of Object.entries(parsed as Record<string, unknown>)) {
+          if (items && typeof items === 'object') {
+            documents.set(budgetId, new Map(Object.entries(items as Record<string, T>)));
+          }
+        }
+      }
+      return documents;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw new StorageError(`Failed to read ${this.collection} store`, error);
+    }
+  }
+
+  private async persist(documents: BudgetDocuments<T>): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return;
+    }
+
+    const snapshot = JSON.stringify(
+      Object.fromEntries([...documents.entries()].map(([budgetId, items]) => [budgetId, Object.fromEntries(items)])),
+      null,
+      2
+    );
+
+    try {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, snapshot, 'utf8');
+      await rename(tempPath, filePath);
+    } catch (error) {
+      throw new StorageError(`Failed to write ${this.collection} store`, error);
+    }
+  }
+
+  /**
+   * Runs writes one at a time against the current documents. The change builds a new map, which replaces
+   * the in-memory documents only once it is on disk, so a failed write leaves reads unchanged.
+   */
+  private async update(change: (documents: BudgetDocuments<T>) => BudgetDocuments<T> | null): Promise<boolean> {
+    const current = this.writeTail.then(async () => {
+      const next = change(await this.load());
+      if (!next) {
+        return false;
+      }
+
+      await this.persist(next);
+      this.documents = next;
+      return true;
+    });
+    this.writeTail = current.then(
+      () => undefined,
+      () => undefined
+    );
+    return current;
+  }
+
+  async list(budgetId: string): Promise<Array<{ name: string; value: T }>> {
+    const documents = await this.load();
+    return [...(documents.get(budgetId)?.entries() ?? [])]
+      .map(([name, value]) => ({ name, value }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(budgetId: string, name: string): Promise<T | undefined> {
+    const documents = await this.load();
+    return documents.get(budgetId)?.get(name);
+  }
+
+  async put(budgetId: string, name: string, value: T): Promise<void> {
+    await this.update((documents) => {
+      const budgetDocuments = new Map(documents.get(budgetId)).set(name, value);
+      return new Map(documents).set(budgetId, budgetDocuments);
+    });
+  }
+
+  async delete(budgetId: string, name: string): Promise<boolean> {
+    return this.update((documents) => {
+      const budgetDocuments = new Map(documents.get(budgetId));
+      if (!budgetDocuments.delete(name)) {
+        return null;
+      }
+
+      const next = new Map(documents);
+      if (budgetDocuments.size === 0) {
+        next.delete(budgetId);
+      } else {
+        next.set(budgetId, budgetDocuments);
+      }
+      return next;
+    });
+  }
+}
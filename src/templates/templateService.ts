@@ -0,0 +1,115 @@
+import type { EntryResponseItem, EntryService, StaleReference } from '../actual/entryService';
+import { NotFoundError, ValidationError } from '../errors';
+import { createEntryBodySchema } from '../schemas/entries';
+import type { ApplyTemplateBody, EntryTemplate } from '../schemas/templates';
+import type { BudgetDocumentStore } from '../storage/budgetDocumentStore';
+
+export interface EntryTemplateItem {
+  name: string;
+  template: EntryTemplate;
+  staleReferences?: StaleReference[];
+}
+
+export interface ApplyTemplateInput extends ApplyTemplateBody {
+  budgetId: string;
+  name: string;
+  idempotencyKey?: string;
+}
+
+export class TemplateService {
+  constructor(
+    private readonly entryService: Pick<EntryService, 'findStaleReferences' | 'createEntry'>,
+    private readonly budgetService: {
+      assertBudgetAccessible(budgetId: string): Promise<void>;
+    },
+    private readonly templateStore: BudgetDocumentStore<EntryTemplate>
+  ) {}
+
+  async listTemplates(budgetId: string): Promise<EntryTemplateItem[]> {
+    await this.budgetService.assertBudgetAccessible(budgetId);
+    const templates = await this.templateStore.list(budgetId);
+    return templates.map(({ name, value }) => ({ name, template: value }));
+  }
+
+  /** Returns the template together with the names it holds that no longer exist in the budget. */
+  async getTemplate(budgetId: string, name: string): Promise<EntryTemplateItem> {
+    const template = await this.loadTemplate(budgetId, name);
+    const staleReferences = await this.entryService.findStaleReferences({
+      budgetId,
+      account: template.account,
+      category: template.category,
+      fromAccount: template.fromAccount,
+      toAccount: template.toAccount
+    });
+    return { name, template, staleReferences };
+  }
+
+  async saveTemplate(budgetId: string, name: string, template: EntryTemplate): Promise<EntryTemplateItem> {
+    await this.budgetService.assertBudgetAccessible(budgetId);
+    await this.templateStore.put(budgetId, name, template);
+    return { name, template };
+  }
+
+  async deleteTemplate(budgetId: string, name: string): Promise<void> {
+    await this.budgetService.assertBudgetAccessible(budgetId);
+    const deleted = await this.templateStore.delete(budgetId, name);
+    if (!deleted) {
+      throw new NotFoundError(`Template not found: ${name}`);
+    }
+  }
+
+  /**
+   * Creates an entry from a template, with request fields overriding the stored ones and the date
+   * defaulting to the server's UTC date. Account and category names still taken from the template
+   * must exist in the budget; otherwise the request fails with the stale names and suggestions.
+   * The check runs in the same locked session as the write.
+   */
+  async createEntryFromTemplate(input: ApplyTemplateInput): Promise<EntryResponseItem> {
+    const template = await this.loadTemplate(input.budgetId, input.name);
+    const amount = input.amount ?? template.amount;
+    if (amount === undefined) {
+      throw new ValidationError('amount is required; the template has no default amount');
+    }
+
+    const body = createEntryBodySchema.parse({
+      flow: template.flow,
+      amount,
+      date: input.date ?? new Date().toISOString().slice(0, 10),
+      payee: input.payee ?? template.payee,
+      category: input.category ?? template.category,
+      account: input.account ?? template.account,
+      fromAccount: template.fromAccount,
+      toAccount: template.toAccount,
+      notes: input.notes ?? template.notes,
+      cleared: input.cleared
+    });
+
+    return this.entryService.createEntry(
+      {
+        budgetId: input.budgetId,
+        ...body,
+        ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {})
+      },
+      {
+        staleReferenceCheck: {
+          names: {
+            account: input.account === undefined ? template.account : undefined,
+            category: input.category === undefined ? template.category : undefined,
+            fromAccount: template.fromAccount,
+            toAccount: template.toAccount
+          },
+          message: `Template ${input.name} references names missing from the budget`
+        }
+      }
+    );
+  }
+
+  private async loadTemplate(budgetId: string, name: string): Promise<EntryTemplate> {
+    await this.budgetService.assertBudgetAccessible(budgetId);
+    const template = await this.templateStore.get(budgetId, name);
+    if (!template) {
+      throw new NotFoundError(`Template not found: ${name}`);
+    }
+    return template;
+  }
+}
@@ -0,0 +1,104 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import { AccountService } from '../src/actual/accountService';
+import type { ActualBudgetSession, ActualClientFactory } from '../src/actual/clientFactory';
+import { buildApp } from '../src/app';
+import { makeConfig, makeDependencies } from './helpers';
+
+function makeSession(): ActualBudgetSession {
+  const balances: Record<string, number> = { acc_old: 0, acc_checking: 152050, acc_visa: -4599 };
+  return {
+    sync: vi.fn().mockResolvedValue(undefined),
+    getAccounts: vi.fn().mockResolvedValue([
+      { id: 'acc_old', name: 'Old Savings', offBudget: false, closed: true },
+      { id: 'acc_checking', name: 'Checking', offBudget: false, closed: false },
+      { id: 'acc_visa', name: 'Visa', offBudget: true, closed: false }
+    ]),
+    getAccountBalance: vi
+      .fn()
+      .mockImplementation(async (id: string, asOf?: string) => (balances[id] ?? 0) - (asOf ? 10000 : 0)),
+    getCategories: vi.fn().mockResolvedValue([]),
+    getCategoryGroups: vi.fn().mockResolvedValue([]),
+    getBudgetMonth: vi.fn().mockResolvedValue(null),
+    setBudgetAmount: vi.fn().mockResolvedValue(undefined),
+    getPayees: vi.fn().mockResolvedValue([]),
+    createPayee: vi.fn(),
+    mergePayees: vi.fn(),
+    listTransactions: vi.fn().mockResolvedValue([]),
+    createTransaction: vi.fn(),
+    getTransaction: vi.fn().mockResolvedValue(null),
+    findTransactionByImportedId: vi.fn().mockResolvedValue(null),
+    updateTransaction: vi.fn(),
+    deleteTransaction: vi.fn(),
+    getSchedules: vi.fn(),
+    createSchedule: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+function makeService(session: ActualBudgetSession): AccountService {
+  const factory: ActualClientFactory = {
+    listBudgets: async () => [{ id: 'budget_abc', name: 'Main Budget' }],
+    withBudget: async <T>(_budgetId: string, fn: (s: ActualBudgetSession) => Promise<T>) => fn(session),
+    ping: async () => undefined,
+    shutdown: async () => undefined
+  };
+
+  return new AccountService(factory, { assertBudgetAccessible: vi.fn().mockResolvedValue(undefined) });
+}
+
+describe('AccountService', () => {
+  it('lists open accounts before closed ones with decimal balances', async () => {
+    const session = makeSession();
+    const service = makeService(session);
+
+    const result = await service.listAccounts({ budgetId: 'budget_abc' });
+
+    expect(result).toEqual([
+      { id: 'acc_checking', name: 'Checking', offBudget: false, closed: false, balance: 1520.5 },
+      { id: 'acc_visa', name: 'Visa', offBudget: true, closed: false, balance: -45.99 },
+      { id: 'acc_old', name: 'Old Savings', offBudget: false, closed: true, balance: 0 }
+    ]);
+    expect(session.getAccountBalance).toHaveBeenCalledTimes(3);
+  });
+
+  it('adds the balance as of a date when asked', async () => {
+    const session = makeSession();
+    const service = makeService(session);
+
+    const result = await service.listAccounts({ budgetId: 'budget_abc', asOf: '2026-01-31' });
+
+    expect(result[0]).toMatchObject({ id: 'acc_checking', balance: 1520.5, balanceAsOf: 1420.5 });
+    expect(session.getAccountBalance).toHaveBeenCalledWith('acc_checking', '2026-01-31');
+  });
+});
+
+describe('accounts routes', () => {
+  it('validates asOf and returns the account list', async () => {
+    const config = makeConfig();
+    const accountService = {
+      listAccounts: vi
+        .fn()
+        .mockResolvedValue([{ id: 'acc_checking', name: 'Checking', offBudget: false, closed: false, balance: 10 }])
+    };
+    const app = buildApp(config, makeDependencies({ accountService }));
+
+    await app.ready();
+
+    const badDate = await request(app.server)
+      .get('/budgets/budget_abc/accounts?asOf=2026-02-30')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(badDate.status).toBe(400);
+
+    const listed = await request(app.server)
+      .get('/budgets/budget_abc/accounts?asOf=2026-01-31')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(listed.status).toBe(200);
+    expect(listed.body).toEqual([
+      { id: 'acc_checking', name: 'Checking', offBudget: false, closed: false, balance: 10 }
+    ]);
+    expect(accountService.listAccounts).toHaveBeenCalledWith({ budgetId: 'budget_abc', asOf: '2026-01-31' });
+
+    await app.close();
+  });
+});
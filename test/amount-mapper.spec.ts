@@ -10,6 +10,10 @@ describe('amount sign mapper', () => {
     expect(toActualSignedAmount(12.34, 'income')).toBe(1234);
   });
 
+  it('maps transfer API amount to negative Actual amount on the source account', () => {
+    expect(toActualSignedAmount(12.34, 'transfer')).toBe(-1234);
+  });
+
   it('maps Actual signed amount back to API DTO', () => {
     expect(fromActualSignedAmount(-1234)).toEqual({ amount: 12.34, flow: 'expense' });
     expect(fromActualSignedAmount(1234)).toEqual({ amount: 12.34, flow: 'income' });
@@ -13,7 +13,58 @@ describe('API key auth', () => {
     },
     entryService: {
       listEntries: vi.fn(),
-      createEntry: vi.fn()
+      createEntry: vi.fn(),
+      getEntry: vi.fn(),
+      updateEntry: vi.fn(),
+      deleteEntry: vi.fn(),
+      createEntriesBatch: vi.fn(),
+      exportEntries: vi.fn(),
+      setEntriesCleared: vi.fn(),
+      suggestEntry: vi.fn()
+    },
+    importService: {
+      listProfiles: vi.fn(),
+      saveProfile: vi.fn(),
+      deleteProfile: vi.fn(),
+      importCsv: vi.fn(),
+      importOfx: vi.fn(),
+      importQif: vi.fn()
+    },
+    payeeService: {
+      listPayees: vi.fn(),
+      mergePayees: vi.fn()
+    },
+    quickEntryService: {
+      createQuickEntry: vi.fn()
+    },
+    templateService: {
+      listTemplates: vi.fn(),
+      getTemplate: vi.fn(),
+      saveTemplate: vi.fn(),
+      deleteTemplate: vi.fn(),
+      createEntryFromTemplate: vi.fn()
+    },
+    scheduleService: {
+      listSchedules: vi.fn(),
+      createSchedule: vi.fn(),
+      postScheduledEntry: vi.fn()
+    },
+    accountService: {
+      listAccounts: vi.fn()
+    },
+    categoryService: {
+      listCategories: vi.fn()
+    },
+    budgetMonthService: {
+      getBudgetMonth: vi.fn(),
+      setBudgetAmount: vi.fn(),
+      copyPreviousMonth: vi.fn(),
+      applyAverage: vi.fn()
+    },
+    reportService: {
+      getSpendingReport: vi.fn(),
+      getCashFlow: vi.fn(),
+      getNetWorth: vi.fn()
     }
   };
 
@@ -24,6 +75,7 @@ describe('API key auth', () => {
     await app.close();
     config = makeConfig();
     app = buildApp(config, dependencies);
+    await app.ready();
   });
 
   afterEach(async () => {
@@ -85,6 +137,7 @@ describe('API key auth', () => {
       authBlockMs: 120_000
     });
     app = buildApp(config, dependencies);
+    await app.ready();
 
     const first = await request(app.server)
       .get('/budgets')
@@ -106,6 +159,7 @@ describe('API key auth', () => {
       authBlockMs: 120_000
     });
     app = buildApp(config, dependencies);
+    await app.ready();
 
     const firstClientAttempt = await request(app.server)
       .get('/budgets')
@@ -0,0 +1,60 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { StorageError } from '../src/errors';
+import { BudgetDocumentStore } from '../src/storage/budgetDocumentStore';
+
+describe('BudgetDocumentStore', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'entryserver-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('persists documents and keeps concurrent writes', async () => {
+    const store = new BudgetDocumentStore<{ amount: number }>('entry-templates', dataDir);
+
+    await Promise.all([
+      store.put('budget_abc', 'coffee', { amount: 3.5 }),
+      store.put('budget_abc', 'lunch', { amount: 12 })
+    ]);
+
+    const reopened = new BudgetDocumentStore<{ amount: number }>('entry-templates', dataDir);
+    expect(await reopened.list('budget_abc')).toEqual([
+      { name: 'coffee', value: { amount: 3.5 } },
+      { name: 'lunch', value: { amount: 12 } }
+    ]);
+  });
+
+  it('retries loading after a failed read', async () => {
+    const filePath = path.join(dataDir, 'entry-templates.json');
+    await writeFile(filePath, '{"budget_abc": {"coffee"', 'utf8');
+    const store = new BudgetDocumentStore<{ amount: number }>('entry-templates', dataDir);
+
+    const failed = store.get('budget_abc', 'coffee');
+    await expect(failed).rejects.toBeInstanceOf(StorageError);
+    await expect(failed).rejects.toMatchObject({ statusCode: 500, code: 'storage_error' });
+
+    await writeFile(filePath, JSON.stringify({ budget_abc: { coffee: { amount: 3.5 } } }), 'utf8');
+
+    expect(await store.get('budget_abc', 'coffee')).toEqual({ amount: 3.5 });
+  });
+
+  it('keeps the previous documents when a write fails', async () => {
+    const filePath = path.join(dataDir, 'entry-templates.json');
+    const store = new BudgetDocumentStore<{ amount: number }>('entry-templates', dataDir);
+    await store.put('budget_abc', 'coffee', { amount: 3.5 });
+    await mkdir(`${filePath}.${process.pid}.tmp`);
+
+    await expect(store.put('budget_abc', 'lunch', { amount: 12 })).rejects.toBeInstanceOf(StorageError);
+    await expect(store.delete('budget_abc', 'coffee')).rejects.toBeInstanceOf(StorageError);
+
+    expect(await store.list('budget_abc')).toEqual([{ name: 'coffee', value: { amount: 3.5 } }]);
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual({ budget_abc: { coffee: { amount: 3.5 } } });
+  });
+});
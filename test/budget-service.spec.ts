@@ -14,7 +14,7 @@ describe('BudgetService', () => {
         { id: 'budget_allowed', name: 'Allowed Name From Actual' },
         { id: 'budget_denied', name: 'Denied' }
       ]),
-      withBudget: vi.fn(async () => undefined),
+      withBudget: vi.fn(),
       ping: vi.fn(async () => undefined),
       shutdown: vi.fn(async () => undefined)
     });
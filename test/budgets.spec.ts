@@ -1,27 +1,22 @@
 import request from 'supertest';
 import { describe, expect, it, vi } from 'vitest';
 import { buildApp } from '../src/app';
-import { makeConfig } from './helpers';
+import { makeConfig, makeDependencies } from './helpers';
 
 describe('GET /budgets', () => {
   it('returns budgets visible to service account', async () => {
     const config = makeConfig();
 
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
+    const app = buildApp(config, makeDependencies({
       budgetService: {
         listBudgets: vi.fn().mockResolvedValue([
           { id: 'budget_abc', name: 'Main Budget' },
           { id: 'budget_xyz', name: 'Trips' }
         ])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
       }
-    });
+    }));
+
+    await app.ready();
 
     const response = await request(app.server)
       .get('/budgets')
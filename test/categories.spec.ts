@@ -0,0 +1,100 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import { CategoryService } from '../src/actual/categoryService';
+import type { ActualBudgetSession, ActualClientFactory } from '../src/actual/clientFactory';
+import { buildApp } from '../src/app';
+import { makeConfig, makeDependencies } from './helpers';
+
+function makeSession(): ActualBudgetSession {
+  return {
+    sync: vi.fn().mockResolvedValue(undefined),
+    getAccounts: vi.fn().mockResolvedValue([]),
+    getAccountBalance: vi.fn().mockResolvedValue(0),
+    getCategories: vi.fn().mockResolvedValue([
+      { id: 'cat_groceries', name: 'Groceries', groupId: 'grp_food', isIncome: false, hidden: false },
+      { id: 'cat_salary', name: 'Salary', groupId: 'grp_income', isIncome: true, hidden: false },
+      { id: 'cat_takeout', name: 'Takeout', groupId: 'grp_food', isIncome: false, hidden: true }
+    ]),
+    getCategoryGroups: vi.fn().mockResolvedValue([
+      { id: 'grp_food', name: 'Food', isIncome: false, hidden: false },
+      { id: 'grp_old', name: 'Old', isIncome: false, hidden: true },
+      { id: 'grp_income', name: 'Income', isIncome: true, hidden: false }
+    ]),
+    getBudgetMonth: vi.fn().mockResolvedValue(null),
+    setBudgetAmount: vi.fn().mockResolvedValue(undefined),
+    getPayees: vi.fn().mockResolvedValue([]),
+    createPayee: vi.fn(),
+    mergePayees: vi.fn(),
+    listTransactions: vi.fn().mockResolvedValue([]),
+    createTransaction: vi.fn(),
+    getTransaction: vi.fn().mockResolvedValue(null),
+    findTransactionByImportedId: vi.fn().mockResolvedValue(null),
+    updateTransaction: vi.fn(),
+    deleteTransaction: vi.fn(),
+    getSchedules: vi.fn(),
+    createSchedule: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+function makeService(session: ActualBudgetSession): CategoryService {
+  const factory: ActualClientFactory = {
+    listBudgets: async () => [{ id: 'budget_abc', name: 'Main Budget' }],
+    withBudget: async <T>(_budgetId: string, fn: (s: ActualBudgetSession) => Promise<T>) => fn(session),
+    ping: async () => undefined,
+    shutdown: async () => undefined
+  };
+
+  return new CategoryService(factory, { assertBudgetAccessible: vi.fn().mockResolvedValue(undefined) });
+}
+
+describe('CategoryService', () => {
+  it('nests categories under their groups in Actual order', async () => {
+    const service = makeService(makeSession());
+
+    const result = await service.listCategories('budget_abc');
+
+    expect(result).toEqual([
+      {
+        id: 'grp_food',
+        name: 'Food',
+        isIncome: false,
+        hidden: false,
+        categories: [
+          { id: 'cat_groceries', name: 'Groceries', isIncome: false, hidden: false },
+          { id: 'cat_takeout', name: 'Takeout', isIncome: false, hidden: true }
+        ]
+      },
+      { id: 'grp_old', name: 'Old', isIncome: false, hidden: true, categories: [] },
+      {
+        id: 'grp_income',
+        name: 'Income',
+        isIncome: true,
+        hidden: false,
+        categories: [{ id: 'cat_salary', name: 'Salary', isIncome: true, hidden: false }]
+      }
+    ]);
+  });
+});
+
+describe('categories routes', () => {
+  it('returns the grouped category list', async () => {
+    const config = makeConfig();
+    const groups = [{ id: 'grp_food', name: 'Food', isIncome: false, hidden: false, categories: [] }];
+    const categoryService = {
+      listCategories: vi.fn().mockResolvedValue(groups)
+    };
+    const app = buildApp(config, makeDependencies({ categoryService }));
+
+    await app.ready();
+
+    const response = await request(app.server)
+      .get('/budgets/budget_abc/categories')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(groups);
+    expect(categoryService.listCategories).toHaveBeenCalledWith('budget_abc');
+
+    await app.close();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { isConfidentSuggestion, rankCategorySuggestions } from '../src/actual/categorySuggestions';
+import type { ActualTransaction } from '../src/actual/clientFactory';
+
+function row(transaction: Partial<ActualTransaction> & { id: string }, children: ActualTransaction[] = []) {
+  return {
+    transaction: { date: '2026-02-01', amount: -500, accountId: 'acc_1', payeeId: 'pay_star', ...transaction },
+    children
+  };
+}
+
+describe('category suggestions', () => {
+  it('ranks categories by weighted share and picks the usual account', () => {
+    const result = rankCategorySuggestions(
+      [
+        row({ id: 't1', categoryId: 'cat_coffee' }),
+        row({ id: 't2', categoryId: 'cat_coffee' }),
+        row({ id: 't3', categoryId: 'cat_coffee', accountId: 'acc_card' }),
+        row({ id: 't4', categoryId: 'cat_coffee', accountId: 'acc_card' }),
+        row({ id: 't5', categoryId: 'cat_coffee', accountId: 'acc_card' }),
+        row({ id: 't6', categoryId: 'cat_snacks', accountId: 'acc_card' }),
+        row({ id: 't7', categoryId: 'cat_other', payeeId: 'pay_other' })
+      ],
+      new Set(['pay_star']),
+      { asOf: '2026-02-01' }
+    );
+
+    expect(result).toEqual({
+      categories: [
+        { categoryId: 'cat_coffee', count: 5, score: 0.833 },
+        { categoryId: 'cat_snacks', count: 1, score: 0.167 }
+      ],
+      accountId: 'acc_card'
+    });
+    expect(isConfidentSuggestion(result.categories[0])).toBe(true);
+    expect(isConfidentSuggestion(result.categories[1])).toBe(false);
+  });
+
+  it('favours recent entries, close amounts and the requested flow', () => {
+    const history = [
+      row({ id: 'old', date: '2025-06-01', categoryId: 'cat_old' }),
+      row({ id: 'new', date: '2026-01-25', categoryId: 'cat_new' }),
+      row({ id: 'big', date: '2026-01-25', amount: -50000, categoryId: 'cat_big' }),
+      row({ id: 'refund', date: '2026-01-25', amount: 500, categoryId: 'cat_refund' })
+    ];
+
+    const byRecency = rankCategorySuggestions(history, new Set(['pay_star']), { asOf: '2026-02-01', flow: 'expense' });
+    expect(byRecency.categories.map((item) => item.categoryId)).toEqual(['cat_big', 'cat_new', 'cat_old']);
+
+    const byAmount = rankCategorySuggestions(history, new Set(['pay_star']), {
+      asOf: '2026-02-01',
+      amount: 48000,
+      flow: 'expense'
+    });
+    expect(byAmount.categories[0]?.categoryId).toBe('cat_big');
+
+    const income = rankCategorySuggestions(history, new Set(['pay_star']), { asOf: '2026-02-01', flow: 'income' });
+    expect(income.categories.map((item) => item.categoryId)).toEqual(['cat_refund']);
+  });
+
+  it('credits each split line with its share of the entry', () => {
+    const result = rankCategorySuggestions(
+      [
+        row({ id: 'parent', isParent: true }, [
+          { id: 'c1', parentId: 'parent', date: '2026-02-01', amount: -300, accountId: 'acc_1', categoryId: 'cat_food' },
+          { id: 'c2', parentId: 'parent', date: '2026-02-01', amount: -200, accountId: 'acc_1', categoryId: 'cat_home' }
+        ])
+      ],
+      new Set(['pay_star']),
+      { asOf: '2026-02-01' }
+    );
+
+    expect(result.categories).toEqual([
+      { categoryId: 'cat_food', count: 1, score: 0.5 },
+      { categoryId: 'cat_home', count: 1, score: 0.5 }
+    ]);
+  });
+});
@@ -20,8 +20,8 @@ describe('DefaultActualClientFactory', () => {
       login: async () => {
         events.push('login');
       },
-      openBudget: async (budgetId: string) => {
-        events.push(`open:${budgetId}`);
+      openBudget: async (budgetId: unknown) => {
+        events.push(`open:${String(budgetId)}`);
       },
       closeBudget: async () => {
         events.push('close');
@@ -60,4 +60,220 @@ describe('DefaultActualClientFactory', () => {
       'close'
     ]);
   });
+
+  it('keeps account status flags and passes balance cutoffs as local dates', async () => {
+    const cutoffs: unknown[] = [];
+    const api = {
+      init: async () => undefined,
+      openBudget: async () => undefined,
+      getAccounts: async () => [
+        { id: 'acc_checking', name: 'Checking', offbudget: false, closed: false },
+        { id: 'acc_house', name: 'House', offbudget: 1, closed: 1 }
+      ],
+      getAccountBalance: async (_id: unknown, cutoff?: unknown) => {
+        cutoffs.push(cutoff);
+        return 2500;
+      }
+    };
+    const factory = new DefaultActualClientFactory(makeConfig(), pino({ level: 'silent' }), api);
+
+    const [accounts, balance] = await factory.withBudget('budget_a', async (session) => [
+      await session.getAccounts(),
+      await session.getAccountBalance('acc_checking', '2026-01-31')
+    ]);
+
+    expect(accounts).toEqual([
+      { id: 'acc_checking', name: 'Checking', offBudget: false, closed: false },
+      { id: 'acc_house', name: 'House', offBudget: true, closed: true }
+    ]);
+    expect(balance).toBe(2500);
+    const cutoff = cutoffs[0] as Date;
+    expect([cutoff.getFullYear(), cutoff.getMonth(), cutoff.getDate()]).toEqual([2026, 0, 31]);
+  });
+
+  it('keeps category groups and income and hidden flags', async () => {
+    const api = {
+      init: async () => undefined,
+      openBudget: async () => undefined,
+      getCategories: async () => [
+        { id: 'cat_salary', name: 'Salary', group_id: 'grp_income', is_income: true, hidden: false },
+        { id: 'cat_old', name: 'Old', group_id: 'grp_food', is_income: 0, hidden: 1 }
+      ],
+      getCategoryGroups: async () => [{ id: 'grp_income', name: 'Income', is_income: 1, hidden: 0, categories: [] }]
+    };
+    const factory = new DefaultActualClientFactory(makeConfig(), pino({ level: 'silent' }), api);
+
+    const [categories, groups] = await factory.withBudget('budget_a', async (session) => [
+      await session.getCategories(),
+      await session.getCategoryGroups()
+    ]);
+
+    expect(categories).toEqual([
+      { id: 'cat_salary', name: 'Salary', groupId: 'grp_income', isIncome: true, hidden: false },
+      { id: 'cat_old', name: 'Old', groupId: 'grp_food', isIncome: false, hidden: true }
+    ]);
+    expect(groups).toEqual([{ id: 'grp_income', name: 'Income', isIncome: true, hidden: false }]);
+  });
+
+  it('normalizes budget months and skips months outside the budget', async () => {
+    const api = {
+      init: async () => undefined,
+      openBudget: async () => undefined,
+      getBudgetMonths: async () => ['2026-01', '2026-02'],
+      getBudgetMonth: async (month: unknown) => ({
+        month,
+        toBudget: 1500,
+        totalBudgeted: -20000,
+        totalIncome: 50000,
+        totalSpent: -12000,
+        categoryGroups: [
+          {
+            id: 'grp_income',
+            name: 'Income',
+            is_income: true,
+            hidden: false,
+            received: 50000,
+            balance: 0,
+            categories: [{ id: 'cat_salary', name: 'Salary', is_income: true, hidden: false, received: 50000 }]
+          }
+        ]
+      })
+    };
+    const factory = new DefaultActualClientFactory(makeConfig(), pino({ level: 'silent' }), api);
+
+    const [february, old] = await factory.withBudget('budget_a', async (session) => [
+      await session.getBudgetMonth('2026-02'),
+      await session.getBudgetMonth('2020-01')
+    ]);
+
+    expect(old).toBeNull();
+    expect(february).toEqual({
+      month: '2026-02',
+      toBudget: 1500,
+      totalBudgeted: -20000,
+      totalIncome: 50000,
+      totalSpent: -12000,
+      groups: [
+        {
+          id: 'grp_income',
+          name: 'Income',
+          isIncome: true,
+          hidden: false,
+          budgeted: 0,
+          activity: 50000,
+          balance: 0,
+          categories: [
+            {
+              id: 'cat_salary',
+              name: 'Salary',
+              isIncome: true,
+              hidden: false,
+              budgeted: 0,
+              activity: 50000,
+              balance: 0,
+              carryover: false
+            }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('normalizes Actual schedules and skips unusable ones', async () => {
+    const api = {
+      init: async () => undefined,
+      openBudget: async () => undefined,
+      getSchedules: async () => [
+        {
+          id: 'sched_rent',
+          name: 'Rent',
+          account: 'acc_checking',
+          payee: 'pay_landlord',
+          amount: -120000,
+          amountOp: 'is',
+          date: { frequency: 'monthly', start: '2026-01-01', endMode: 'never', patterns: [{ type: 'day', value: -1 }] },
+          next_date: '2026-03-01',
+          completed: false,
+          posts_transaction: true
+        },
+        { id: 'sched_range', amount: { num1: -100, num2: -200 }, date: '2026-04-01', completed: 1 },
+        { id: 'sched_broken', date: { frequency: 'hourly', start: '2026-01-01' } }
+      ]
+    };
+    const factory = new DefaultActualClientFactory(makeConfig(), pino({ level: 'silent' }), api);
+
+    const schedules = await factory.withBudget('budget_a', (session) => session.getSchedules());
+
+    expect(schedules).toEqual([
+      {
+        id: 'sched_rent',
+        name: 'Rent',
+        accountId: 'acc_checking',
+        payeeId: 'pay_landlord',
+        amount: -120000,
+        date: {
+          frequency: 'monthly',
+          interval: 1,
+          start: '2026-01-01',
+          endMode: 'never',
+          skipWeekend: false,
+          weekendSolveMode: 'after'
+        },
+        hasPatterns: true,
+        nextDate: '2026-03-01',
+        completed: false,
+        postsTransaction: true
+      },
+      { id: 'sched_range', date: '2026-04-01', hasPatterns: false, completed: true, postsTransaction: false }
+    ]);
+  });
+
+  it('loads split parents by id with their lines nested', async () => {
+    const row = { date: '2026-02-08', account: 'acc_checking' };
+    const rows: Array<Record<string, unknown>> = [
+      { ...row, id: 'txn_split', amount: -3000, is_parent: true, imported_id: 'imp-1' },
+      { ...row, id: 'txn_split/1', amount: -2000, category: 'cat_food', parent_id: 'txn_split' },
+      { ...row, id: 'txn_split/2', amount: -1000, category: 'cat_home', parent_id: 'txn_split' }
+    ];
+    type QueryState = { filter?: Record<string, unknown>; options?: Record<string, unknown> };
+    const queries: QueryState[] = [];
+    const query = (state: QueryState) => ({
+      filter: (filter: Record<string, unknown>) => query({ ...state, filter }),
+      options: (options: Record<string, unknown>) => query({ ...state, options }),
+      select: () => {
+        queries.push(state);
+        return query(state);
+      }
+    });
+    const api = {
+      init: async () => undefined,
+      openBudget: async () => undefined,
+      q: () => query({}),
+      aqlQuery: async () => {
+        const filter = queries[queries.length - 1]?.filter ?? {};
+        const imported = rows.filter((item) => item.imported_id === filter.imported_id);
+        return { data: 'imported_id' in filter ? imported : rows };
+      }
+    };
+    const factory = new DefaultActualClientFactory(makeConfig(), pino({ level: 'silent' }), api);
+
+    const [byId, byImportedId] = await factory.withBudget('budget_a', async (session) => [
+      await session.getTransaction('txn_split'),
+      await session.findTransactionByImportedId('acc_checking', 'imp-1')
+    ]);
+
+    expect(queries[0]).toEqual({
+      filter: { $or: [{ id: 'txn_split' }, { parent_id: 'txn_split' }] },
+      options: { splits: 'all' }
+    });
+    expect(byId).toMatchObject({
+      id: 'txn_split',
+      isParent: true,
+      subtransactions: [
+        { id: 'txn_split/1', amount: -2000, categoryId: 'cat_food', parentId: 'txn_split' },
+        { id: 'txn_split/2', amount: -1000, categoryId: 'cat_home', parentId: 'txn_split' }
+      ]
+    });
+    expect(byImportedId).toEqual(byId);
+  });
 });
@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mapCsvRows, parseAmount, parseCsv, parseDateWithFormat } from '../src/import/csv';
+import { ImportService } from '../src/import/importService';
+import { csvMappingProfileSchema } from '../src/schemas/imports';
+import { BudgetDocumentStore } from '../src/storage/budgetDocumentStore';
+
+const budgetService = {
+  assertBudgetAccessible: vi.fn().mockResolvedValue(undefined)
+};
+
+describe('CSV parsing', () => {
+  it('handles quoted fields, escaped quotes, CRLF and blank lines', () => {
+    const records = parseCsv('Date;Payee;Amount\r\n2026-02-08;"Shop; ""Main""";-12,50\r\n\r\n2026-02-09;"Multi\nline";3\r\n', ';');
+
+    expect(records).toEqual([
+      { line: 1, fields: ['Date', 'Payee', 'Amount'] },
+      { line: 2, fields: ['2026-02-08', 'Shop; "Main"', '-12,50'] },
+      { line: 4, fields: ['2026-02-09', 'Multi\nline', '3'] }
+    ]);
+  });
+
+  it('parses dates and amounts in bank formats', () => {
+    expect(parseDateWithFormat('08.02.2026', 'DD.MM.YYYY')).toBe('2026-02-08');
+    expect(parseDateWithFormat('2/8/26', 'M/D/YY')).toBe('2026-02-08');
+    expect(parseDateWithFormat('31.02.2026', 'DD.MM.YYYY')).toBeUndefined();
+
+    expect(parseAmount('1.234,56', ',')).toBe(1234.56);
+    expect(parseAmount('-1,234.56 USD', '.')).toBe(-1234.56);
+    expect(parseAmount('(12.50)', '.')).toBe(-12.5);
+    expect(parseAmount('12.50-', '.')).toBe(-12.5);
+    expect(parseAmount('EUR -12,50', ',')).toBe(-12.5);
+    expect(parseAmount('$-5.00', '.')).toBe(-5);
+    expect(parseAmount('€ (1.234,00)', ',')).toBe(-1234);
+    expect(parseAmount('USD 7.25', '.')).toBe(7.25);
+    expect(parseAmount('n/a', '.')).toBeUndefined();
+  });
+
+  it('maps debit/credit columns to entries and reports unmappable rows', () => {
+    const profile = csvMappingProfileSchema.parse({
+      delimiter: ';',
+      dateColumn: 'Booking date',
+      dateFormat: 'DD.MM.YYYY',
+      debitColumn: 'Debit',
+      creditColumn: 'Credit',
+      payeeColumn: 'Counterparty',
+      notesColumn: 'Reference',
+      decimalSeparator: ','
+    });
+    const csv = [
+      'Booking date;Counterparty;Reference;Debit;Credit',
+      '08.02.2026;Grocer;Card 1234;45,10;',
+      '09.02.2026;Employer;Salary;;2.500,00',
+      'yesterday;Grocer;;1,00;'
+    ].join('\n');
+
+    const rows = mapCsvRows(csv, profile, { account: 'Checking', defaultCategory: 'To Sort' });
+
+    expect(rows).toEqual([
+      {
+        line: 2,
+        status: 'valid',
+        input: {
+          amount: 45.1,
+          flow: 'expense',
+          date: '2026-02-08',
+          payee: 'Grocer',
+          category: 'To Sort',
+          account: 'Checking',
+          notes: 'Card 1234',
+          importedId: expect.stringMatching(/^csv:[0-9a-f]{32}$/)
+        }
+      },
+      {
+        line: 3,
+        status: 'valid',
+        input: {
+          amount: 2500,
+          flow: 'income',
+          date: '2026-02-09',
+          payee: 'Employer',
+          category: 'To Sort',
+          account: 'Checking',
+          notes: 'Salary',
+          importedId: expect.stringMatching(/^csv:[0-9a-f]{32}$/)
+        }
+      },
+      expect.objectContaining({ line: 4, status: 'invalid' })
+    ]);
+  });
+});
+
+describe('ImportService', () => {
+  type BatchItem = { idempotencyKey: string; importedId: string };
+  const csv = ['Date,Payee,Amount', '2026-02-08,Grocer,-45.10', '2026-02-08,Grocer,-45.10'].join('\n');
+
+  it('previews without writing and commits through the batch creation path', async () => {
+    const createEntriesBatch = vi.fn().mockImplementation(async ({ items }: { items: unknown[] }) => ({
+      items: items.map((_item, index) => ({
+        index,
+        status: 'created',
+        entry: {
+          id: `txn_${index}`,
+          budgetId: 'budget_abc',
+          amount: 45.1,
+          flow: 'expense',
+          date: '2026-02-08',
+          payee: 'Grocer',
+          category: 'Groceries',
+          account: 'Checking'
+        }
+      })),
+      created: items.length,
+      duplicates: 0,
+      failed: 0
+    }));
+    const store = new BudgetDocumentStore<ReturnType<typeof csvMappingProfileSchema.parse>>('import-profiles');
+    const service = new ImportService({ createEntriesBatch }, budgetService, store);
+
+    await service.saveProfile(
+      'budget_abc',
+      'bank-a',
+      csvMappingProfileSchema.parse({ dateColumn: 'Date', amountColumn: 'Amount', payeeColumn: 'Payee' })
+    );
+
+    const preview = await service.importCsv({
+      budgetId: 'budget_abc',
+      csv,
+      account: 'Checking',
+      profile: 'bank-a',
+      defaultCategory: 'Groceries',
+      commit: false
+    });
+
+    expect(preview.committed).toBe(false);
+    expect(preview.valid).toBe(2);
+    expect(createEntriesBatch).not.toHaveBeenCalled();
+
+    const committed = await service.importCsv({
+      budgetId: 'budget_abc',
+      csv,
+      account: 'Checking',
+      profile: 'bank-a',
+      defaultCategory: 'Groceries',
+      commit: true
+    });
+
+    expect(committed.created).toBe(2);
+    expect(committed.rows.map((row) => row.status)).toEqual(['created', 'created']);
+    const items = createEntriesBatch.mock.calls[0]?.[0].items as BatchItem[];
+    expect(items).toHaveLength(2);
+    expect(items[0]?.idempotencyKey).not.toBe(items[1]?.idempotencyKey);
+    expect(items[0]?.importedId).not.toBe(items[1]?.importedId);
+
+    await service.importCsv({
+      budgetId: 'budget_abc',
+      csv,
+      account: 'Checking',
+      profile: 'bank-a',
+      defaultCategory: 'Household',
+      commit: true
+    });
+
+    const recommitted = createEntriesBatch.mock.calls[1]?.[0].items as BatchItem[];
+    expect(recommitted.map((item) => item.importedId)).toEqual(items.map((item) => item.importedId));
+    expect(recommitted[0]?.idempotencyKey).not.toBe(items[0]?.idempotencyKey);
+
+    await expect(
+      service.importCsv({ budgetId: 'budget_abc', csv, account: 'Checking', profile: 'missing', commit: false })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
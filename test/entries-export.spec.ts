@@ -0,0 +1,154 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import { buildApp } from '../src/app';
+import type { EntryResponseItem } from '../src/actual/entryService';
+import { negotiateExportFormat, writeCsv, writeOfx } from '../src/export/entries';
+import { makeConfig, makeDependencies } from './helpers';
+
+const salary: EntryResponseItem = {
+  id: 'txn_2',
+  budgetId: 'budget_abc',
+  amount: 2500,
+  flow: 'income',
+  date: '2026-02-09',
+  payee: 'Employer',
+  category: 'Salary',
+  account: 'Checking',
+  notes: ''
+};
+
+const entries: EntryResponseItem[] = [
+  {
+    id: 'txn_1',
+    budgetId: 'budget_abc',
+    amount: 30,
+    flow: 'expense',
+    date: '2026-02-08',
+    payee: 'Grocer',
+    category: 'Split',
+    account: 'Checking',
+    notes: 'Weekly, "big" shop',
+    splits: [
+      { id: 'txn_1a', amount: 20, category: 'Groceries' },
+      { id: 'txn_1b', amount: 10, category: 'Household', notes: 'Soap' }
+    ]
+  },
+  salary,
+  {
+    id: 'txn_3',
+    budgetId: 'budget_abc',
+    amount: 100,
+    flow: 'transfer',
+    date: '2026-02-10',
+    payee: 'Checking',
+    category: 'Transfer',
+    account: 'Savings',
+    fromAccount: 'Savings',
+    toAccount: 'Checking',
+    notes: ''
+  }
+];
+
+describe('entries export', () => {
+  it('negotiates the format from the Accept header', () => {
+    expect(negotiateExportFormat(undefined)).toBe('csv');
+    expect(negotiateExportFormat('*/*')).toBe('csv');
+    expect(negotiateExportFormat('application/json, application/x-ndjson')).toBe('ndjson');
+    expect(negotiateExportFormat('text/csv;q=0.5, application/x-ofx')).toBe('ofx');
+    expect(() => negotiateExportFormat('application/json')).toThrow('No supported export format');
+  });
+
+  it('writes one CSV row per split line and escapes fields', () => {
+    const csv = [...writeCsv(entries)].join('');
+
+    expect(csv.split('\r\n')).toEqual([
+      'id,date,flow,amount,payee,category,account,fromAccount,toAccount,notes,importedId',
+      'txn_1,2026-02-08,expense,20,Grocer,Groceries,Checking,,,"Weekly, ""big"" shop",',
+      'txn_1,2026-02-08,expense,10,Grocer,Household,Checking,,,Soap,',
+      'txn_2,2026-02-09,income,2500,Employer,Salary,Checking,,,,',
+      'txn_3,2026-02-10,transfer,100,Checking,Transfer,Savings,Savings,Checking,,',
+      ''
+    ]);
+  });
+
+  it('writes one OFX statement per account with signed amounts', () => {
+    const ofx = [...writeOfx(entries, { from: '2026-02-01', to: '2026-02-28', currency: 'EUR' })].join('');
+
+    expect(ofx.match(/<STMTTRNRS>/g)).toHaveLength(2);
+    expect(ofx).toContain('<CURDEF>EUR</CURDEF><BANKACCTFROM><BANKID>0</BANKID><ACCTID>Checking</ACCTID>');
+    expect(ofx).toContain(
+      '<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260208</DTPOSTED><TRNAMT>-30.00</TRNAMT><FITID>txn_1</FITID><NAME>Grocer</NAME><MEMO>Split - Weekly, "big" shop</MEMO></STMTTRN>'
+    );
+    expect(ofx).toContain('<TRNTYPE>XFER</TRNTYPE><DTPOSTED>20260210</DTPOSTED><TRNAMT>-100.00</TRNAMT>');
+    expect(ofx.trim().endsWith('</BANKMSGSRSV1>\n</OFX>')).toBe(true);
+  });
+
+  it('keeps CSV text fields from being read as spreadsheet formulas', () => {
+    const [, row] = [
+      ...writeCsv([
+        { ...salary, payee: '=HYPERLINK("http://x")', category: '@SUM(A1)', notes: '-2+3', importedId: '+1' }
+      ])
+    ];
+
+    expect(row).toBe('txn_2,2026-02-09,income,2500,"\'=HYPERLINK(""http://x"")",\'@SUM(A1),Checking,,,\'-2+3,\'+1\r\n');
+  });
+
+  it('starts a new OFX statement per account id even when names repeat', () => {
+    const ofx = [
+      ...writeOfx(
+        [
+          { ...salary, id: 'txn_a', accountId: 'acc_1' },
+          { ...salary, id: 'txn_b', accountId: 'acc_2' }
+        ],
+        { from: '2026-02-01', to: '2026-02-28', currency: 'EUR' }
+      )
+    ].join('');
+
+    expect(ofx.match(/<STMTTRNRS>/g)).toHaveLength(2);
+  });
+
+  it('streams GET /entries:export in the negotiated format', async () => {
+    const config = makeConfig();
+    const exportEntries = vi.fn().mockImplementation(async () => entries.values());
+
+    const app = buildApp(config, makeDependencies({ entryService: { exportEntries } }));
+
+    await app.ready();
+
+    const ndjson = await request(app.server)
+      .get('/budgets/budget_abc/entries:export?from=2026-02-01&to=2026-02-28')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .set('Accept', 'application/x-ndjson');
+
+    expect(ndjson.status).toBe(200);
+    expect(ndjson.headers['content-type']).toContain('application/x-ndjson');
+    expect(ndjson.headers['content-disposition']).toBe('attachment; filename="entries-2026-02-01-2026-02-28.ndjson"');
+    expect(ndjson.text.trim().split('\n').map((line) => JSON.parse(line).id)).toEqual(['txn_1', 'txn_2', 'txn_3']);
+    expect(exportEntries).toHaveBeenCalledWith({
+      budgetId: 'budget_abc',
+      from: '2026-02-01',
+      to: '2026-02-28',
+      flow: 'all',
+      order: 'date'
+    });
+
+    const ofx = await request(app.server)
+      .get('/budgets/budget_abc/entries:export?from=2026-02-01&to=2026-02-28&format=ofx')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .set('Accept', 'text/csv');
+
+    expect(ofx.status).toBe(200);
+    expect(ofx.headers['content-type']).toContain('application/x-ofx');
+    expect(exportEntries).toHaveBeenLastCalledWith(expect.objectContaining({ order: 'account' }));
+
+    const rejected = await request(app.server)
+      .get('/budgets/budget_abc/entries:export?from=2026-02-01&to=2026-02-28')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .set('Accept', 'application/pdf');
+
+    expect(rejected.status).toBe(406);
+    expect(rejected.body.error.code).toBe('not_acceptable');
+
+    await app.close();
+  });
+});
@@ -1,7 +1,11 @@
+import pino from 'pino';
 import request from 'supertest';
 import { describe, expect, it, vi } from 'vitest';
 import { buildApp } from '../src/app';
-import { makeConfig } from './helpers';
+import type { ActualBudgetSession, ActualTransaction } from '../src/actual/clientFactory';
+import { EntryService } from '../src/actual/entryService';
+import { BudgetLockManager } from '../src/actual/locks';
+import { makeConfig, makeDependencies } from './helpers';
 
 describe('entries routes', () => {
   it('returns GET /entries payload', async () => {
@@ -22,21 +26,13 @@ describe('entries routes', () => {
       ],
       limit: 100,
       offset: 0,
-      total: 1
+      total: 1,
+      nextCursor: null
     });
 
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
-      },
-      entryService: {
-        listEntries,
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies({ entryService: { listEntries } }));
+
+    await app.ready();
 
     const response = await request(app.server)
       .get('/budgets/budget_abc/entries?from=2026-02-01&to=2026-02-28&flow=all&limit=100&offset=0')
@@ -49,10 +45,62 @@ describe('entries routes', () => {
       from: '2026-02-01',
       to: '2026-02-28',
       flow: 'all',
+      sort: 'date',
+      order: 'asc',
       limit: 100,
       offset: 0
     });
 
+    const filtered = await request(app.server)
+      .get(
+        '/budgets/budget_abc/entries?from=2026-02-01&to=2026-02-28&account=Checking&account=Cash&category=Dining&minAmount=5&search=coffee'
+      )
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+
+    expect(filtered.status).toBe(200);
+    expect(listEntries).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        account: ['Checking', 'Cash'],
+        category: ['Dining'],
+        minAmount: 5,
+        search: ['coffee']
+      })
+    );
+
+    const inverted = await request(app.server)
+      .get('/budgets/budget_abc/entries?from=2026-02-01&to=2026-02-28&minAmount=10&maxAmount=5')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+
+    expect(inverted.status).toBe(400);
+
+    const grouped = await request(app.server)
+      .get('/budgets/budget_abc/entries?from=2026-02-01&to=2026-02-28&summary=true&groupBy=payee')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+
+    expect(grouped.status).toBe(200);
+    expect(listEntries).toHaveBeenLastCalledWith(expect.objectContaining({ summary: true, groupBy: 'payee' }));
+
+    const badGroupBy = await request(app.server)
+      .get('/budgets/budget_abc/entries?from=2026-02-01&to=2026-02-28&groupBy=week')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+
+    expect(badGroupBy.status).toBe(400);
+
+    const runningWithoutAccount = await request(app.server)
+      .get('/budgets/budget_abc/entries?from=2026-02-01&to=2026-02-28&includeRunningBalance=true')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+
+    expect(runningWithoutAccount.status).toBe(400);
+
+    const running = await request(app.server)
+      .get('/budgets/budget_abc/entries?from=2026-02-01&to=2026-02-28&account=Checking&includeRunningBalance=true')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+
+    expect(running.status).toBe(200);
+    expect(listEntries).toHaveBeenLastCalledWith(
+      expect.objectContaining({ account: ['Checking'], includeRunningBalance: true })
+    );
+
     await app.close();
   });
 
@@ -70,18 +118,9 @@ describe('entries routes', () => {
       notes: 'Team meeting'
     });
 
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry
-      }
-    });
+    const app = buildApp(config, makeDependencies({ entryService: { createEntry } }));
+
+    await app.ready();
 
     const payload = {
       amount: 12.34,
@@ -109,4 +148,251 @@ describe('entries routes', () => {
 
     await app.close();
   });
+
+  it('fetches, updates and deletes a single entry by id', async () => {
+    const config = makeConfig();
+    const entry = {
+      id: 'txn_123',
+      budgetId: 'budget_abc',
+      amount: 12.34,
+      flow: 'expense',
+      date: '2026-02-08',
+      payee: 'Coffee Shop',
+      category: 'Dining',
+      account: 'Checking',
+      notes: 'Team meeting'
+    };
+    const getEntry = vi.fn().mockResolvedValue(entry);
+    const updateEntry = vi.fn().mockResolvedValue({ ...entry, notes: 'Fixed typo' });
+    const deleteEntry = vi.fn().mockResolvedValue(undefined);
+
+    const app = buildApp(config, makeDependencies({ entryService: { getEntry, updateEntry, deleteEntry } }));
+
+    await app.ready();
+
+    const fetched = await request(app.server)
+      .get('/budgets/budget_abc/entries/txn_123')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.id).toBe('txn_123');
+    expect(getEntry).toHaveBeenCalledWith({ budgetId: 'budget_abc', entryId: 'txn_123' });
+
+    const patched = await request(app.server)
+      .patch('/budgets/budget_abc/entries/txn_123')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ notes: 'Fixed typo' });
+    expect(patched.status).toBe(200);
+    expect(patched.body.notes).toBe('Fixed typo');
+    expect(updateEntry).toHaveBeenCalledWith({ budgetId: 'budget_abc', entryId: 'txn_123', notes: 'Fixed typo' });
+
+    const emptyPatch = await request(app.server)
+      .patch('/budgets/budget_abc/entries/txn_123')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({});
+    expect(emptyPatch.status).toBe(400);
+
+    const deleted = await request(app.server)
+      .delete('/budgets/budget_abc/entries/txn_123')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(deleted.status).toBe(204);
+    expect(deleteEntry).toHaveBeenCalledWith({ budgetId: 'budget_abc', entryId: 'txn_123' });
+
+    await app.close();
+  });
+
+  it('returns split entries with their lines and deletes them by id', async () => {
+    const config = makeConfig();
+    const line = { date: '2026-02-08', accountId: 'acc_1', parentId: 'txn_split' };
+    const split: ActualTransaction = {
+      id: 'txn_split',
+      date: '2026-02-08',
+      amount: -3000,
+      accountId: 'acc_1',
+      payeeId: 'pay_1',
+      isParent: true,
+      subtransactions: [
+        { ...line, id: 'txn_split/1', amount: -2000, categoryId: 'cat_1' },
+        { ...line, id: 'txn_split/2', amount: -1000, categoryId: 'cat_2' }
+      ]
+    };
+    const deleteTransaction = vi.fn().mockResolvedValue(undefined);
+    const session: ActualBudgetSession = {
+      sync: vi.fn().mockResolvedValue(undefined),
+      getAccounts: vi.fn().mockResolvedValue([{ id: 'acc_1', name: 'Checking' }]),
+      getAccountBalance: vi.fn().mockResolvedValue(0),
+      getCategories: vi.fn().mockResolvedValue([
+        { id: 'cat_1', name: 'Groceries', isIncome: false, hidden: false },
+        { id: 'cat_2', name: 'Household', isIncome: false, hidden: false }
+      ]),
+      getCategoryGroups: vi.fn().mockResolvedValue([]),
+      getBudgetMonth: vi.fn().mockResolvedValue(null),
+      setBudgetAmount: vi.fn(),
+      getPayees: vi.fn().mockResolvedValue([{ id: 'pay_1', name: 'Market' }]),
+      createPayee: vi.fn(),
+      mergePayees: vi.fn(),
+      listTransactions: vi.fn().mockResolvedValue([]),
+      createTransaction: vi.fn(),
+      getTransaction: vi.fn().mockImplementation(async (id: string) => (id === split.id ? split : null)),
+      findTransactionByImportedId: vi.fn().mockResolvedValue(null),
+      updateTransaction: vi.fn(),
+      deleteTransaction,
+      getSchedules: vi.fn().mockResolvedValue([]),
+      createSchedule: vi.fn(),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+    const entryService = new EntryService(
+      {
+        listBudgets: async () => [{ id: 'budget_abc', name: 'Main Budget' }],
+        withBudget: async <T>(_budgetId: string, fn: (s: ActualBudgetSession) => Promise<T>) => fn(session),
+        ping: async () => undefined,
+        shutdown: async () => undefined
+      },
+      { assertBudgetAccessible: vi.fn().mockResolvedValue(undefined) },
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const app = buildApp(config, { ...makeDependencies(), entryService });
+
+    await app.ready();
+
+    const fetched = await request(app.server)
+      .get('/budgets/budget_abc/entries/txn_split')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body).toMatchObject({
+      id: 'txn_split',
+      amount: 30,
+      category: 'Split',
+      splits: [
+        { id: 'txn_split/1', amount: 20, category: 'Groceries' },
+        { id: 'txn_split/2', amount: 10, category: 'Household' }
+      ]
+    });
+
+    const deleted = await request(app.server)
+      .delete('/budgets/budget_abc/entries/txn_split')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(deleted.status).toBe(204);
+    expect(deleteTransaction).toHaveBeenCalledWith('txn_split');
+
+    await app.close();
+  });
+
+  it('creates entries in a batch with POST /entries:batch', async () => {
+    const config = makeConfig();
+    const createEntriesBatch = vi.fn().mockResolvedValue({
+      items: [
+        {
+          index: 0,
+          status: 'created',
+          entry: {
+            id: 'txn_1',
+            budgetId: 'budget_abc',
+            amount: 12.34,
+            flow: 'expense',
+            date: '2026-02-08',
+            payee: 'Coffee Shop',
+            category: 'Dining',
+            account: 'Checking',
+            notes: ''
+          }
+        },
+        {
+          index: 1,
+          status: 'failed',
+          error: { code: 'not_found', message: 'Category not found: Dinning' }
+        }
+      ],
+      created: 1,
+      duplicates: 0,
+      failed: 1
+    });
+
+    const app = buildApp(config, makeDependencies({ entryService: { createEntriesBatch } }));
+
+    await app.ready();
+
+    const item = {
+      amount: 12.34,
+      flow: 'expense',
+      date: '2026-02-08',
+      payee: 'Coffee Shop',
+      category: 'Dining',
+      account: 'Checking'
+    };
+
+    const response = await request(app.server)
+      .post('/budgets/budget_abc/entries:batch')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ items: [{ ...item, idempotencyKey: 'nightly-1' }, { ...item, category: 'Dinning' }] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.created).toBe(1);
+    expect(response.body.items[1].status).toBe('failed');
+    expect(createEntriesBatch).toHaveBeenCalledWith({
+      budgetId: 'budget_abc',
+      items: [
+        { ...item, notes: '', idempotencyKey: 'nightly-1' },
+        { ...item, category: 'Dinning', notes: '' }
+      ]
+    });
+
+    const empty = await request(app.server)
+      .post('/budgets/budget_abc/entries:batch')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ items: [] });
+    expect(empty.status).toBe(400);
+
+    await app.close();
+  });
+
+  it('marks entries cleared with POST /entries:setCleared', async () => {
+    const config = makeConfig();
+    const setEntriesCleared = vi.fn().mockResolvedValue({
+      items: [
+        {
+          id: 'txn_1',
+          status: 'updated',
+          entry: {
+            id: 'txn_1',
+            budgetId: 'budget_abc',
+            amount: 12.34,
+            flow: 'expense',
+            date: '2026-02-08',
+            payee: 'Coffee Shop',
+            category: 'Dining',
+            account: 'Checking',
+            notes: '',
+            cleared: true,
+            reconciled: false
+          }
+        }
+      ],
+      updated: 1,
+      failed: 0
+    });
+
+    const app = buildApp(config, makeDependencies({ entryService: { setEntriesCleared } }));
+
+    await app.ready();
+
+    const response = await request(app.server)
+      .post('/budgets/budget_abc/entries:setCleared')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ ids: ['txn_1'], cleared: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body.items[0].entry.cleared).toBe(true);
+    expect(setEntriesCleared).toHaveBeenCalledWith({ budgetId: 'budget_abc', ids: ['txn_1'], cleared: true });
+
+    const missingFlag = await request(app.server)
+      .post('/budgets/budget_abc/entries:setCleared')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ ids: ['txn_1'] });
+    expect(missingFlag.status).toBe(400);
+
+    await app.close();
+  });
 });
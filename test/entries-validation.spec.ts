@@ -1,23 +1,14 @@
 import request from 'supertest';
-import { describe, expect, it, vi } from 'vitest';
+import { describe, expect, it } from 'vitest';
 import { buildApp } from '../src/app';
-import { makeConfig } from './helpers';
+import { makeConfig, makeDependencies } from './helpers';
 
 describe('entries validation', () => {
   it('rejects bad date/amount/flow with 400', async () => {
     const config = makeConfig();
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies());
+
+    await app.ready();
 
     const res1 = await request(app.server)
       .get('/budgets/budget_abc/entries?from=bad&to=2026-02-08&flow=all&limit=100&offset=0')
@@ -44,18 +35,9 @@ describe('entries validation', () => {
 
   it('rejects inverted and oversized date ranges', async () => {
     const config = makeConfig();
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies());
+
+    await app.ready();
 
     const inverted = await request(app.server)
       .get('/budgets/budget_abc/entries?from=2026-03-01&to=2026-02-01&flow=all&limit=100&offset=0')
@@ -72,18 +54,9 @@ describe('entries validation', () => {
 
   it('rejects oversized entry text fields', async () => {
     const config = makeConfig();
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies());
+
+    await app.ready();
 
     const tooLong = 'x'.repeat(201);
     const response = await request(app.server)
@@ -103,4 +76,66 @@ describe('entries validation', () => {
 
     await app.close();
   });
+
+  it('rejects conflicting category references on create', async () => {
+    const config = makeConfig();
+    const app = buildApp(config, makeDependencies());
+
+    await app.ready();
+
+    const base = {
+      amount: 30,
+      flow: 'expense',
+      date: '2026-02-08',
+      payee: 'Grocer',
+      account: 'Checking'
+    };
+
+    const categoryAndSplits = await request(app.server)
+      .post('/budgets/budget_abc/entries')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ ...base, category: 'Groceries', splits: [{ amount: 30, category: 'Groceries' }] });
+    expect(categoryAndSplits.status).toBe(400);
+
+    const nameAndId = await request(app.server)
+      .post('/budgets/budget_abc/entries')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ ...base, category: 'Groceries', accountId: 'acc_checking' });
+    expect(nameAndId.status).toBe(400);
+
+    await app.close();
+  });
+
+  it('requires distinct source and target accounts for transfers', async () => {
+    const config = makeConfig();
+    const app = buildApp(config, makeDependencies());
+
+    await app.ready();
+
+    const base = {
+      amount: 250,
+      flow: 'transfer',
+      date: '2026-02-08'
+    };
+
+    const missingTarget = await request(app.server)
+      .post('/budgets/budget_abc/entries')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ ...base, fromAccount: 'Checking' });
+    expect(missingTarget.status).toBe(400);
+
+    const sameAccount = await request(app.server)
+      .post('/budgets/budget_abc/entries')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ ...base, fromAccount: 'Checking', toAccount: 'Checking' });
+    expect(sameAccount.status).toBe(400);
+
+    const withPayee = await request(app.server)
+      .post('/budgets/budget_abc/entries')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ ...base, fromAccount: 'Checking', toAccount: 'Savings', payee: 'Bank' });
+    expect(withPayee.status).toBe(400);
+
+    await app.close();
+  });
 });
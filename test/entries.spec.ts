@@ -2,19 +2,33 @@ import { describe, expect, it, vi } from 'vitest';
 import pino from 'pino';
 import { EntryService } from '../src/actual/entryService';
 import { BudgetLockManager } from '../src/actual/locks';
-import type { ActualBudgetSession, ActualClientFactory, NamedEntity } from '../src/actual/clientFactory';
+import { buildNameAliases } from '../src/actual/nameResolver';
+import { compilePayeeRules } from '../src/actual/payeeRules';
+import { listEntriesResponseSchema } from '../src/schemas/entries';
+import type {
+  ActualBudgetSession,
+  ActualCategory,
+  ActualClientFactory,
+  ActualTransaction,
+  NamedEntity
+} from '../src/actual/clientFactory';
 
 function makeSession(overrides: Partial<ActualBudgetSession> = {}): ActualBudgetSession {
   const accounts: NamedEntity[] = [{ id: 'acc_1', name: 'Checking' }];
-  const categories: NamedEntity[] = [{ id: 'cat_1', name: 'Dining' }];
+  const categories: ActualCategory[] = [{ id: 'cat_1', name: 'Dining', isIncome: false, hidden: false }];
   const payees: NamedEntity[] = [{ id: 'pay_1', name: 'Coffee Shop' }];
 
   return {
     sync: vi.fn().mockResolvedValue(undefined),
     getAccounts: vi.fn().mockResolvedValue(accounts),
+    getAccountBalance: vi.fn().mockResolvedValue(0),
     getCategories: vi.fn().mockResolvedValue(categories),
+    getCategoryGroups: vi.fn().mockResolvedValue([]),
+    getBudgetMonth: vi.fn().mockResolvedValue(null),
+    setBudgetAmount: vi.fn().mockResolvedValue(undefined),
     getPayees: vi.fn().mockResolvedValue(payees),
     createPayee: vi.fn().mockImplementation(async (name: string) => ({ id: `pay_${name}`, name })),
+    mergePayees: vi.fn().mockResolvedValue(undefined),
     listTransactions: vi.fn().mockResolvedValue([
       {
         id: 'txn_expense',
@@ -36,6 +50,24 @@ function makeSession(overrides: Partial<ActualBudgetSession> = {}): ActualBudget
       }
     ]),
     createTransaction: vi.fn().mockResolvedValue({ id: 'txn_created' }),
+    getTransaction: vi.fn().mockImplementation(async (id: string) =>
+      id === 'txn_expense'
+        ? {
+            id: 'txn_expense',
+            date: '2026-02-08',
+            amount: -1234,
+            accountId: 'acc_1',
+            categoryId: 'cat_1',
+            payeeId: 'pay_1',
+            notes: 'expense item'
+          }
+        : null
+    ),
+    updateTransaction: vi.fn().mockResolvedValue(undefined),
+    deleteTransaction: vi.fn().mockResolvedValue(undefined),
+    findTransactionByImportedId: vi.fn().mockResolvedValue(null),
+    getSchedules: vi.fn().mockResolvedValue([]),
+    createSchedule: vi.fn().mockResolvedValue({ id: 'sched_created' }),
     close: vi.fn().mockResolvedValue(undefined),
     ...overrides
   };
@@ -132,7 +164,8 @@ describe('EntryService', () => {
       payee: 'Coffee Shop',
       category: 'Dining',
       account: 'Checking',
-      notes: 'Refund'
+      notes: 'Refund',
+      allowCategoryMismatch: true
     });
 
     expect(createTransaction).toHaveBeenNthCalledWith(
@@ -172,6 +205,98 @@ describe('EntryService', () => {
     ).rejects.toMatchObject({ statusCode: 404 });
   });
 
+  it('rejects new entries and transfers into closed accounts', async () => {
+    const session = makeSession({
+      getAccounts: vi.fn().mockResolvedValue([
+        { id: 'acc_1', name: 'Checking', offBudget: false, closed: false },
+        { id: 'acc_old', name: 'Old Savings', offBudget: false, closed: true }
+      ])
+    });
+    const createTransaction = vi.spyOn(session, 'createTransaction');
+
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    await expect(
+      service.createEntry({
+        budgetId: 'budget_abc',
+        amount: 1,
+        flow: 'expense',
+        date: '2026-02-08',
+        payee: 'Coffee Shop',
+        category: 'Dining',
+        account: 'Old Savings',
+        notes: ''
+      })
+    ).rejects.toMatchObject({ statusCode: 400, message: 'Account is closed: Old Savings' });
+    await expect(
+      service.createEntry({
+        budgetId: 'budget_abc',
+        amount: 1,
+        flow: 'transfer',
+        date: '2026-02-08',
+        fromAccount: 'Checking',
+        toAccount: 'Old Savings',
+        notes: ''
+      })
+    ).rejects.toMatchObject({ statusCode: 400, details: { field: 'toAccount', accountId: 'acc_old' } });
+    expect(createTransaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects entries whose flow does not match the category type unless overridden', async () => {
+    const session = makeSession({
+      getCategories: vi.fn().mockResolvedValue([
+        { id: 'cat_1', name: 'Dining', isIncome: false, hidden: false },
+        { id: 'cat_salary', name: 'Salary', isIncome: true, hidden: false }
+      ])
+    });
+    const createTransaction = vi.spyOn(session, 'createTransaction');
+
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const base = {
+      budgetId: 'budget_abc',
+      amount: 20,
+      date: '2026-02-08',
+      payee: 'Coffee Shop',
+      account: 'Checking',
+      notes: ''
+    };
+
+    await expect(service.createEntry({ ...base, flow: 'expense', category: 'Salary' })).rejects.toMatchObject({
+      statusCode: 400,
+      details: { field: 'category', categoryId: 'cat_salary' }
+    });
+    await expect(service.createEntry({ ...base, flow: 'income', category: 'Dining' })).rejects.toMatchObject({
+      statusCode: 400,
+      details: { field: 'category', categoryId: 'cat_1' }
+    });
+    await expect(
+      service.createEntry({
+        ...base,
+        flow: 'expense',
+        splits: [
+          { amount: 15, category: 'Dining' },
+          { amount: 5, category: 'Salary' }
+        ]
+      })
+    ).rejects.toMatchObject({ statusCode: 400, details: { field: 'splits.1' } });
+    expect(createTransaction).not.toHaveBeenCalled();
+
+    await service.createEntry({ ...base, flow: 'income', category: 'Dining', allowCategoryMismatch: true });
+    expect(createTransaction).toHaveBeenCalledWith(expect.objectContaining({ amount: 2000, categoryId: 'cat_1' }));
+  });
+
   it('replays create by idempotency key and rejects mismatched payload reuse', async () => {
     const session = makeSession();
     const createTransaction = vi.spyOn(session, 'createTransaction');
@@ -277,4 +402,1128 @@ describe('EntryService', () => {
 
     expect(createTransaction).toHaveBeenCalledTimes(4);
   });
+
+  it('returns a single entry by id and 404 for unknown ids', async () => {
+    const session = makeSession();
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const entry = await service.getEntry({ budgetId: 'budget_abc', entryId: 'txn_expense' });
+
+    expect(entry).toEqual({
+      id: 'txn_expense',
+      budgetId: 'budget_abc',
+      amount: 12.34,
+      flow: 'expense',
+      date: '2026-02-08',
+      payee: 'Coffee Shop',
+      category: 'Dining',
+      account: 'Checking',
+      accountId: 'acc_1',
+      categoryId: 'cat_1',
+      payeeId: 'pay_1',
+      notes: 'expense item',
+      cleared: false,
+      reconciled: false
+    });
+
+    await expect(service.getEntry({ budgetId: 'budget_abc', entryId: 'txn_missing' })).rejects.toMatchObject({
+      statusCode: 404
+    });
+  });
+
+  it('updates only provided fields and keeps the existing sign when flow is omitted', async () => {
+    const session = makeSession();
+    const updateTransaction = vi.spyOn(session, 'updateTransaction');
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const updated = await service.updateEntry({
+      budgetId: 'budget_abc',
+      entryId: 'txn_expense',
+      amount: 20,
+      payee: 'Bakery'
+    });
+
+    expect(updateTransaction).toHaveBeenCalledWith('txn_expense', {
+      accountId: undefined,
+      categoryId: undefined,
+      payeeId: 'pay_Bakery',
+      date: undefined,
+      amount: -2000,
+      notes: undefined
+    });
+    expect(updated).toMatchObject({
+      id: 'txn_expense',
+      amount: 20,
+      flow: 'expense',
+      payee: 'Bakery',
+      category: 'Dining',
+      notes: 'expense item'
+    });
+
+    await expect(
+      service.updateEntry({ budgetId: 'budget_abc', entryId: 'txn_expense', category: 'Unknown Category' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('checks category and flow on update and keeps split amounts tied to their lines', async () => {
+    const split: ActualTransaction = {
+      id: 'txn_split',
+      date: '2026-02-08',
+      amount: -3000,
+      accountId: 'acc_1',
+      payeeId: 'pay_1',
+      isParent: true,
+      subtransactions: [
+        { id: 'txn_split/1', date: '2026-02-08', amount: -3000, accountId: 'acc_1', categoryId: 'cat_1', parentId: 'txn_split' }
+      ]
+    };
+    const session = makeSession({
+      getTransaction: vi.fn().mockImplementation(async (id: string) =>
+        id === 'txn_split' ? split : { id, date: '2026-02-08', amount: -1234, accountId: 'acc_1', categoryId: 'cat_1' }
+      )
+    });
+    const updateTransaction = vi.spyOn(session, 'updateTransaction');
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    await expect(
+      service.updateEntry({ budgetId: 'budget_abc', entryId: 'txn_expense', flow: 'income' })
+    ).rejects.toMatchObject({ statusCode: 400, details: { field: 'flow', categoryId: 'cat_1' } });
+    await expect(
+      service.updateEntry({ budgetId: 'budget_abc', entryId: 'txn_split', amount: 40 })
+    ).rejects.toMatchObject({ statusCode: 400, details: { entryId: 'txn_split' } });
+    await expect(
+      service.updateEntry({ budgetId: 'budget_abc', entryId: 'txn_split', category: 'Dining' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(updateTransaction).not.toHaveBeenCalled();
+
+    const refund = await service.updateEntry({
+      budgetId: 'budget_abc',
+      entryId: 'txn_expense',
+      flow: 'income',
+      allowCategoryMismatch: true
+    });
+    const renamed = await service.updateEntry({ budgetId: 'budget_abc', entryId: 'txn_split', notes: 'Weekly shop' });
+
+    expect(refund).toMatchObject({ amount: 12.34, flow: 'income', category: 'Dining' });
+    expect(renamed).toMatchObject({ amount: 30, category: 'Split', notes: 'Weekly shop', splits: [{ amount: 30 }] });
+  });
+
+  it('rejects payee and flow changes on transfers', async () => {
+    const session = makeSession({
+      getTransaction: vi.fn().mockResolvedValue({
+        id: 'txn_transfer',
+        date: '2026-02-08',
+        amount: -5000,
+        accountId: 'acc_1',
+        payeeId: 'pay_transfer',
+        transferId: 'txn_transfer_in'
+      })
+    });
+    const updateTransaction = vi.spyOn(session, 'updateTransaction');
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    await expect(
+      service.updateEntry({ budgetId: 'budget_abc', entryId: 'txn_transfer', payee: 'Coffee Shop' })
+    ).rejects.toMatchObject({ statusCode: 400, details: { entryId: 'txn_transfer' } });
+    await expect(
+      service.updateEntry({ budgetId: 'budget_abc', entryId: 'txn_transfer', payeeId: 'pay_1' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      service.updateEntry({ budgetId: 'budget_abc', entryId: 'txn_transfer', flow: 'income' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(updateTransaction).not.toHaveBeenCalled();
+
+    await service.updateEntry({ budgetId: 'budget_abc', entryId: 'txn_transfer', amount: 60, notes: 'Savings' });
+    expect(updateTransaction).toHaveBeenCalledWith(
+      'txn_transfer',
+      expect.objectContaining({ amount: -6000, notes: 'Savings' })
+    );
+  });
+
+  it('deletes an existing entry, notifies write listeners and rejects unknown ids', async () => {
+    const session = makeSession();
+    const deleteTransaction = vi.spyOn(session, 'deleteTransaction');
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const onWrite = vi.fn();
+    service.onWrite(onWrite);
+
+    await service.deleteEntry({ budgetId: 'budget_abc', entryId: 'txn_expense' });
+    expect(deleteTransaction).toHaveBeenCalledWith('txn_expense');
+    expect(onWrite).toHaveBeenCalledWith('budget_abc');
+
+    await expect(service.deleteEntry({ budgetId: 'budget_abc', entryId: 'txn_missing' })).rejects.toMatchObject({
+      statusCode: 404
+    });
+    expect(deleteTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('creates split entries as Actual subtransactions and rejects mismatched totals', async () => {
+    const session = makeSession({
+      getCategories: vi.fn().mockResolvedValue([
+        { id: 'cat_1', name: 'Dining', isIncome: false, hidden: false },
+        { id: 'cat_2', name: 'Household', isIncome: false, hidden: false }
+      ])
+    });
+    const createTransaction = vi.spyOn(session, 'createTransaction');
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const created = await service.createEntry({
+      budgetId: 'budget_abc',
+      amount: 30,
+      flow: 'expense',
+      date: '2026-02-08',
+      payee: 'Coffee Shop',
+      account: 'Checking',
+      notes: 'Weekly shop',
+      splits: [
+        { amount: 20.5, category: 'Dining' },
+        { amount: 9.5, category: 'Household', notes: 'Soap' }
+      ]
+    });
+
+    expect(createTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: -3000,
+        categoryId: undefined,
+        subtransactions: [
+          { amount: -2050, categoryId: 'cat_1', notes: undefined },
+          { amount: -950, categoryId: 'cat_2', notes: 'Soap' }
+        ]
+      })
+    );
+    expect(created.category).toBe('Split');
+    expect(created.splits).toEqual([
+      { amount: 20.5, category: 'Dining', categoryId: 'cat_1', notes: undefined },
+      { amount: 9.5, category: 'Household', categoryId: 'cat_2', notes: 'Soap' }
+    ]);
+
+    await expect(
+      service.createEntry({
+        budgetId: 'budget_abc',
+        amount: 30,
+        flow: 'expense',
+        date: '2026-02-08',
+        payee: 'Coffee Shop',
+        account: 'Checking',
+        notes: '',
+        splits: [{ amount: 20, category: 'Dining' }]
+      })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(createTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('nests split lines under their parent when listing entries', async () => {
+    const session = makeSession({
+      listTransactions: vi.fn().mockResolvedValue([
+        {
+          id: 'txn_parent',
+          date: '2026-02-08',
+          amount: -3000,
+          accountId: 'acc_1',
+          payeeId: 'pay_1',
+          isParent: true
+        },
+        {
+          id: 'txn_child_1',
+          date: '2026-02-08',
+          amount: -2000,
+          accountId: 'acc_1',
+          categoryId: 'cat_1',
+          parentId: 'txn_parent'
+        },
+        {
+          id: 'txn_child_2',
+          date: '2026-02-08',
+          amount: -1000,
+          accountId: 'acc_1',
+          categoryId: 'cat_1',
+          notes: 'tip',
+          parentId: 'txn_parent'
+        }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const result = await service.listEntries({
+      budgetId: 'budget_abc',
+      from: '2026-02-01',
+      to: '2026-02-28',
+      flow: 'all',
+      limit: 100,
+      offset: 0
+    });
+
+    expect(result.total).toBe(1);
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({
+      id: 'txn_parent',
+      amount: 30,
+      category: 'Split',
+      splits: [
+        { id: 'txn_child_1', amount: 20, category: 'Dining' },
+        { id: 'txn_child_2', amount: 10, category: 'Dining', notes: 'tip' }
+      ]
+    });
+  });
+
+  it('returns split lines signed in the parent flow, including refunds and zero lines', async () => {
+    const session = makeSession({
+      listTransactions: vi.fn().mockResolvedValue([
+        { id: 'txn_parent', date: '2026-02-08', amount: -3000, accountId: 'acc_1', payeeId: 'pay_1', isParent: true },
+        { id: 'txn_child_1', date: '2026-02-08', amount: -3500, accountId: 'acc_1', categoryId: 'cat_1', parentId: 'txn_parent' },
+        {
+          id: 'txn_child_2',
+          date: '2026-02-08',
+          amount: 500,
+          accountId: 'acc_1',
+          categoryId: 'cat_1',
+          notes: 'cashback',
+          parentId: 'txn_parent'
+        },
+        { id: 'txn_child_3', date: '2026-02-08', amount: 0, accountId: 'acc_1', categoryId: 'cat_1', parentId: 'txn_parent' }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const result = await service.listEntries({
+      budgetId: 'budget_abc',
+      from: '2026-02-01',
+      to: '2026-02-28',
+      flow: 'all',
+      limit: 100,
+      offset: 0
+    });
+
+    expect(listEntriesResponseSchema.parse(result).items[0]).toMatchObject({
+      amount: 30,
+      flow: 'expense',
+      splits: [
+        { id: 'txn_child_1', amount: 35 },
+        { id: 'txn_child_2', amount: -5, notes: 'cashback' },
+        { id: 'txn_child_3', amount: 0 }
+      ]
+    });
+  });
+
+  it('summarizes the full filtered set and groups split lines by their own category', async () => {
+    const session = makeSession({
+      getCategories: vi.fn().mockResolvedValue([
+        { id: 'cat_1', name: 'Dining', isIncome: false, hidden: false },
+        { id: 'cat_2', name: 'Groceries', isIncome: false, hidden: false },
+        { id: 'cat_3', name: 'Salary', isIncome: true, hidden: false }
+      ]),
+      listTransactions: vi.fn().mockResolvedValue([
+        { id: 'txn_a', date: '2026-02-03', amount: -1500, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1' },
+        { id: 'txn_b', date: '2026-02-10', amount: -3000, accountId: 'acc_1', payeeId: 'pay_1', isParent: true },
+        { id: 'txn_b1', date: '2026-02-10', amount: -2000, accountId: 'acc_1', categoryId: 'cat_1', parentId: 'txn_b' },
+        { id: 'txn_b2', date: '2026-02-10', amount: -1000, accountId: 'acc_1', categoryId: 'cat_2', parentId: 'txn_b' },
+        { id: 'txn_c', date: '2026-03-02', amount: 5000, accountId: 'acc_1', categoryId: 'cat_3', payeeId: 'pay_1' }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const query = { budgetId: 'budget_abc', from: '2026-02-01', to: '2026-03-31', flow: 'all' as const, limit: 1, offset: 0 };
+
+    const plain = await service.listEntries(query);
+    expect(plain.summary).toBeUndefined();
+
+    const summarized = await service.listEntries({ ...query, summary: true });
+    expect(summarized.items).toHaveLength(1);
+    expect(summarized.summary).toEqual({ count: 3, income: 50, expense: 45, net: 5 });
+
+    const byCategory = await service.listEntries({ ...query, groupBy: 'category' });
+    expect(byCategory.summary?.groups).toEqual([
+      { key: 'Dining', id: 'cat_1', count: 2, income: 0, expense: 35, net: -35 },
+      { key: 'Groceries', id: 'cat_2', count: 1, income: 0, expense: 10, net: -10 },
+      { key: 'Salary', id: 'cat_3', count: 1, income: 50, expense: 0, net: 50 }
+    ]);
+
+    const byMonth = await service.listEntries({ ...query, flow: 'expense', groupBy: 'month' });
+    expect(byMonth.summary).toEqual({
+      count: 2,
+      income: 0,
+      expense: 45,
+      net: -45,
+      groupBy: 'month',
+      groups: [{ key: '2026-02', count: 2, income: 0, expense: 45, net: -45 }]
+    });
+  });
+
+  it('creates transfers against the target account transfer payee', async () => {
+    const session = makeSession({
+      getAccounts: vi.fn().mockResolvedValue([
+        { id: 'acc_1', name: 'Checking' },
+        { id: 'acc_2', name: 'Savings' }
+      ]),
+      getPayees: vi.fn().mockResolvedValue([
+        { id: 'pay_1', name: 'Coffee Shop' },
+        { id: 'pay_transfer_1', name: '', transferAccountId: 'acc_1' },
+        { id: 'pay_transfer_2', name: '', transferAccountId: 'acc_2' }
+      ])
+    });
+    const createTransaction = vi.spyOn(session, 'createTransaction');
+    const createPayee = vi.spyOn(session, 'createPayee');
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const created = await service.createEntry({
+      budgetId: 'budget_abc',
+      amount: 250,
+      flow: 'transfer',
+      date: '2026-02-08',
+      fromAccount: 'Checking',
+      toAccount: 'Savings',
+      notes: 'Monthly savings'
+    });
+
+    expect(createTransaction).toHaveBeenCalledWith({
+      accountId: 'acc_1',
+      categoryId: undefined,
+      payeeId: 'pay_transfer_2',
+      date: '2026-02-08',
+      amount: -25000,
+      notes: 'Monthly savings'
+    });
+    expect(createPayee).not.toHaveBeenCalled();
+    expect(created).toMatchObject({
+      flow: 'transfer',
+      amount: 250,
+      account: 'Checking',
+      fromAccount: 'Checking',
+      toAccount: 'Savings',
+      category: 'Transfer'
+    });
+  });
+
+  it('lists linked transfers once and filters them by the transfer flow', async () => {
+    const session = makeSession({
+      getAccounts: vi.fn().mockResolvedValue([
+        { id: 'acc_1', name: 'Checking' },
+        { id: 'acc_2', name: 'Savings' }
+      ]),
+      getPayees: vi.fn().mockResolvedValue([
+        { id: 'pay_1', name: 'Coffee Shop' },
+        { id: 'pay_transfer_1', name: '', transferAccountId: 'acc_1' },
+        { id: 'pay_transfer_2', name: '', transferAccountId: 'acc_2' }
+      ]),
+      listTransactions: vi.fn().mockResolvedValue([
+        {
+          id: 'txn_out',
+          date: '2026-02-08',
+          amount: -25000,
+          accountId: 'acc_1',
+          payeeId: 'pay_transfer_2',
+          transferId: 'txn_in'
+        },
+        {
+          id: 'txn_in',
+          date: '2026-02-08',
+          amount: 25000,
+          accountId: 'acc_2',
+          payeeId: 'pay_transfer_1',
+          transferId: 'txn_out'
+        },
+        {
+          id: 'txn_income',
+          date: '2026-02-09',
+          amount: 5000,
+          accountId: 'acc_1',
+          categoryId: 'cat_1',
+          payeeId: 'pay_1'
+        }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const baseQuery = {
+      budgetId: 'budget_abc',
+      from: '2026-02-01',
+      to: '2026-02-28',
+      limit: 100,
+      offset: 0
+    };
+
+    const all = await service.listEntries({ ...baseQuery, flow: 'all' });
+    const transfers = await service.listEntries({ ...baseQuery, flow: 'transfer' });
+    const income = await service.listEntries({ ...baseQuery, flow: 'income' });
+
+    expect(all.total).toBe(2);
+    expect(transfers.items).toEqual([
+      expect.objectContaining({
+        id: 'txn_out',
+        flow: 'transfer',
+        amount: 250,
+        fromAccount: 'Checking',
+        toAccount: 'Savings'
+      })
+    ]);
+    expect(income.items.map((item) => item.id)).toEqual(['txn_income']);
+  });
+
+  it('adds the filtered account running balance from its balance before the range', async () => {
+    const getAccountBalance = vi.fn().mockResolvedValue(100000);
+    const session = makeSession({
+      getAccounts: vi.fn().mockResolvedValue([
+        { id: 'acc_1', name: 'Checking' },
+        { id: 'acc_2', name: 'Savings' }
+      ]),
+      getAccountBalance,
+      getPayees: vi.fn().mockResolvedValue([
+        { id: 'pay_1', name: 'Coffee Shop' },
+        { id: 'pay_transfer_1', name: '', transferAccountId: 'acc_1' },
+        { id: 'pay_transfer_2', name: '', transferAccountId: 'acc_2' }
+      ]),
+      listTransactions: vi.fn().mockResolvedValue([
+        { id: 'txn_out', date: '2026-02-08', amount: -25000, accountId: 'acc_1', payeeId: 'pay_transfer_2', transferId: 'txn_in' },
+        { id: 'txn_in', date: '2026-02-08', amount: 25000, accountId: 'acc_2', payeeId: 'pay_transfer_1', transferId: 'txn_out' },
+        { id: 'txn_income', date: '2026-02-09', amount: 5000, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1' },
+        { id: 'txn_fee', date: '2026-02-15', amount: -200, accountId: 'acc_2', categoryId: 'cat_1', payeeId: 'pay_1' },
+        { id: 'txn_interest', date: '2026-02-20', amount: 500, accountId: 'acc_2', categoryId: 'cat_1', payeeId: 'pay_1' }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const query = { budgetId: 'budget_abc', from: '2026-02-01', to: '2026-02-28', flow: 'all' as const, limit: 100, offset: 0 };
+
+    const register = await service.listEntries({ ...query, account: ['Savings'], includeRunningBalance: true });
+    expect(getAccountBalance).toHaveBeenCalledWith('acc_2', '2026-01-31');
+    expect(register.items.map((item) => [item.id, item.runningBalance])).toEqual([
+      ['txn_out', 1250],
+      ['txn_fee', 1248],
+      ['txn_interest', 1253]
+    ]);
+
+    const income = await service.listEntries({
+      ...query,
+      flow: 'income',
+      account: ['Savings'],
+      includeRunningBalance: true
+    });
+    expect(income.items.map((item) => [item.id, item.runningBalance])).toEqual([['txn_interest', 1253]]);
+
+    await expect(service.listEntries({ ...query, includeRunningBalance: true })).rejects.toMatchObject({
+      statusCode: 400
+    });
+  });
+
+  it('creates a batch in one budget session and reports each item', async () => {
+    const session = makeSession();
+    const createTransaction = vi.spyOn(session, 'createTransaction');
+    const createPayee = vi.spyOn(session, 'createPayee');
+    const getPayees = vi.spyOn(session, 'getPayees');
+    const factory = makeFactory(session);
+    const withBudget = vi.spyOn(factory, 'withBudget');
+    const service = new EntryService(
+      factory,
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' }),
+      60_000
+    );
+
+    const item = {
+      amount: 5,
+      flow: 'expense' as const,
+      date: '2026-02-08',
+      payee: 'New Bakery',
+      category: 'Dining',
+      account: 'Checking',
+      notes: ''
+    };
+
+    const result = await service.createEntriesBatch({
+      budgetId: 'budget_abc',
+      items: [
+        { ...item, idempotencyKey: 'batch-1' },
+        { ...item, category: 'Unknown Category' },
+        { ...item, amount: 7 },
+        { ...item, idempotencyKey: 'batch-1' }
+      ]
+    });
+
+    expect(withBudget).toHaveBeenCalledTimes(1);
+    expect(getPayees).toHaveBeenCalledTimes(1);
+    expect(createPayee).toHaveBeenCalledTimes(1);
+    expect(createTransaction).toHaveBeenCalledTimes(2);
+    expect(result.created).toBe(2);
+    expect(result.duplicates).toBe(1);
+    expect(result.failed).toBe(1);
+    expect(result.items.map((entry) => entry.status)).toEqual(['created', 'failed', 'created', 'duplicate']);
+    expect(result.items[3]).toMatchObject({ entry: { id: 'txn_created' } });
+    expect(result.items[1]).toMatchObject({ index: 1, error: { code: 'not_found' } });
+
+    const replay = await service.createEntry({ ...item, budgetId: 'budget_abc', idempotencyKey: 'batch-1' });
+    expect(replay.id).toBe('txn_created');
+    expect(createTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes imported ids to Actual and reports already imported rows as duplicates', async () => {
+    const session = makeSession({
+      findTransactionByImportedId: vi.fn().mockImplementation(async (_accountId: string, importedId: string) =>
+        importedId === 'FIT-1'
+          ? {
+              id: 'txn_imported',
+              date: '2026-02-08',
+              amount: -500,
+              accountId: 'acc_1',
+              categoryId: 'cat_1',
+              payeeId: 'pay_1',
+              importedId: 'FIT-1'
+            }
+          : null
+      )
+    });
+    const createTransaction = vi.spyOn(session, 'createTransaction');
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' }),
+      60_000
+    );
+
+    const item = {
+      amount: 5,
+      flow: 'expense' as const,
+      date: '2026-02-08',
+      payee: 'Coffee Shop',
+      category: 'Dining',
+      account: 'Checking',
+      notes: ''
+    };
+
+    const result = await service.createEntriesBatch({
+      budgetId: 'budget_abc',
+      items: [
+        { ...item, importedId: 'FIT-1' },
+        { ...item, importedId: 'FIT-2' }
+      ]
+    });
+
+    expect(result).toMatchObject({ created: 1, duplicates: 1, failed: 0 });
+    expect(result.items[0]).toMatchObject({ status: 'duplicate', entry: { id: 'txn_imported', importedId: 'FIT-1' } });
+    expect(result.items[1]).toMatchObject({ status: 'created', entry: { id: 'txn_created', importedId: 'FIT-2' } });
+    expect(createTransaction).toHaveBeenCalledTimes(1);
+    expect(createTransaction).toHaveBeenCalledWith(expect.objectContaining({ accountId: 'acc_1', importedId: 'FIT-2' }));
+
+    const single = await service.createEntry({ ...item, budgetId: 'budget_abc', importedId: 'FIT-1' });
+    expect(single).toMatchObject({ id: 'txn_imported', duplicate: true });
+    expect(createTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('exports every entry of the range and can group them by account', async () => {
+    const session = makeSession({
+      getAccounts: vi.fn().mockResolvedValue([
+        { id: 'acc_1', name: 'Checking' },
+        { id: 'acc_2', name: 'Cash' }
+      ]),
+      listTransactions: vi.fn().mockResolvedValue([
+        { id: 'txn_b', date: '2026-02-09', amount: -100, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1' },
+        { id: 'txn_a', date: '2026-02-08', amount: -200, accountId: 'acc_2', categoryId: 'cat_1', payeeId: 'pay_1' },
+        { id: 'txn_c', date: '2026-02-10', amount: 300, accountId: 'acc_2', categoryId: 'cat_1', payeeId: 'pay_1' }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const input = { budgetId: 'budget_abc', from: '2026-02-01', to: '2026-02-28', flow: 'all' as const };
+
+    const byDate = [...(await service.exportEntries(input))];
+    expect(byDate.map((entry) => entry.id)).toEqual(['txn_a', 'txn_b', 'txn_c']);
+    expect(byDate[2]).toMatchObject({ flow: 'income', amount: 3, account: 'Cash', payee: 'Coffee Shop' });
+
+    const byAccount = [...(await service.exportEntries({ ...input, order: 'account' }))];
+    expect(byAccount.map((entry) => entry.id)).toEqual(['txn_b', 'txn_a', 'txn_c']);
+  });
+
+  it('applies list filters before pagination and rejects unknown account or category names', async () => {
+    const session = makeSession({
+      getCategories: vi.fn().mockResolvedValue([
+        { id: 'cat_1', name: 'Dining', isIncome: false, hidden: false },
+        { id: 'cat_2', name: 'Groceries', isIncome: false, hidden: false }
+      ]),
+      getPayees: vi.fn().mockResolvedValue([
+        { id: 'pay_1', name: 'Coffee Shop' },
+        { id: 'pay_2', name: 'Grocer' }
+      ]),
+      listTransactions: vi.fn().mockResolvedValue([
+        { id: 'txn_1', date: '2026-02-08', amount: -450, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1', notes: 'Latte' },
+        { id: 'txn_2', date: '2026-02-09', amount: -3000, accountId: 'acc_1', categoryId: 'cat_2', payeeId: 'pay_2' },
+        { id: 'txn_3', date: '2026-02-10', amount: -1200, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_2', notes: 'Lunch' },
+        { id: 'txn_4', date: '2026-02-11', amount: -800, accountId: 'acc_1', payeeId: 'pay_2', isParent: true },
+        { id: 'txn_4a', date: '2026-02-11', amount: -800, accountId: 'acc_1', categoryId: 'cat_1', parentId: 'txn_4', notes: 'Snacks' }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const base = { budgetId: 'budget_abc', from: '2026-02-01', to: '2026-02-28', flow: 'all' as const, limit: 1, offset: 0 };
+
+    const byCategory = await service.listEntries({ ...base, category: ['Dining'] });
+    expect(byCategory.total).toBe(3);
+    expect(byCategory.items.map((item) => item.id)).toEqual(['txn_1']);
+
+    const byAmount = await service.listEntries({ ...base, limit: 10, minAmount: 5, maxAmount: 20, payee: ['Grocer'] });
+    expect(byAmount.items.map((item) => item.id)).toEqual(['txn_3', 'txn_4']);
+
+    const bySearch = await service.listEntries({ ...base, limit: 10, search: ['LATTE', 'snacks'] });
+    expect(bySearch.items.map((item) => item.id)).toEqual(['txn_1', 'txn_4']);
+
+    const unknownPayee = await service.listEntries({ ...base, payee: ['Nobody'] });
+    expect(unknownPayee.total).toBe(0);
+
+    await expect(service.listEntries({ ...base, account: ['Checking', 'Brokerage'] })).rejects.toMatchObject({
+      statusCode: 404,
+      message: 'Account not found: Brokerage'
+    });
+    await expect(service.listEntries({ ...base, category: ['Travel'] })).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('pages with cursors that survive inserts and supports amount and payee sorting', async () => {
+    const transactions = [
+      { id: 'txn_1', date: '2026-02-08', amount: -450, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1' },
+      { id: 'txn_2', date: '2026-02-09', amount: -3000, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1' },
+      { id: 'txn_3', date: '2026-02-10', amount: 1200, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1' }
+    ];
+    const session = makeSession({
+      listTransactions: vi.fn().mockImplementation(async () => [...transactions])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const base = { budgetId: 'budget_abc', from: '2026-02-01', to: '2026-02-28', flow: 'all' as const, limit: 2, offset: 0 };
+
+    const first = await service.listEntries(base);
+    expect(first.items.map((item) => item.id)).toEqual(['txn_1', 'txn_2']);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    transactions.push({ id: 'txn_0', date: '2026-02-01', amount: -100, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1' });
+
+    const second = await service.listEntries({ ...base, cursor: first.nextCursor ?? undefined });
+    expect(second.items.map((item) => item.id)).toEqual(['txn_3']);
+    expect(second.total).toBe(4);
+    expect(second.nextCursor).toBeNull();
+
+    const byAmount = await service.listEntries({ ...base, limit: 10, sort: 'amount', order: 'desc' });
+    expect(byAmount.items.map((item) => item.id)).toEqual(['txn_2', 'txn_3', 'txn_1', 'txn_0']);
+
+    await expect(service.listEntries({ ...base, cursor: 'not-a-cursor' })).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      service.listEntries({ ...base, sort: 'payee', cursor: first.nextCursor ?? undefined })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('creates entries with a cleared flag and bulk updates cleared state', async () => {
+    const transactions: Record<string, ActualTransaction> = {
+      txn_1: { id: 'txn_1', date: '2026-02-08', amount: -450, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1', cleared: false, reconciled: false },
+      txn_2: { id: 'txn_2', date: '2026-02-09', amount: -300, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1', cleared: true, reconciled: true }
+    };
+    const session = makeSession({
+      getTransaction: vi.fn().mockImplementation(async (id: string) => transactions[id] ?? null)
+    });
+    const createTransaction = vi.spyOn(session, 'createTransaction');
+    const updateTransaction = vi.spyOn(session, 'updateTransaction');
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const created = await service.createEntry({
+      budgetId: 'budget_abc',
+      amount: 4.5,
+      flow: 'expense',
+      date: '2026-02-08',
+      payee: 'Coffee Shop',
+      category: 'Dining',
+      account: 'Checking',
+      notes: '',
+      cleared: false
+    });
+    expect(created).toMatchObject({ cleared: false, reconciled: false });
+    expect(createTransaction).toHaveBeenCalledWith(expect.objectContaining({ cleared: false }));
+
+    const cleared = await service.setEntriesCleared({ budgetId: 'budget_abc', ids: ['txn_1', 'txn_2', 'txn_1'], cleared: true });
+    expect(cleared).toMatchObject({ updated: 2, failed: 0 });
+    expect(cleared.items[0]).toMatchObject({ id: 'txn_1', status: 'updated', entry: { cleared: true } });
+    expect(updateTransaction).toHaveBeenCalledTimes(1);
+    expect(updateTransaction).toHaveBeenCalledWith('txn_1', { cleared: true });
+
+    const uncleared = await service.setEntriesCleared({
+      budgetId: 'budget_abc',
+      ids: ['txn_2', 'txn_missing'],
+      cleared: false
+    });
+    expect(uncleared).toMatchObject({ updated: 0, failed: 2 });
+    expect(uncleared.items.map((item) => item.status === 'failed' && item.error.code)).toEqual(['conflict', 'not_found']);
+  });
+
+  it('filters the list by cleared state', async () => {
+    const session = makeSession({
+      listTransactions: vi.fn().mockResolvedValue([
+        { id: 'txn_1', date: '2026-02-08', amount: -450, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1', cleared: true },
+        { id: 'txn_2', date: '2026-02-09', amount: -300, accountId: 'acc_1', categoryId: 'cat_1', payeeId: 'pay_1', cleared: false }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const pending = await service.listEntries({
+      budgetId: 'budget_abc',
+      from: '2026-02-01',
+      to: '2026-02-28',
+      flow: 'all',
+      limit: 10,
+      offset: 0,
+      cleared: false
+    });
+    expect(pending.items.map((item) => [item.id, item.cleared])).toEqual([['txn_2', false]]);
+  });
+
+  it('resolves references by id and rejects ambiguous names', async () => {
+    const session = makeSession({
+      getCategories: vi.fn().mockResolvedValue([
+        { id: 'cat_1', name: 'Dining', isIncome: false, hidden: false },
+        { id: 'cat_misc_a', name: 'Misc', isIncome: false, hidden: false },
+        { id: 'cat_misc_b', name: 'Misc', isIncome: false, hidden: false }
+      ])
+    });
+    const createTransaction = vi.spyOn(session, 'createTransaction');
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const base = { budgetId: 'budget_abc', amount: 5, flow: 'expense' as const, date: '2026-02-08', notes: '' };
+
+    const created = await service.createEntry({ ...base, accountId: 'acc_1', categoryId: 'cat_misc_b', payeeId: 'pay_1' });
+    expect(created).toMatchObject({
+      account: 'Checking',
+      accountId: 'acc_1',
+      category: 'Misc',
+      categoryId: 'cat_misc_b',
+      payee: 'Coffee Shop',
+      payeeId: 'pay_1'
+    });
+    expect(createTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ accountId: 'acc_1', categoryId: 'cat_misc_b', payeeId: 'pay_1' })
+    );
+
+    await expect(
+      service.createEntry({ ...base, account: 'Checking', category: 'Misc', payee: 'Coffee Shop' })
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'ambiguous_reference',
+      details: { ids: ['cat_misc_a', 'cat_misc_b'] }
+    });
+    await expect(
+      service.createEntry({ ...base, accountId: 'acc_missing', category: 'Dining', payee: 'Coffee Shop' })
+    ).rejects.toMatchObject({ statusCode: 404, message: 'Account not found: acc_missing' });
+  });
+
+  it('resolves names forgivingly and suggests close matches on a miss', async () => {
+    const session = makeSession({
+      getCategories: vi.fn().mockResolvedValue([
+        { id: 'cat_1', name: 'Dining', isIncome: false, hidden: false },
+        { id: 'cat_groceries', name: 'Groceries', isIncome: false, hidden: false }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' }),
+      undefined,
+      undefined,
+      buildNameAliases({ accounts: { chk: 'Checking' }, categories: {} })
+    );
+    const base = { budgetId: 'budget_abc', amount: 5, flow: 'expense' as const, date: '2026-02-08', notes: '' };
+
+    const created = await service.createEntry({ ...base, account: 'CHK', category: ' groceries', payee: 'Coffee Shop' });
+    expect(created).toMatchObject({ accountId: 'acc_1', categoryId: 'cat_groceries' });
+
+    await expect(
+      service.createEntry({ ...base, account: 'Checking', category: 'Grocries', payee: 'Coffee Shop' })
+    ).rejects.toMatchObject({
+      statusCode: 404,
+      message: 'Category not found: Grocries',
+      details: { suggestions: [{ id: 'cat_groceries', name: 'Groceries' }] }
+    });
+  });
+
+  it('reports stored names that no longer match an account or category', async () => {
+    const session = makeSession({
+      getAccounts: vi.fn().mockResolvedValue([
+        { id: 'acc_1', name: 'Checking' },
+        { id: 'acc_savings', name: 'Savings' }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' }),
+      undefined,
+      undefined,
+      buildNameAliases({ accounts: { chk: 'Checking' }, categories: {} })
+    );
+
+    const stale = await service.findStaleReferences({
+      budgetId: 'budget_abc',
+      account: 'chk',
+      category: 'Dinning',
+      toAccount: 'Brokerage'
+    });
+
+    expect(stale).toEqual([
+      { field: 'category', name: 'Dinning', suggestions: [{ id: 'cat_1', name: 'Dining' }] },
+      { field: 'toAccount', name: 'Brokerage', suggestions: [] }
+    ]);
+
+    const createTransaction = vi.spyOn(session, 'createTransaction');
+    await expect(
+      service.createEntry(
+        {
+          budgetId: 'budget_abc',
+          amount: 5,
+          flow: 'expense',
+          date: '2026-02-08',
+          payee: 'Coffee Shop',
+          category: 'Dining',
+          account: 'Checking',
+          notes: ''
+        },
+        { staleReferenceCheck: { names: { category: 'Dinning' }, message: 'Template references missing names' } }
+      )
+    ).rejects.toMatchObject({ statusCode: 409, details: { stale: [{ field: 'category', name: 'Dinning' }] } });
+    expect(createTransaction).not.toHaveBeenCalled();
+  });
+
+  it('maps payees through budget rules and applies the creation policy', async () => {
+    const session = makeSession({
+      getPayees: vi.fn().mockResolvedValue([
+        { id: 'pay_1', name: 'Coffee Shop' },
+        { id: 'pay_star', name: 'Starbucks' }
+      ])
+    });
+    const rules = compilePayeeRules({
+      budget_abc: {
+        creation: 'confirm',
+        aliases: { sbux: 'Starbucks' },
+        patterns: [{ pattern: '^starbucks\\b', flags: 'i', payee: 'Starbucks' }]
+      }
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' }),
+      undefined,
+      undefined,
+      undefined,
+      rules
+    );
+    const base = { budgetId: 'budget_abc', amount: 5, flow: 'expense' as const, date: '2026-02-08', notes: '' };
+    const entry = { ...base, account: 'Checking', category: 'Dining' };
+
+    await expect(service.createEntry({ ...entry, payee: 'STARBUCKS #123' })).resolves.toMatchObject({ payeeId: 'pay_star' });
+    await expect(service.createEntry({ ...entry, payee: 'SBUX' })).resolves.toMatchObject({ payeeId: 'pay_star' });
+    await expect(service.createEntry({ ...entry, payee: 'coffee shop' })).resolves.toMatchObject({ payeeId: 'pay_1' });
+    await expect(service.createEntry({ ...entry, payee: 'Coffee Shops' })).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'confirmation_required',
+      details: { payee: 'Coffee Shops', suggestions: [{ id: 'pay_1', name: 'Coffee Shop' }] }
+    });
+    expect(session.createPayee).not.toHaveBeenCalled();
+
+    await expect(service.createEntry({ ...entry, payee: 'Bakery', createPayee: true })).resolves.toMatchObject({
+      payee: 'Bakery'
+    });
+    expect(session.createPayee).toHaveBeenCalledWith('Bakery');
+  });
+
+  it('suggests categories from payee history and fills in a confident one on create', async () => {
+    const history = (categoryId: string, index: number): ActualTransaction => ({
+      id: `txn_${categoryId}_${index}`,
+      date: '2026-02-01',
+      amount: -450,
+      accountId: 'acc_1',
+      categoryId,
+      payeeId: 'pay_1'
+    });
+    const session = makeSession({
+      getCategories: vi.fn().mockResolvedValue([
+        { id: 'cat_1', name: 'Dining', isIncome: false, hidden: false },
+        { id: 'cat_snacks', name: 'Snacks', isIncome: false, hidden: false }
+      ]),
+      listTransactions: vi
+        .fn()
+        .mockResolvedValue([history('cat_1', 1), history('cat_1', 2), history('cat_1', 3), history('cat_snacks', 1)])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+
+    const suggestion = await service.suggestEntry({ budgetId: 'budget_abc', payee: 'coffee shop' });
+    expect(suggestion).toEqual({
+      payee: 'Coffee Shop',
+      payeeId: 'pay_1',
+      categories: [
+        { category: 'Dining', categoryId: 'cat_1', count: 3, score: 0.75 },
+        { category: 'Snacks', categoryId: 'cat_snacks', count: 1, score: 0.25 }
+      ],
+      account: 'Checking',
+      accountId: 'acc_1',
+      confident: true
+    });
+    await expect(service.suggestEntry({ budgetId: 'budget_abc', payee: 'Unknown Cafe' })).resolves.toEqual({
+      payee: 'Unknown Cafe',
+      categories: [],
+      confident: false
+    });
+
+    const base = { budgetId: 'budget_abc', amount: 4.5, flow: 'expense' as const, date: '2026-02-08', notes: '' };
+    const created = await service.createEntry({ ...base, account: 'Checking', payee: 'Coffee Shop' });
+    expect(created).toMatchObject({ category: 'Dining', categoryId: 'cat_1', categorySuggested: true });
+    expect(session.createTransaction).toHaveBeenCalledWith(expect.objectContaining({ categoryId: 'cat_1' }));
+
+    await expect(service.createEntry({ ...base, account: 'Checking', payee: 'New Bakery' })).rejects.toMatchObject({
+      statusCode: 400,
+      details: { suggestions: [] }
+    });
+    expect(session.createPayee).not.toHaveBeenCalled();
+  });
+
+  it('resolves loose entry input to canonical names without writing', async () => {
+    const session = makeSession({
+      getAccounts: vi.fn().mockResolvedValue([
+        { id: 'acc_1', name: 'Checking' },
+        { id: 'acc_visa', name: 'Visa Card' }
+      ]),
+      listTransactions: vi.fn().mockResolvedValue([
+        { id: 'txn_a', date: '2026-02-01', amount: -450, accountId: 'acc_visa', categoryId: 'cat_1', payeeId: 'pay_1' },
+        { id: 'txn_b', date: '2026-02-02', amount: -450, accountId: 'acc_visa', categoryId: 'cat_1', payeeId: 'pay_1' }
+      ])
+    });
+    const service = new EntryService(
+      makeFactory(session),
+      budgetService,
+      new BudgetLockManager(),
+      200,
+      pino({ level: 'silent' })
+    );
+    const base = { budgetId: 'budget_abc', amount: 4.5, flow: 'expense' as const, date: '2026-02-08', notes: '' };
+
+    await expect(
+      service.resolveEntryInput({ ...base, payee: 'coffee shop', account: 'visa card', categoryHint: 'dining' })
+    ).resolves.toEqual({
+      input: { ...base, payee: 'Coffee Shop', account: 'Visa Card', category: 'Dining' },
+      categorySuggested: false
+    });
+    await expect(service.resolveEntryInput({ ...base, payee: 'Coffee Shop', categoryHint: 'latte' })).resolves.toEqual({
+      input: { ...base, payee: 'Coffee Shop', account: 'Visa Card', category: 'Dining', notes: 'latte' },
+      categorySuggested: true
+    });
+    await expect(service.resolveEntryInput({ ...base, payee: 'New Bakery' })).rejects.toMatchObject({ statusCode: 400 });
+    expect(session.createPayee).not.toHaveBeenCalled();
+    expect(session.createTransaction).not.toHaveBeenCalled();
+  });
 });
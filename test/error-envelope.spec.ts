@@ -2,23 +2,18 @@ import request from 'supertest';
 import { describe, expect, it, vi } from 'vitest';
 import { buildApp } from '../src/app';
 import { UpstreamError } from '../src/errors';
-import { makeConfig } from './helpers';
+import { makeConfig, makeDependencies } from './helpers';
 
 describe('error envelope', () => {
   it('does not expose internal details for 5xx responses', async () => {
     const config = makeConfig();
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
-      },
+    const app = buildApp(config, makeDependencies({
       entryService: {
-        listEntries: vi.fn().mockRejectedValue(new UpstreamError('Actual failed', { secret: 'token-123' })),
-        createEntry: vi.fn()
+        listEntries: vi.fn().mockRejectedValue(new UpstreamError('Actual failed', { secret: 'token-123' }))
       }
-    });
+    }));
+
+    await app.ready();
 
     const response = await request(app.server)
       .get('/budgets/budget_abc/entries?from=2026-02-01&to=2026-02-28&flow=all&limit=100&offset=0')
@@ -33,18 +28,9 @@ describe('error envelope', () => {
 
   it('keeps validation details for 4xx responses', async () => {
     const config = makeConfig();
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies());
+
+    await app.ready();
 
     const response = await request(app.server)
       .get('/budgets/budget_abc/entries?from=bad&to=2026-02-28&flow=all&limit=100&offset=0')
@@ -1,23 +1,17 @@
 import request from 'supertest';
 import { describe, expect, it, vi } from 'vitest';
 import { buildApp } from '../src/app';
-import { makeConfig } from './helpers';
+import { makeConfig, makeDependencies } from './helpers';
 
 describe('health and readiness routes', () => {
   it('keeps /health as 200 when Actual connectivity is degraded', async () => {
     const config = makeConfig();
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockRejectedValue(new Error('down'))
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies({
+      actualClientFactory: { ping: vi.fn().mockRejectedValue(new Error('down')) },
+      budgetService: { listBudgets: vi.fn().mockResolvedValue([]) }
+    }));
+
+    await app.ready();
 
     const response = await request(app.server).get('/health');
 
@@ -30,18 +24,12 @@ describe('health and readiness routes', () => {
 
   it('returns 503 on /ready when Actual connectivity is degraded', async () => {
     const config = makeConfig();
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockRejectedValue(new Error('down'))
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies({
+      actualClientFactory: { ping: vi.fn().mockRejectedValue(new Error('down')) },
+      budgetService: { listBudgets: vi.fn().mockResolvedValue([]) }
+    }));
+
+    await app.ready();
 
     const response = await request(app.server).get('/ready');
 
@@ -54,18 +42,9 @@ describe('health and readiness routes', () => {
 
   it('returns 200 on /ready when Actual connectivity is healthy', async () => {
     const config = makeConfig();
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies({ budgetService: { listBudgets: vi.fn().mockResolvedValue([]) } }));
+
+    await app.ready();
 
     const response = await request(app.server).get('/ready');
 
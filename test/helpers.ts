@@ -1,3 +1,5 @@
+import { vi } from 'vitest';
+import type { AppDependencies } from '../src/app';
 import type { AppConfig } from '../src/config';
 
 export function makeConfig(overrides: Partial<AppConfig> = {}): AppConfig {
@@ -15,6 +17,10 @@ export function makeConfig(overrides: Partial<AppConfig> = {}): AppConfig {
     bodyLimitBytes: 1048576,
     idempotencyTtlMs: 86400000,
     idempotencyMaxRecords: 10000,
+    reportCacheTtlMs: 300000,
+    reportMonthStartDay: 1,
+    nameAliases: { accounts: {}, categories: {} },
+    payeeRules: {},
     authFailureWindowMs: 60000,
     authMaxAttempts: 10,
     authBlockMs: 300000,
@@ -27,3 +33,99 @@ export function makeConfig(overrides: Partial<AppConfig> = {}): AppConfig {
     ...overrides
   };
 }
+
+type ServiceDependencies = Omit<AppDependencies, 'logger' | 'apiKeyAuth'>;
+
+export type DependencyOverrides = {
+  [K in keyof ServiceDependencies]?: Partial<ServiceDependencies[K]>;
+};
+
+/**
+ * App dependencies with every service method stubbed. Overrides are merged per service, so a test
+ * only spells out the methods it exercises.
+ */
+export function makeDependencies(overrides: DependencyOverrides = {}): AppDependencies {
+  const stubs: ServiceDependencies = {
+    actualClientFactory: {
+      ping: vi.fn().mockResolvedValue(undefined)
+    },
+    budgetService: {
+      listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
+    },
+    entryService: {
+      listEntries: vi.fn(),
+      createEntry: vi.fn(),
+      getEntry: vi.fn(),
+      updateEntry: vi.fn(),
+      deleteEntry: vi.fn(),
+      createEntriesBatch: vi.fn(),
+      exportEntries: vi.fn(),
+      setEntriesCleared: vi.fn(),
+      suggestEntry: vi.fn()
+    },
+    importService: {
+      listProfiles: vi.fn(),
+      saveProfile: vi.fn(),
+      deleteProfile: vi.fn(),
+      importCsv: vi.fn(),
+      importOfx: vi.fn(),
+      importQif: vi.fn()
+    },
+    payeeService: {
+      listPayees: vi.fn(),
+      mergePayees: vi.fn()
+    },
+    quickEntryService: {
+      createQuickEntry: vi.fn()
+    },
+    templateService: {
+      listTemplates: vi.fn(),
+      getTemplate: vi.fn(),
+      saveTemplate: vi.fn(),
+      deleteTemplate: vi.fn(),
+      createEntryFromTemplate: vi.fn()
+    },
+    scheduleService: {
+      listSchedules: vi.fn(),
+      createSchedule: vi.fn(),
+      postScheduledEntry: vi.fn()
+    },
+    accountService: {
+      listAccounts: vi.fn()
+    },
+    categoryService: {
+      listCategories: vi.fn()
+    },
+    budgetMonthService: {
+      getBudgetMonth: vi.fn(),
+      setBudgetAmount: vi.fn(),
+      copyPreviousMonth: vi.fn(),
+      applyAverage: vi.fn()
+    },
+    reportService: {
+      getSpendingReport: vi.fn(),
+      getCashFlow: vi.fn(),
+      getNetWorth: vi.fn()
+    }
+  };
+
+  const merge = <K extends keyof ServiceDependencies>(key: K): ServiceDependencies[K] => ({
+    ...stubs[key],
+    ...overrides[key]
+  });
+
+  return {
+    actualClientFactory: merge('actualClientFactory'),
+    budgetService: merge('budgetService'),
+    entryService: merge('entryService'),
+    importService: merge('importService'),
+    payeeService: merge('payeeService'),
+    quickEntryService: merge('quickEntryService'),
+    templateService: merge('templateService'),
+    scheduleService: merge('scheduleService'),
+    accountService: merge('accountService'),
+    categoryService: merge('categoryService'),
+    budgetMonthService: merge('budgetMonthService'),
+    reportService: merge('reportService')
+  };
+}
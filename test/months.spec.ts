@@ -0,0 +1,285 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import pino from 'pino';
+import { BudgetMonthService } from '../src/actual/budgetMonthService';
+import type { ActualBudgetMonth, ActualBudgetSession, ActualClientFactory } from '../src/actual/clientFactory';
+import { BudgetLockManager } from '../src/actual/locks';
+import { buildApp } from '../src/app';
+import { makeConfig, makeDependencies } from './helpers';
+
+const february: ActualBudgetMonth = {
+  month: '2026-02',
+  toBudget: -2500,
+  totalBudgeted: 60000,
+  totalIncome: 350000,
+  totalSpent: 41550,
+  groups: [
+    {
+      id: 'grp_food',
+      name: 'Food',
+      isIncome: false,
+      hidden: false,
+      budgeted: 60000,
+      activity: -41550,
+      balance: 18450,
+      categories: [
+        {
+          id: 'cat_dining',
+          name: 'Dining',
+          isIncome: false,
+          hidden: false,
+          budgeted: 20000,
+          activity: -23550,
+          balance: -3550,
+          carryover: false
+        },
+        {
+          id: 'cat_groceries',
+          name: 'Groceries',
+          isIncome: false,
+          hidden: false,
+          budgeted: 40000,
+          activity: 0,
+          balance: 40000,
+          carryover: true
+        }
+      ]
+    },
+    {
+      id: 'grp_income',
+      name: 'Income',
+      isIncome: true,
+      hidden: false,
+      budgeted: 0,
+      activity: 350000,
+      balance: 0,
+      categories: [
+        {
+          id: 'cat_salary',
+          name: 'Salary',
+          isIncome: true,
+          hidden: false,
+          budgeted: 0,
+          activity: 350000,
+          balance: 0,
+          carryover: false
+        }
+      ]
+    }
+  ]
+};
+
+function makeSession(months: ActualBudgetMonth[] = [february]): ActualBudgetSession {
+  return {
+    sync: vi.fn().mockResolvedValue(undefined),
+    getAccounts: vi.fn().mockResolvedValue([]),
+    getAccountBalance: vi.fn().mockResolvedValue(0),
+    getCategories: vi.fn().mockResolvedValue([]),
+    getCategoryGroups: vi.fn().mockResolvedValue([]),
+    getBudgetMonth: vi
+      .fn()
+      .mockImplementation(async (month: string) => months.find((item) => item.month === month) ?? null),
+    setBudgetAmount: vi.fn().mockResolvedValue(undefined),
+    getPayees: vi.fn().mockResolvedValue([]),
+    createPayee: vi.fn(),
+    mergePayees: vi.fn(),
+    listTransactions: vi.fn().mockResolvedValue([]),
+    createTransaction: vi.fn(),
+    getTransaction: vi.fn().mockResolvedValue(null),
+    findTransactionByImportedId: vi.fn().mockResolvedValue(null),
+    updateTransaction: vi.fn(),
+    deleteTransaction: vi.fn(),
+    getSchedules: vi.fn(),
+    createSchedule: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+function makeService(session: ActualBudgetSession): BudgetMonthService {
+  const factory: ActualClientFactory = {
+    listBudgets: async () => [{ id: 'budget_abc', name: 'Main Budget' }],
+    withBudget: async <T>(_budgetId: string, fn: (s: ActualBudgetSession) => Promise<T>) => fn(session),
+    ping: async () => undefined,
+    shutdown: async () => undefined
+  };
+
+  return new BudgetMonthService(
+    factory,
+    { assertBudgetAccessible: vi.fn().mockResolvedValue(undefined) },
+    new BudgetLockManager(),
+    200,
+    pino({ level: 'silent' })
+  );
+}
+
+describe('BudgetMonthService', () => {
+  it('keeps the sign of budgeted, balance and toBudget and reports activity as an amount and flow', async () => {
+    const service = makeService(makeSession());
+
+    const result = await service.getBudgetMonth({ budgetId: 'budget_abc', month: '2026-02' });
+
+    expect(result).toMatchObject({
+      month: '2026-02',
+      toBudget: -25,
+      overbudgeted: true,
+      totalBudgeted: 600,
+      totalIncome: 3500,
+      totalSpent: 415.5
+    });
+    expect(result.groups[0]?.categories).toEqual([
+      {
+        id: 'cat_dining',
+        name: 'Dining',
+        isIncome: false,
+        hidden: false,
+        budgeted: 200,
+        activity: { amount: 235.5, flow: 'expense' },
+        balance: -35.5,
+        overspent: true,
+        carryover: false
+      },
+      {
+        id: 'cat_groceries',
+        name: 'Groceries',
+        isIncome: false,
+        hidden: false,
+        budgeted: 400,
+        activity: { amount: 0, flow: 'expense' },
+        balance: 400,
+        overspent: false,
+        carryover: true
+      }
+    ]);
+    expect(result.groups[1]?.categories[0]?.activity).toEqual({ amount: 3500, flow: 'income' });
+  });
+
+  it('returns 404 for months outside the budget', async () => {
+    const service = makeService(makeSession([]));
+
+    await expect(service.getBudgetMonth({ budgetId: 'budget_abc', month: '1999-01' })).rejects.toMatchObject({
+      statusCode: 404
+    });
+  });
+
+  it('sets a budget amount, returns the reread month and replays idempotent writes', async () => {
+    const session = makeSession();
+    const service = makeService(session);
+    const input = { budgetId: 'budget_abc', month: '2026-02', categoryId: 'cat_dining', budgeted: 250.5 };
+
+    const result = await service.setBudgetAmount({ ...input, idempotencyKey: 'set-1' });
+    const replayed = await service.setBudgetAmount({ ...input, idempotencyKey: 'set-1' });
+
+    expect(session.setBudgetAmount).toHaveBeenCalledTimes(1);
+    expect(session.setBudgetAmount).toHaveBeenCalledWith('2026-02', 'cat_dining', 25050);
+    expect(result.month).toBe('2026-02');
+    expect(replayed).toEqual(result);
+    await expect(
+      service.setBudgetAmount({ ...input, budgeted: 300, idempotencyKey: 'set-1' })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.setBudgetAmount({ ...input, categoryId: 'cat_unknown' })).rejects.toMatchObject({
+      statusCode: 404
+    });
+    await expect(service.setBudgetAmount({ ...input, categoryId: 'cat_salary' })).rejects.toMatchObject({
+      statusCode: 400
+    });
+  });
+
+  it('copies last month and applies the three-month spending average to expense categories', async () => {
+    const withActivity = (month: string, dining: [number, number], groceries: [number, number]) => ({
+      ...february,
+      month,
+      groups: february.groups.map((group) => ({
+        ...group,
+        categories: group.categories.map((category) => {
+          const values = category.id === 'cat_dining' ? dining : category.id === 'cat_groceries' ? groceries : null;
+          return values ? { ...category, budgeted: values[0], activity: values[1] } : category;
+        })
+      }))
+    });
+    const session = makeSession([
+      february,
+      withActivity('2026-01', [15000, -12000], [30000, -33000]),
+      withActivity('2025-12', [15000, -9000], [30000, 1500])
+    ]);
+    const service = makeService(session);
+
+    await service.copyPreviousMonth({ budgetId: 'budget_abc', month: '2026-02' });
+    expect(vi.mocked(session.setBudgetAmount).mock.calls).toEqual([
+      ['2026-02', 'cat_dining', 15000],
+      ['2026-02', 'cat_groceries', 30000]
+    ]);
+
+    vi.mocked(session.setBudgetAmount).mockClear();
+    await service.applyAverage({ budgetId: 'budget_abc', month: '2026-02' });
+    expect(vi.mocked(session.setBudgetAmount).mock.calls).toEqual([
+      ['2026-02', 'cat_dining', 7000],
+      ['2026-02', 'cat_groceries', 10500]
+    ]);
+
+    await expect(service.copyPreviousMonth({ budgetId: 'budget_abc', month: '2025-12' })).rejects.toMatchObject({
+      statusCode: 404
+    });
+  });
+});
+
+describe('months routes', () => {
+  it('validates month reads and budget writes and returns the month view', async () => {
+    const config = makeConfig();
+    const view = { month: '2026-02', totalBudgeted: 0, totalIncome: 0, totalSpent: 0, groups: [] };
+    const budgetMonthService = {
+      getBudgetMonth: vi.fn().mockResolvedValue(view),
+      setBudgetAmount: vi.fn().mockResolvedValue(view),
+      copyPreviousMonth: vi.fn().mockResolvedValue(view),
+      applyAverage: vi.fn().mockResolvedValue(view)
+    };
+    const app = buildApp(config, makeDependencies({ budgetMonthService }));
+
+    await app.ready();
+
+    const badMonth = await request(app.server)
+      .get('/budgets/budget_abc/months/2026-13')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(badMonth.status).toBe(400);
+
+    const response = await request(app.server)
+      .get('/budgets/budget_abc/months/2026-02')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(view);
+    expect(budgetMonthService.getBudgetMonth).toHaveBeenCalledWith({ budgetId: 'budget_abc', month: '2026-02' });
+
+    const negative = await request(app.server)
+      .put('/budgets/budget_abc/months/2026-02/categories/cat_dining')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ budgeted: -5 });
+    expect(negative.status).toBe(400);
+
+    const set = await request(app.server)
+      .put('/budgets/budget_abc/months/2026-02/categories/cat_dining')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .set('Idempotency-Key', 'set-1')
+      .send({ budgeted: 250 });
+    expect(set.status).toBe(200);
+    expect(budgetMonthService.setBudgetAmount).toHaveBeenCalledWith({
+      budgetId: 'budget_abc',
+      month: '2026-02',
+      categoryId: 'cat_dining',
+      budgeted: 250,
+      idempotencyKey: 'set-1'
+    });
+
+    const copied = await request(app.server)
+      .post('/budgets/budget_abc/months/2026-02/categories:copyPreviousMonth')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(copied.status).toBe(200);
+    expect(budgetMonthService.copyPreviousMonth).toHaveBeenCalledWith({ budgetId: 'budget_abc', month: '2026-02' });
+
+    const averaged = await request(app.server)
+      .post('/budgets/budget_abc/months/2026-02/categories:applyAverage')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(averaged.status).toBe(200);
+    expect(budgetMonthService.applyAverage).toHaveBeenCalledWith({ budgetId: 'budget_abc', month: '2026-02' });
+
+    await app.close();
+  });
+});
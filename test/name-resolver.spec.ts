@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { buildNameAliases, matchByName, normalizeName, suggestNames } from '../src/actual/nameResolver';
+
+const categories = [
+  { id: 'cat_groceries', name: 'Groceries' },
+  { id: 'cat_cafe', name: 'Café Dining' },
+  { id: 'cat_gifts', name: 'Gifts' },
+  { id: 'cat_fuel', name: 'Fuel' }
+];
+
+describe('name resolver', () => {
+  it('folds case, diacritics and whitespace', () => {
+    expect(normalizeName('  Café   DINING ')).toBe('cafe dining');
+  });
+
+  it('prefers exact matches, then normalized names, then aliases', () => {
+    const aliases = buildNameAliases({ accounts: {}, categories: { 'Food Shopping': 'groceries' } }).category;
+
+    expect(matchByName(categories, 'Groceries', aliases)).toEqual([categories[0]]);
+    expect(matchByName(categories, 'groceries ', aliases)).toEqual([categories[0]]);
+    expect(matchByName(categories, 'cafe dining', aliases)).toEqual([categories[1]]);
+    expect(matchByName(categories, 'FOOD shopping', aliases)).toEqual([categories[0]]);
+    expect(matchByName(categories, 'Rent', aliases)).toEqual([]);
+  });
+
+  it('keeps an exact match ahead of names that only match when normalized', () => {
+    const items = [
+      { id: 'cat_upper', name: 'Misc' },
+      { id: 'cat_lower', name: 'misc' }
+    ];
+
+    expect(matchByName(items, 'misc', new Map())).toEqual([items[1]]);
+    expect(matchByName(items, 'MISC', new Map())).toEqual(items);
+  });
+
+  it('suggests the closest names for a miss', () => {
+    expect(suggestNames(categories, 'Grocries')).toEqual([{ id: 'cat_groceries', name: 'Groceries' }]);
+    expect(suggestNames(categories, 'dining')).toEqual([{ id: 'cat_cafe', name: 'Café Dining' }]);
+    expect(suggestNames(categories, 'Mortgage')).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import pino from 'pino';
+import { buildApp } from '../src/app';
+import { BudgetLockManager } from '../src/actual/locks';
+import { PayeeService } from '../src/actual/payeeService';
+import type { ActualBudgetSession, ActualClientFactory, ActualPayee } from '../src/actual/clientFactory';
+import { makeConfig, makeDependencies } from './helpers';
+
+function makeSession(payees: ActualPayee[]): ActualBudgetSession {
+  return {
+    sync: vi.fn().mockResolvedValue(undefined),
+    getAccounts: vi.fn().mockResolvedValue([]),
+    getAccountBalance: vi.fn().mockResolvedValue(0),
+    getCategories: vi.fn().mockResolvedValue([]),
+    getCategoryGroups: vi.fn().mockResolvedValue([]),
+    getBudgetMonth: vi.fn().mockResolvedValue(null),
+    setBudgetAmount: vi.fn().mockResolvedValue(undefined),
+    getPayees: vi.fn().mockResolvedValue(payees),
+    createPayee: vi.fn(),
+    mergePayees: vi.fn().mockResolvedValue(undefined),
+    listTransactions: vi.fn().mockResolvedValue([]),
+    createTransaction: vi.fn(),
+    getTransaction: vi.fn().mockResolvedValue(null),
+    findTransactionByImportedId: vi.fn().mockResolvedValue(null),
+    updateTransaction: vi.fn(),
+    deleteTransaction: vi.fn(),
+    getSchedules: vi.fn(),
+    createSchedule: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+function makeService(session: ActualBudgetSession): PayeeService {
+  const factory: ActualClientFactory = {
+    listBudgets: async () => [{ id: 'budget_abc', name: 'Main Budget' }],
+    withBudget: async <T>(_budgetId: string, fn: (s: ActualBudgetSession) => Promise<T>) => fn(session),
+    ping: async () => undefined,
+    shutdown: async () => undefined
+  };
+
+  return new PayeeService(
+    factory,
+    { assertBudgetAccessible: vi.fn().mockResolvedValue(undefined) },
+    new BudgetLockManager(),
+    200,
+    pino({ level: 'silent' })
+  );
+}
+
+const payees: ActualPayee[] = [
+  { id: 'pay_star_upper', name: 'STARBUCKS' },
+  { id: 'pay_star', name: 'Starbucks' },
+  { id: 'pay_star_123', name: 'Starbucks #123' },
+  { id: 'pay_transfer', name: '', transferAccountId: 'acc_savings' }
+];
+
+describe('PayeeService', () => {
+  it('lists payees sorted by name', async () => {
+    const service = makeService(makeSession(payees));
+
+    const result = await service.listPayees('budget_abc');
+
+    expect(result.map((payee) => payee.id)).toEqual(['pay_transfer', 'pay_star', 'pay_star_upper', 'pay_star_123']);
+    expect(result[0]).toEqual({ id: 'pay_transfer', name: '', transferAccountId: 'acc_savings' });
+  });
+
+  it('merges duplicates into the target payee', async () => {
+    const session = makeSession(payees);
+    const service = makeService(session);
+
+    const result = await service.mergePayees({
+      budgetId: 'budget_abc',
+      targetId: 'pay_star',
+      mergeIds: ['pay_star_upper', 'pay_star_123', 'pay_star_upper']
+    });
+
+    expect(session.mergePayees).toHaveBeenCalledWith('pay_star', ['pay_star_upper', 'pay_star_123']);
+    expect(result).toEqual({ payee: { id: 'pay_star', name: 'Starbucks' }, merged: ['pay_star_upper', 'pay_star_123'] });
+  });
+
+  it('rejects unknown and transfer payees without merging', async () => {
+    const session = makeSession(payees);
+    const service = makeService(session);
+
+    await expect(
+      service.mergePayees({ budgetId: 'budget_abc', targetId: 'pay_star', mergeIds: ['pay_missing'] })
+    ).rejects.toMatchObject({ statusCode: 404, details: { ids: ['pay_missing'] } });
+    await expect(
+      service.mergePayees({ budgetId: 'budget_abc', targetId: 'pay_star', mergeIds: ['pay_transfer'] })
+    ).rejects.toMatchObject({ statusCode: 400, details: { ids: ['pay_transfer'] } });
+    expect(session.mergePayees).not.toHaveBeenCalled();
+  });
+});
+
+describe('payee routes', () => {
+  it('validates merge requests and returns the merged payee', async () => {
+    const config = makeConfig();
+    const payeeService = {
+      listPayees: vi.fn(),
+      mergePayees: vi.fn().mockResolvedValue({ payee: { id: 'pay_star', name: 'Starbucks' }, merged: ['pay_star_upper'] })
+    };
+    const app = buildApp(config, makeDependencies({ payeeService }));
+
+    await app.ready();
+
+    const selfMerge = await request(app.server)
+      .post('/budgets/budget_abc/payees:merge')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ targetId: 'pay_star', mergeIds: ['pay_star'] });
+    expect(selfMerge.status).toBe(400);
+
+    const merged = await request(app.server)
+      .post('/budgets/budget_abc/payees:merge')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ targetId: 'pay_star', mergeIds: ['pay_star_upper'] });
+    expect(merged.status).toBe(200);
+    expect(merged.body).toEqual({ payee: { id: 'pay_star', name: 'Starbucks' }, merged: ['pay_star_upper'] });
+    expect(payeeService.mergePayees).toHaveBeenCalledWith({
+      budgetId: 'budget_abc',
+      targetId: 'pay_star',
+      mergeIds: ['pay_star_upper']
+    });
+
+    await app.close();
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseQuickEntry } from '../src/quickEntry/parser';
+import { QuickEntryService } from '../src/quickEntry/quickEntryService';
+
+// 2026-02-08 is a Sunday.
+const today = '2026-02-08';
+
+describe('quick entry parser', () => {
+  it('parses amount, description, payee, relative date and account', () => {
+    expect(parseQuickEntry('12.50 coffee at Starbucks yesterday from Visa', today)).toEqual({
+      amount: 12.5,
+      flow: 'expense',
+      date: '2026-02-07',
+      payee: 'Starbucks',
+      account: 'Visa',
+      description: 'coffee'
+    });
+  });
+
+  it('uses the free text as payee when no payee clause is given', () => {
+    expect(parseQuickEntry('spent €8,40 Corner Bakery #treats with Cash', today)).toEqual({
+      amount: 8.4,
+      flow: 'expense',
+      date: today,
+      payee: 'Corner Bakery',
+      account: 'Cash',
+      category: 'treats'
+    });
+  });
+
+  it('recognises income and transfers', () => {
+    expect(parseQuickEntry('received 1500 salary from Acme Corp into Checking on 2026-02-01', today)).toEqual({
+      amount: 1500,
+      flow: 'income',
+      date: '2026-02-01',
+      payee: 'Acme Corp',
+      account: 'Checking',
+      description: 'salary'
+    });
+    expect(parseQuickEntry('+20 refund from Shop', today)).toMatchObject({ amount: 20, flow: 'income', payee: 'Shop' });
+    expect(parseQuickEntry('move 200 from Checking to Savings 3 days ago', today)).toEqual({
+      amount: 200,
+      flow: 'transfer',
+      date: '2026-02-05',
+      account: 'Checking',
+      toAccount: 'Savings'
+    });
+  });
+
+  it('reads amounts with thousands separators', () => {
+    expect(parseQuickEntry('1,234.50 Laptop', today).amount).toBe(1234.5);
+    expect(parseQuickEntry('€1.234,50 Laptop', today).amount).toBe(1234.5);
+    expect(parseQuickEntry('+2,500 bonus from Acme', today)).toMatchObject({ amount: 2500, flow: 'income' });
+    expect(parseQuickEntry('1,234,50 Laptop', today).amount).toBeUndefined();
+  });
+
+  it('resolves weekday phrases against today', () => {
+    expect(parseQuickEntry('5 Kiosk friday', today).date).toBe('2026-02-06');
+    expect(parseQuickEntry('5 Kiosk on sunday', today).date).toBe(today);
+    expect(parseQuickEntry('5 Kiosk last sunday', today).date).toBe('2026-02-01');
+    expect(parseQuickEntry('9 Friday Bar', today)).toMatchObject({ date: today, payee: 'Friday Bar' });
+    expect(parseQuickEntry('9 at Friday Bar on friday', today)).toMatchObject({
+      date: '2026-02-06',
+      payee: 'Friday Bar'
+    });
+  });
+
+  it('leaves the amount out when the text has none', () => {
+    expect(parseQuickEntry('lunch at Deli', today)).toEqual({
+      flow: 'expense',
+      date: today,
+      payee: 'Deli',
+      description: 'lunch'
+    });
+  });
+});
+
+describe('QuickEntryService', () => {
+  const resolved = {
+    input: {
+      budgetId: 'budget_abc',
+      amount: 12.5,
+      flow: 'expense' as const,
+      date: '2026-02-07',
+      payee: 'Starbucks',
+      account: 'Visa Card',
+      category: 'Coffee',
+      notes: ''
+    },
+    categorySuggested: false
+  };
+
+  it('previews the resolved entry without writing', async () => {
+    const entryService = {
+      resolveEntryInput: vi.fn().mockResolvedValue(resolved),
+      createEntry: vi.fn()
+    };
+    const service = new QuickEntryService(entryService);
+
+    const result = await service.createQuickEntry({
+      budgetId: 'budget_abc',
+      text: '12.50 coffee at Starbucks yesterday from Visa',
+      today,
+      preview: true
+    });
+
+    expect(entryService.resolveEntryInput).toHaveBeenCalledWith({
+      budgetId: 'budget_abc',
+      amount: 12.5,
+      flow: 'expense',
+      date: '2026-02-07',
+      payee: 'Starbucks',
+      account: 'Visa',
+      category: undefined,
+      notes: '',
+      categoryHint: 'coffee'
+    });
+    expect(result).toMatchObject({
+      preview: true,
+      input: { payee: 'Starbucks', account: 'Visa Card', category: 'Coffee', amount: 12.5 },
+      categorySuggested: false
+    });
+    expect(entryService.createEntry).not.toHaveBeenCalled();
+  });
+
+  it('creates the resolved entry and rejects text without an amount', async () => {
+    const entryService = {
+      resolveEntryInput: vi.fn().mockResolvedValue(resolved),
+      createEntry: vi.fn().mockResolvedValue({ id: 'txn_quick' })
+    };
+    const service = new QuickEntryService(entryService);
+
+    const result = await service.createQuickEntry({
+      budgetId: 'budget_abc',
+      text: '12.50 coffee at Starbucks yesterday from Visa',
+      today,
+      preview: false,
+      idempotencyKey: 'widget-1'
+    });
+
+    expect(entryService.createEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ budgetId: 'budget_abc', account: 'Visa Card', idempotencyKey: 'widget-1' })
+    );
+    expect(result.entry).toEqual({ id: 'txn_quick' });
+
+    await expect(
+      service.createQuickEntry({ budgetId: 'budget_abc', text: 'coffee at Starbucks', today, preview: false })
+    ).rejects.toMatchObject({ statusCode: 400, message: 'Could not find an amount in text' });
+  });
+});
@@ -1,7 +1,7 @@
 import request from 'supertest';
-import { describe, expect, it, vi } from 'vitest';
+import { describe, expect, it } from 'vitest';
 import { buildApp } from '../src/app';
-import { makeConfig } from './helpers';
+import { makeConfig, makeDependencies } from './helpers';
 
 describe('authenticated request rate limiting', () => {
   it('returns 429 when request count exceeds configured limit', async () => {
@@ -10,18 +10,9 @@ describe('authenticated request rate limiting', () => {
       requestRateLimitMaxRequests: 2
     });
 
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies());
+
+    await app.ready();
 
     const first = await request(app.server)
       .get('/budgets')
@@ -48,18 +39,9 @@ describe('authenticated request rate limiting', () => {
       requestRateLimitMaxRequests: 1
     });
 
-    const app = buildApp(config, {
-      actualClientFactory: {
-        ping: vi.fn().mockResolvedValue(undefined)
-      },
-      budgetService: {
-        listBudgets: vi.fn().mockResolvedValue([{ id: 'budget_abc', name: 'Main Budget' }])
-      },
-      entryService: {
-        listEntries: vi.fn(),
-        createEntry: vi.fn()
-      }
-    });
+    const app = buildApp(config, makeDependencies());
+
+    await app.ready();
 
     const firstClient = await request(app.server)
       .get('/budgets')
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { expandRecurrence, type Recurrence } from '../src/actual/recurrence';
+
+function rule(overrides: Partial<Recurrence>): Recurrence {
+  return {
+    frequency: 'monthly',
+    interval: 1,
+    start: '2026-01-31',
+    endMode: 'never',
+    skipWeekend: false,
+    weekendSolveMode: 'after',
+    ...overrides
+  };
+}
+
+describe('expandRecurrence', () => {
+  it('skips months without the start day and moves weekend dates when asked', () => {
+    expect(expandRecurrence(rule({}), '2026-01-01', '2026-06-30')).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+    expect(expandRecurrence(rule({ skipWeekend: true }), '2026-01-01', '2026-06-30')).toEqual([
+      '2026-02-02',
+      '2026-03-31',
+      '2026-06-01'
+    ]);
+    expect(
+      expandRecurrence(rule({ skipWeekend: true, weekendSolveMode: 'before' }), '2026-01-01', '2026-06-30')
+    ).toEqual(['2026-01-30', '2026-03-31', '2026-05-29']);
+    expect(
+      expandRecurrence(rule({ frequency: 'yearly', start: '2024-02-29' }), '2024-01-01', '2028-12-31')
+    ).toEqual(['2024-02-29', '2028-02-29']);
+  });
+
+  it('steps by interval and clips to the window', () => {
+    expect(
+      expandRecurrence(rule({ frequency: 'weekly', interval: 2, start: '2026-02-02' }), '2026-02-10', '2026-03-10')
+    ).toEqual(['2026-02-16', '2026-03-02']);
+    expect(expandRecurrence(rule({ start: '2026-06-15' }), '2026-01-01', '2026-03-31')).toEqual([]);
+  });
+
+  it('counts occurrences from the start and stops at the end date', () => {
+    expect(
+      expandRecurrence(
+        rule({ frequency: 'daily', start: '2026-02-01', endMode: 'after_n_occurrences', endOccurrences: 3 }),
+        '2026-02-02',
+        '2026-02-10'
+      )
+    ).toEqual(['2026-02-02', '2026-02-03']);
+    expect(
+      expandRecurrence(rule({ start: '2026-01-15', endMode: 'on_date', endDate: '2026-04-15' }), '2026-01-01', '2026-12-31')
+    ).toEqual(['2026-01-15', '2026-02-15', '2026-03-15', '2026-04-15']);
+  });
+});
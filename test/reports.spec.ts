@@ -0,0 +1,323 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import type { ActualBudgetSession, ActualClientFactory, ActualTransaction } from '../src/actual/clientFactory';
+import { buildApp } from '../src/app';
+import { buildBuckets, toReportLines } from '../src/reports/aggregation';
+import { ReportCache } from '../src/reports/reportCache';
+import { ReportService } from '../src/reports/reportService';
+import { makeConfig, makeDependencies } from './helpers';
+
+function transaction(
+  id: string,
+  date: string,
+  amount: number,
+  fields: Partial<ActualTransaction> = {}
+): ActualTransaction {
+  return { id, date, amount, accountId: 'acc_checking', ...fields };
+}
+
+const transactions: ActualTransaction[] = [
+  transaction('tx_1', '2026-02-03', -5000, { categoryId: 'cat_groceries', payeeId: 'pay_market' }),
+  transaction('tx_2', '2026-02-10', -3000, { categoryId: 'cat_dining', payeeId: 'pay_cafe' }),
+  transaction('tx_3', '2026-02-15', -1500, { accountId: 'acc_brokerage', categoryId: 'cat_dining' }),
+  transaction('tx_4', '2026-02-28', 350000, { categoryId: 'cat_salary', payeeId: 'pay_work' }),
+  transaction('tx_5', '2026-03-02', -8000, { payeeId: 'pay_market', isParent: true }),
+  transaction('tx_5a', '2026-03-02', -6000, { categoryId: 'cat_groceries', parentId: 'tx_5' }),
+  transaction('tx_5b', '2026-03-02', -2000, { categoryId: 'cat_dining', parentId: 'tx_5' }),
+  transaction('tx_6', '2026-03-05', 1000, { categoryId: 'cat_groceries', payeeId: 'pay_market' }),
+  transaction('tx_7', '2026-03-06', -20000, { transferId: 'tx_7b' }),
+  transaction('tx_8', '2026-03-20', -700)
+];
+
+const openingBalances: Record<string, number> = { acc_checking: 100000, acc_brokerage: 500000, acc_visa: -25000 };
+
+function makeSession(): ActualBudgetSession {
+  return {
+    sync: vi.fn().mockResolvedValue(undefined),
+    getAccounts: vi.fn().mockResolvedValue([
+      { id: 'acc_checking', name: 'Checking', offBudget: false, closed: false },
+      { id: 'acc_brokerage', name: 'Brokerage', offBudget: true, closed: false },
+      { id: 'acc_visa', name: 'Visa', offBudget: false, closed: false }
+    ]),
+    getAccountBalance: vi
+      .fn()
+      .mockImplementation(async (accountId: string) => openingBalances[accountId] ?? 0),
+    getCategories: vi.fn().mockResolvedValue([
+      { id: 'cat_groceries', name: 'Groceries', groupId: 'grp_food', isIncome: false, hidden: false },
+      { id: 'cat_dining', name: 'Dining', groupId: 'grp_food', isIncome: false, hidden: false },
+      { id: 'cat_salary', name: 'Salary', groupId: 'grp_income', isIncome: true, hidden: false }
+    ]),
+    getCategoryGroups: vi.fn().mockResolvedValue([
+      { id: 'grp_food', name: 'Food', isIncome: false, hidden: false },
+      { id: 'grp_income', name: 'Income', isIncome: true, hidden: false }
+    ]),
+    getBudgetMonth: vi.fn().mockResolvedValue(null),
+    setBudgetAmount: vi.fn(),
+    getPayees: vi.fn().mockResolvedValue([
+      { id: 'pay_market', name: 'Market' },
+      { id: 'pay_cafe', name: 'Cafe' },
+      { id: 'pay_work', name: 'Employer' }
+    ]),
+    createPayee: vi.fn(),
+    mergePayees: vi.fn(),
+    listTransactions: vi.fn().mockResolvedValue(transactions),
+    createTransaction: vi.fn(),
+    getTransaction: vi.fn().mockResolvedValue(null),
+    findTransactionByImportedId: vi.fn().mockResolvedValue(null),
+    updateTransaction: vi.fn(),
+    deleteTransaction: vi.fn(),
+    getSchedules: vi.fn(),
+    createSchedule: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+function makeService(session: ActualBudgetSession, cache = new ReportCache(60_000)): ReportService {
+  const factory: ActualClientFactory = {
+    listBudgets: async () => [{ id: 'budget_abc', name: 'Main Budget' }],
+    withBudget: async <T>(_budgetId: string, fn: (s: ActualBudgetSession) => Promise<T>) => fn(session),
+    ping: async () => undefined,
+    shutdown: async () => undefined
+  };
+
+  return new ReportService(factory, { assertBudgetAccessible: vi.fn().mockResolvedValue(undefined) }, cache);
+}
+
+const range = { budgetId: 'budget_abc', from: '2026-02-01', to: '2026-03-31' } as const;
+
+describe('ReportService', () => {
+  it('sums net spending per category and month, skipping transfers and off-budget accounts', async () => {
+    const session = makeSession();
+    const service = makeService(session);
+
+    const report = await service.getSpendingReport({
+      ...range,
+      groupBy: 'category',
+      interval: 'month',
+      flow: 'expense'
+    });
+
+    expect(session.listTransactions).toHaveBeenCalledWith({ from: '2026-02-01', to: '2026-03-31' });
+    expect(report.buckets).toEqual([
+      { key: '2026-02', start: '2026-02-01', end: '2026-02-28' },
+      { key: '2026-03', start: '2026-03-01', end: '2026-03-31' }
+    ]);
+    expect(report.series).toEqual([
+      { id: 'cat_groceries', name: 'Groceries', values: [50, 50], total: 100 },
+      { id: 'cat_dining', name: 'Dining', values: [30, 20], total: 50 },
+      { name: 'Uncategorized', values: [0, 7], total: 7 }
+    ]);
+    expect(report.totals).toEqual([80, 77]);
+    expect(report.total).toBe(157);
+  });
+
+  it('groups by payee with split lines inheriting the parent payee, and by category group for income', async () => {
+    const service = makeService(makeSession());
+
+    const byPayee = await service.getSpendingReport({ ...range, groupBy: 'payee', interval: 'year', flow: 'expense' });
+    expect(byPayee.buckets).toEqual([{ key: '2026', start: '2026-02-01', end: '2026-03-31' }]);
+    expect(byPayee.series).toEqual([
+      { id: 'pay_market', name: 'Market', values: [120], total: 120 },
+      { id: 'pay_cafe', name: 'Cafe', values: [30], total: 30 },
+      { name: 'No payee', values: [7], total: 7 }
+    ]);
+
+    const income = await service.getSpendingReport({
+      ...range,
+      groupBy: 'categoryGroup',
+      interval: 'month',
+      flow: 'income'
+    });
+    expect(income.series).toEqual([{ id: 'grp_income', name: 'Income', values: [3500, 0], total: 3500 }]);
+    expect(income.total).toBe(3500);
+  });
+
+  it('keeps transfers to and from off-budget accounts as report lines only when asked', () => {
+    const lines = toReportLines(
+      [
+        transaction('tx_visa', '2026-03-06', -20000, { transferId: 'tx_visa_in' }),
+        transaction('tx_visa_in', '2026-03-06', 20000, { accountId: 'acc_visa', transferId: 'tx_visa' }),
+        transaction('tx_invest', '2026-03-07', -50000, { categoryId: 'cat_savings', transferId: 'tx_invest_in' }),
+        transaction('tx_invest_in', '2026-03-07', 50000, { accountId: 'acc_brokerage', transferId: 'tx_invest' }),
+        transaction('tx_payout', '2026-03-08', 9000, { transferId: 'tx_payout_out' }),
+        transaction('tx_payout_out', '2026-03-08', -9000, { accountId: 'acc_brokerage', transferId: 'tx_payout' })
+      ],
+      new Set(['acc_brokerage']),
+      { keepOffBudgetTransfers: true }
+    );
+
+    expect(lines).toEqual([
+      { date: '2026-03-07', amount: -50000, accountId: 'acc_checking', categoryId: 'cat_savings' },
+      { date: '2026-03-08', amount: 9000, accountId: 'acc_checking' }
+    ]);
+  });
+
+  it('leaves transfers to off-budget accounts out of spending but counts them in cash flow', async () => {
+    const session = makeSession();
+    session.listTransactions = vi.fn().mockResolvedValue([
+      ...transactions,
+      transaction('tx_9', '2026-03-07', -50000, { categoryId: 'cat_groceries', transferId: 'tx_9b' }),
+      transaction('tx_9b', '2026-03-07', 50000, { accountId: 'acc_brokerage', transferId: 'tx_9' })
+    ]);
+    const service = makeService(session);
+
+    const spending = await service.getSpendingReport({
+      ...range,
+      groupBy: 'category',
+      interval: 'month',
+      flow: 'expense'
+    });
+    expect(spending.totals).toEqual([80, 77]);
+
+    const cashFlow = await service.getCashFlow(range);
+    expect(cashFlow).toMatchObject({ expense: [80, 577], totals: { expense: 657 } });
+  });
+
+  it('builds Monday-based weekly buckets and months starting on a configured day, clipped to the range', () => {
+    expect(buildBuckets('2026-03-04', '2026-03-17', 'week')).toEqual([
+      { key: '2026-03-02', start: '2026-03-04', end: '2026-03-08' },
+      { key: '2026-03-09', start: '2026-03-09', end: '2026-03-15' },
+      { key: '2026-03-16', start: '2026-03-16', end: '2026-03-17' }
+    ]);
+    expect(buildBuckets('2026-01-10', '2026-03-31', 'month', 25)).toEqual([
+      { key: '2025-12', start: '2026-01-10', end: '2026-01-24' },
+      { key: '2026-01', start: '2026-01-25', end: '2026-02-24' },
+      { key: '2026-02', start: '2026-02-25', end: '2026-03-24' },
+      { key: '2026-03', start: '2026-03-25', end: '2026-03-31' }
+    ]);
+  });
+
+  it('reports monthly cash flow and caches it until the budget is invalidated', async () => {
+    const session = makeSession();
+    const cache = new ReportCache(60_000);
+    const service = makeService(session, cache);
+
+    const cashFlow = await service.getCashFlow(range);
+    expect(cashFlow).toMatchObject({
+      monthStartDay: 1,
+      income: [3500, 0],
+      expense: [80, 77],
+      net: [3420, -77],
+      totals: { income: 3500, expense: 157, net: 3343 }
+    });
+
+    await service.getCashFlow(range);
+    expect(session.listTransactions).toHaveBeenCalledTimes(1);
+
+    cache.invalidate('budget_abc');
+    await service.getCashFlow(range);
+    expect(session.listTransactions).toHaveBeenCalledTimes(2);
+  });
+
+  it('tracks every account balance from the opening balance to report net worth per month', async () => {
+    const session = makeSession();
+    const service = makeService(session);
+
+    const netWorth = await service.getNetWorth(range);
+
+    expect(session.getAccountBalance).toHaveBeenCalledWith('acc_checking', '2026-01-31');
+    expect(netWorth.accounts).toEqual([
+      { id: 'acc_checking', name: 'Checking', offBudget: false, closed: false, values: [4420, 4143] },
+      { id: 'acc_brokerage', name: 'Brokerage', offBudget: true, closed: false, values: [4985, 4985] },
+      { id: 'acc_visa', name: 'Visa', offBudget: false, closed: false, values: [-250, -250] }
+    ]);
+    expect(netWorth.assets).toEqual([9405, 9128]);
+    expect(netWorth.liabilities).toEqual([250, 250]);
+    expect(netWorth.netWorth).toEqual([9155, 8878]);
+  });
+});
+
+describe('reports routes', () => {
+  it('validates report queries and applies defaults', async () => {
+    const config = makeConfig();
+    const report = {
+      from: '2026-02-01',
+      to: '2026-03-31',
+      groupBy: 'category',
+      interval: 'month',
+      flow: 'expense',
+      buckets: [],
+      series: [],
+      totals: [],
+      total: 0
+    };
+    const reportService = {
+      getSpendingReport: vi.fn().mockResolvedValue(report),
+      getCashFlow: vi.fn().mockResolvedValue({
+        from: '2026-02-01',
+        to: '2026-03-31',
+        monthStartDay: 25,
+        buckets: [],
+        income: [],
+        expense: [],
+        net: [],
+        totals: { income: 0, expense: 0, net: 0 }
+      }),
+      getNetWorth: vi.fn().mockResolvedValue({
+        from: '2026-02-01',
+        to: '2026-03-31',
+        monthStartDay: 1,
+        buckets: [],
+        assets: [],
+        liabilities: [],
+        netWorth: [],
+        accounts: []
+      })
+    };
+    const app = buildApp(config, makeDependencies({ reportService }));
+
+    await app.ready();
+
+    const missingRange = await request(app.server)
+      .get('/budgets/budget_abc/reports/spending')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(missingRange.status).toBe(400);
+
+    const badGroup = await request(app.server)
+      .get('/budgets/budget_abc/reports/spending?from=2026-02-01&to=2026-03-31&groupBy=tag')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(badGroup.status).toBe(400);
+
+    const response = await request(app.server)
+      .get('/budgets/budget_abc/reports/spending?from=2026-02-01&to=2026-03-31')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(report);
+    expect(reportService.getSpendingReport).toHaveBeenCalledWith({
+      budgetId: 'budget_abc',
+      from: '2026-02-01',
+      to: '2026-03-31',
+      groupBy: 'category',
+      interval: 'month',
+      flow: 'expense'
+    });
+
+    const badStartDay = await request(app.server)
+      .get('/budgets/budget_abc/reports/cash-flow?from=2026-02-01&to=2026-03-31&monthStartDay=31')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(badStartDay.status).toBe(400);
+
+    const cashFlow = await request(app.server)
+      .get('/budgets/budget_abc/reports/cash-flow?from=2026-02-01&to=2026-03-31&monthStartDay=25')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(cashFlow.status).toBe(200);
+    expect(reportService.getCashFlow).toHaveBeenCalledWith({
+      budgetId: 'budget_abc',
+      from: '2026-02-01',
+      to: '2026-03-31',
+      monthStartDay: 25
+    });
+
+    const netWorth = await request(app.server)
+      .get('/budgets/budget_abc/reports/net-worth?from=2026-02-01&to=2026-03-31')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`);
+    expect(netWorth.status).toBe(200);
+    expect(reportService.getNetWorth).toHaveBeenCalledWith({
+      budgetId: 'budget_abc',
+      from: '2026-02-01',
+      to: '2026-03-31'
+    });
+
+    await app.close();
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, expect, it, vi } from 'vitest';
+import pino from 'pino';
+import { BudgetLockManager } from '../src/actual/locks';
+import { ScheduleService } from '../src/actual/scheduleService';
+import type { ActualBudgetSession, ActualClientFactory, ActualSchedule } from '../src/actual/clientFactory';
+import type { CreateEntryOptions } from '../src/actual/entryService';
+
+const netflix: ActualSchedule = {
+  id: 'sched_netflix',
+  name: 'Netflix',
+  accountId: 'acc_visa',
+  payeeId: 'pay_netflix',
+  amount: -1599,
+  date: {
+    frequency: 'monthly',
+    interval: 1,
+    start: '2025-11-15',
+    endMode: 'never',
+    skipWeekend: false,
+    weekendSolveMode: 'after'
+  },
+  hasPatterns: false,
+  nextDate: '2026-02-15',
+  completed: false,
+  postsTransaction: false
+};
+
+const savings: ActualSchedule = {
+  id: 'sched_savings',
+  name: 'Savings',
+  accountId: 'acc_checking',
+  payeeId: 'pay_to_savings',
+  amount: -20000,
+  date: '2026-02-20',
+  hasPatterns: false,
+  nextDate: '2026-02-20',
+  completed: false,
+  postsTransaction: false
+};
+
+function makeSession(overrides: Partial<ActualBudgetSession> = {}): ActualBudgetSession {
+  return {
+    sync: vi.fn().mockResolvedValue(undefined),
+    getAccounts: vi.fn().mockResolvedValue([
+      { id: 'acc_visa', name: 'Visa' },
+      { id: 'acc_checking', name: 'Checking' },
+      { id: 'acc_savings', name: 'Savings' }
+    ]),
+    getAccountBalance: vi.fn().mockResolvedValue(0),
+    getCategories: vi.fn().mockResolvedValue([]),
+    getCategoryGroups: vi.fn().mockResolvedValue([]),
+    getBudgetMonth: vi.fn().mockResolvedValue(null),
+    setBudgetAmount: vi.fn().mockResolvedValue(undefined),
+    getPayees: vi.fn().mockResolvedValue([
+      { id: 'pay_netflix', name: 'Netflix' },
+      { id: 'pay_to_savings', name: '', transferAccountId: 'acc_savings' }
+    ]),
+    createPayee: vi.fn().mockImplementation(async (name: string) => ({ id: `pay_${name}`, name })),
+    mergePayees: vi.fn(),
+    listTransactions: vi.fn().mockResolvedValue([]),
+    createTransaction: vi.fn(),
+    getTransaction: vi.fn().mockResolvedValue(null),
+    findTransactionByImportedId: vi.fn().mockResolvedValue(null),
+    updateTransaction: vi.fn(),
+    deleteTransaction: vi.fn(),
+    getSchedules: vi.fn().mockResolvedValue([netflix, savings]),
+    createSchedule: vi.fn().mockResolvedValue({ id: 'sched_gym' }),
+    close: vi.fn().mockResolvedValue(undefined),
+    ...overrides
+  };
+}
+
+function makeService(
+  session: ActualBudgetSession,
+  createEntry = vi.fn().mockResolvedValue({ id: 'txn_posted' })
+): ScheduleService {
+  const factory: ActualClientFactory = {
+    listBudgets: async () => [{ id: 'budget_abc', name: 'Main Budget' }],
+    withBudget: async <T>(_budgetId: string, fn: (s: ActualBudgetSession) => Promise<T>) => fn(session),
+    ping: async () => undefined,
+    shutdown: async () => undefined
+  };
+
+  return new ScheduleService(
+    factory,
+    { assertBudgetAccessible: vi.fn().mockResolvedValue(undefined) },
+    new BudgetLockManager(),
+    200,
+    pino({ level: 'silent' }),
+    { createEntry }
+  );
+}
+
+describe('ScheduleService', () => {
+  it('lists schedules with their upcoming occurrences', async () => {
+    const service = makeService(makeSession());
+
+    const result = await service.listSchedules({ budgetId: 'budget_abc', from: '2026-02-01', to: '2026-04-30' });
+
+    expect(result.items.map((item) => [item.id, item.upcoming])).toEqual([
+      ['sched_netflix', ['2026-02-15', '2026-03-15', '2026-04-15']],
+      ['sched_savings', ['2026-02-20']]
+    ]);
+    expect(result.items[0]).toMatchObject({ amount: 15.99, flow: 'expense', payee: 'Netflix', account: 'Visa' });
+    expect(result.items[1]).toMatchObject({ flow: 'transfer', fromAccount: 'Checking', toAccount: 'Savings' });
+    await expect(
+      service.listSchedules({ budgetId: 'budget_abc', from: '2026-02-01', to: '2027-06-01' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('creates schedules from entry-like input', async () => {
+    const session = makeSession({
+      getSchedules: vi.fn().mockResolvedValueOnce([netflix]).mockResolvedValueOnce([])
+    });
+    const service = makeService(session);
+    const recurrence = {
+      frequency: 'monthly' as const,
+      interval: 1,
+      start: '2026-03-01',
+      endMode: 'never' as const,
+      skipWeekend: false,
+      weekendSolveMode: 'after' as const
+    };
+
+    const created = await service.createSchedule({
+      budgetId: 'budget_abc',
+      name: 'Gym',
+      amount: 30,
+      flow: 'expense',
+      payee: 'City Gym',
+      account: 'visa',
+      recurrence
+    });
+
+    expect(session.createSchedule).toHaveBeenCalledWith({
+      name: 'Gym',
+      accountId: 'acc_visa',
+      payeeId: 'pay_City Gym',
+      amount: -3000,
+      recurrence
+    });
+    expect(created).toMatchObject({ id: 'sched_gym', payee: 'City Gym', account: 'Visa', amount: 30 });
+
+    await expect(
+      makeService(makeSession()).createSchedule({
+        budgetId: 'budget_abc',
+        name: 'Netflix',
+        amount: 15.99,
+        flow: 'expense',
+        payee: 'Netflix',
+        account: 'Visa',
+        recurrence
+      })
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('posts a due occurrence as a linked entry', async () => {
+    const createEntry = vi.fn().mockResolvedValue({ id: 'txn_posted' });
+    const service = makeService(makeSession(), createEntry);
+
+    await service.postScheduledEntry({ budgetId: 'budget_abc', scheduleId: 'sched_netflix', category: 'Streaming' });
+    await service.postScheduledEntry({ budgetId: 'budget_abc', scheduleId: 'sched_savings', idempotencyKey: 'sv-1' });
+
+    expect(createEntry).toHaveBeenNthCalledWith(
+      1,
+      {
+        budgetId: 'budget_abc',
+        amount: 15.99,
+        flow: 'expense',
+        date: '2026-02-15',
+        accountId: 'acc_visa',
+        payeeId: 'pay_netflix',
+        category: 'Streaming',
+        notes: '',
+        scheduleId: 'sched_netflix'
+      },
+      { beforeWrite: expect.any(Function) }
+    );
+    expect(createEntry).toHaveBeenNthCalledWith(
+      2,
+      {
+        budgetId: 'budget_abc',
+        amount: 200,
+        flow: 'transfer',
+        date: '2026-02-20',
+        fromAccountId: 'acc_checking',
+        toAccountId: 'acc_savings',
+        notes: '',
+        scheduleId: 'sched_savings',
+        idempotencyKey: 'sv-1'
+      },
+      { beforeWrite: expect.any(Function) }
+    );
+  });
+
+  it('rejects dates off the schedule and occurrences already posted', async () => {
+    const session = makeSession({
+      listTransactions: vi.fn().mockResolvedValue([
+        { id: 'txn_march', date: '2026-03-15', amount: -1599, accountId: 'acc_visa', scheduleId: 'sched_netflix' }
+      ])
+    });
+    const write = vi.fn();
+    const createEntry = vi.fn().mockImplementation(async (_input: unknown, options?: CreateEntryOptions) => {
+      await options?.beforeWrite?.(session);
+      write();
+      return { id: 'txn_posted' };
+    });
+    const service = makeService(session, createEntry);
+
+    await expect(
+      service.postScheduledEntry({ budgetId: 'budget_abc', scheduleId: 'sched_netflix', date: '2026-03-14' })
+    ).rejects.toMatchObject({ statusCode: 400, details: { nextDate: '2026-02-15' } });
+    await expect(
+      service.postScheduledEntry({ budgetId: 'budget_abc', scheduleId: 'sched_netflix', date: '2026-03-15' })
+    ).rejects.toMatchObject({ statusCode: 409, details: { entryId: 'txn_march' } });
+    await expect(
+      service.postScheduledEntry({ budgetId: 'budget_abc', scheduleId: 'sched_missing' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(createEntry).toHaveBeenCalledTimes(1);
+    expect(write).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { mapOfxTransactions } from '../src/import/ofx';
+import { mapQifTransactions } from '../src/import/qif';
+
+const target = { account: 'Checking', defaultCategory: 'To Sort' };
+
+describe('OFX import', () => {
+  it('reads SGML statements with unclosed leaf elements', () => {
+    const ofx = [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      '',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20260208120000.000[-5:EST]',
+      '<TRNAMT>-45.10',
+      '<FITID>20260208-1',
+      '<NAME>GROCER &amp; SONS',
+      '<MEMO>Card 1234',
+      '</STMTTRN>',
+      '<STMTTRN>',
+      '<TRNTYPE>CREDIT',
+      '<DTPOSTED>20260209',
+      '<TRNAMT>2500,00',
+      '<NAME>Employer',
+      '</STMTTRN>',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>'
+    ].join('\r\n');
+
+    expect(mapOfxTransactions(ofx, target)).toEqual([
+      {
+        line: 5,
+        status: 'valid',
+        input: {
+          amount: 45.1,
+          flow: 'expense',
+          date: '2026-02-08',
+          payee: 'GROCER & SONS',
+          category: 'To Sort',
+          account: 'Checking',
+          notes: 'Card 1234',
+          importedId: '20260208-1'
+        }
+      },
+      { line: 13, status: 'invalid', error: { code: 'validation_error', message: 'Transaction has no FITID' } }
+    ]);
+  });
+
+  it('reads XML statements and rejects non-OFX files', () => {
+    const ofx = `<?xml version="1.0"?><?OFX OFXHEADER="200"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20260210</DTPOSTED><TRNAMT>12.00</TRNAMT><FITID>abc</FITID><PAYEE><NAME>Refund</NAME></PAYEE></STMTTRN>
+</BANKTRANLIST></CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+    expect(mapOfxTransactions(ofx, target)).toEqual([
+      {
+        line: 3,
+        status: 'valid',
+        input: expect.objectContaining({ amount: 12, flow: 'income', payee: 'Refund', importedId: 'abc' })
+      }
+    ]);
+    expect(() => mapOfxTransactions('Date,Amount', target)).toThrow('File is not an OFX document');
+  });
+});
+
+describe('QIF import', () => {
+  const qif = [
+    '!Account',
+    'NChecking',
+    '^',
+    '!Type:Bank',
+    "D2/ 8'26",
+    'T-1,045.10',
+    'PHardware Store',
+    'MWeekend',
+    'LHome:Repairs',
+    '^',
+    'D02/09/2026',
+    'T-30.00',
+    'PMarket',
+    'SGroceries',
+    '$-20.00',
+    'SHousehold',
+    'EBatteries',
+    '$-10.00',
+    '^'
+  ].join('\n');
+
+  it('maps records, categories and splits with stable derived imported ids', () => {
+    const rows = mapQifTransactions(qif, target, { dateFormat: 'MM/DD/YYYY', decimalSeparator: '.' });
+
+    expect(rows).toEqual([
+      {
+        line: 5,
+        status: 'valid',
+        input: {
+          amount: 1045.1,
+          flow: 'expense',
+          date: '2026-02-08',
+          payee: 'Hardware Store',
+          category: 'Repairs',
+          account: 'Checking',
+          notes: 'Weekend',
+          importedId: expect.stringMatching(/^qif:[0-9a-f]{32}$/)
+        }
+      },
+      {
+        line: 11,
+        status: 'valid',
+        input: {
+          amount: 30,
+          flow: 'expense',
+          date: '2026-02-09',
+          payee: 'Market',
+          account: 'Checking',
+          notes: '',
+          splits: [
+            { amount: 20, category: 'Groceries' },
+            { amount: 10, category: 'Household', notes: 'Batteries' }
+          ],
+          importedId: expect.stringMatching(/^qif:/)
+        }
+      }
+    ]);
+
+    const again = mapQifTransactions(qif, target, { dateFormat: 'MM/DD/YYYY', decimalSeparator: '.' });
+    expect(again.map((row) => row.status === 'valid' && row.input.importedId)).toEqual(
+      rows.map((row) => row.status === 'valid' && row.input.importedId)
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import { buildApp } from '../src/app';
+import { StaleReferenceError } from '../src/errors';
+import { entryTemplateSchema, type EntryTemplate } from '../src/schemas/templates';
+import { BudgetDocumentStore } from '../src/storage/budgetDocumentStore';
+import { TemplateService } from '../src/templates/templateService';
+import { makeConfig, makeDependencies } from './helpers';
+
+const budgetService = { assertBudgetAccessible: vi.fn().mockResolvedValue(undefined) };
+
+async function makeService(entryService: {
+  findStaleReferences: ReturnType<typeof vi.fn>;
+  createEntry: ReturnType<typeof vi.fn>;
+}): Promise<TemplateService> {
+  const store = new BudgetDocumentStore<EntryTemplate>('entry-templates');
+  const service = new TemplateService(entryService, budgetService, store);
+  await service.saveTemplate(
+    'budget_abc',
+    'Morning coffee',
+    entryTemplateSchema.parse({
+      amount: 4.5,
+      payee: 'Coffee Shop',
+      category: 'Dining',
+      account: 'Checking',
+      notes: 'Flat white'
+    })
+  );
+  return service;
+}
+
+describe('TemplateService', () => {
+  it('creates entries from a template with request overrides', async () => {
+    const entryService = {
+      findStaleReferences: vi.fn().mockResolvedValue([]),
+      createEntry: vi.fn().mockResolvedValue({ id: 'txn_template' })
+    };
+    const service = await makeService(entryService);
+
+    const entry = await service.createEntryFromTemplate({
+      budgetId: 'budget_abc',
+      name: 'Morning coffee',
+      amount: 5.2,
+      date: '2026-02-08',
+      account: 'Visa',
+      idempotencyKey: 'coffee-0208'
+    });
+
+    expect(entry).toEqual({ id: 'txn_template' });
+    expect(entryService.findStaleReferences).not.toHaveBeenCalled();
+    expect(entryService.createEntry).toHaveBeenCalledWith(
+      {
+        budgetId: 'budget_abc',
+        amount: 5.2,
+        flow: 'expense',
+        date: '2026-02-08',
+        payee: 'Coffee Shop',
+        category: 'Dining',
+        account: 'Visa',
+        notes: 'Flat white',
+        idempotencyKey: 'coffee-0208'
+      },
+      {
+        staleReferenceCheck: {
+          names: { account: undefined, category: 'Dining', fromAccount: undefined, toAccount: undefined },
+          message: 'Template Morning coffee references names missing from the budget'
+        }
+      }
+    );
+  });
+
+  it('rejects stale template references and missing templates', async () => {
+    const stale = [{ field: 'category', name: 'Dining', suggestions: [{ id: 'cat_eating', name: 'Eating Out' }] }];
+    const entryService = {
+      findStaleReferences: vi.fn().mockResolvedValue(stale),
+      createEntry: vi.fn().mockRejectedValue(new StaleReferenceError('Template references missing names', { stale }))
+    };
+    const service = await makeService(entryService);
+
+    await expect(
+      service.createEntryFromTemplate({ budgetId: 'budget_abc', name: 'Morning coffee' })
+    ).rejects.toBeInstanceOf(StaleReferenceError);
+
+    const item = await service.getTemplate('budget_abc', 'Morning coffee');
+    expect(item.staleReferences).toEqual(stale);
+
+    await expect(service.createEntryFromTemplate({ budgetId: 'budget_abc', name: 'Lunch' })).rejects.toMatchObject({
+      statusCode: 404,
+      message: 'Template not found: Lunch'
+    });
+    await expect(service.deleteTemplate('budget_abc', 'Lunch')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('template routes', () => {
+  it('validates templates and reports stale references as 409', async () => {
+    const config = makeConfig();
+    const templateService = {
+      listTemplates: vi.fn(),
+      getTemplate: vi.fn(),
+      saveTemplate: vi.fn(),
+      deleteTemplate: vi.fn(),
+      createEntryFromTemplate: vi.fn().mockRejectedValue(
+        new StaleReferenceError('Template Rent references names missing from the budget', {
+          stale: [{ field: 'account', name: 'Old Checking', suggestions: [] }]
+        })
+      )
+    };
+    const app = buildApp(config, makeDependencies({ templateService }));
+
+    await app.ready();
+
+    const transferWithPayee = await request(app.server)
+      .put('/budgets/budget_abc/templates/Savings')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ flow: 'transfer', fromAccount: 'Checking', toAccount: 'Savings', payee: 'Bank' });
+    expect(transferWithPayee.status).toBe(400);
+    expect(templateService.saveTemplate).not.toHaveBeenCalled();
+
+    const staleResponse = await request(app.server)
+      .post('/budgets/budget_abc/templates/Rent/entries')
+      .set('Authorization', `Bearer ${config.bridgeApiKey}`)
+      .send({ date: '2026-02-01' });
+    expect(staleResponse.status).toBe(409);
+    expect(staleResponse.body.error).toMatchObject({
+      code: 'stale_reference',
+      details: { stale: [{ field: 'account', name: 'Old Checking', suggestions: [] }] }
+    });
+    expect(templateService.createEntryFromTemplate).toHaveBeenCalledWith({
+      budgetId: 'budget_abc',
+      name: 'Rent',
+      date: '2026-02-01'
+    });
+
+    await app.close();
+  });
+});